@@ -4,10 +4,14 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { TrendingUp, TrendingDown, Users, Flame, Target, BarChart3, Brain, RefreshCw, CheckCircle2, XCircle, Clock } from 'lucide-react'
 import Link from 'next/link'
-import { formatRelativeDate, getLabelColor } from '@/lib/utils'
+import { formatRelativeDate, getLabelBadgeStyle } from '@/lib/utils'
 import { getModelStats } from '@/lib/learn'
+import { getTopTier, getTierRanges } from '@/lib/tiers'
+import { getScoreTiers } from '@/lib/org-settings'
 import { ModelMetricsCard } from '@/components/dashboard/model-metrics-card'
 import { LeadTrendsChart } from '@/components/dashboard/lead-trends-chart'
+import { DriftCard } from '@/components/dashboard/drift-card'
+import { ModelHistoryChart } from '@/components/dashboard/model-history-chart'
 import { IndustryBreakdownChart, CompanySizeChart, ScoreDistributionChart } from '@/components/dashboard/analytics-charts'
 
 async function getAnalytics(supabase: ReturnType<typeof createClient> extends Promise<infer T> ? T : never) {
@@ -26,6 +30,8 @@ async function getAnalytics(supabase: ReturnType<typeof createClient> extends Pr
   if (error || !member) return null
 
   const orgId = member.organization_id
+  const tiers = await getScoreTiers(orgId)
+  const topTier = getTopTier(tiers)
   const now = new Date()
   const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000)
   const sixtyDaysAgo = new Date(now.getTime() - 60 * 24 * 60 * 60 * 1000)
@@ -45,12 +51,12 @@ async function getAnalytics(supabase: ReturnType<typeof createClient> extends Pr
     .gte('created_at', sixtyDaysAgo.toISOString())
     .lt('created_at', thirtyDaysAgo.toISOString())
 
-  // Hot leads current period
+  // Top-tier leads current period
   const { count: hotLeads } = await supabase
     .from('leads')
     .select('*', { count: 'exact', head: true })
     .eq('organization_id', orgId)
-    .eq('label', 'hot')
+    .eq('label', topTier.id)
     .gte('created_at', thirtyDaysAgo.toISOString())
 
   // Converted leads
@@ -71,12 +77,12 @@ async function getAnalytics(supabase: ReturnType<typeof createClient> extends Pr
     ? Math.round(allLeads.reduce((sum, l) => sum + (l.score || 0), 0) / allLeads.length)
     : 0
 
-  // Recent hot leads
+  // Recent top-tier leads
   const { data: recentHotLeads } = await supabase
     .from('leads')
     .select('*')
     .eq('organization_id', orgId)
-    .eq('label', 'hot')
+    .eq('label', topTier.id)
     .order('created_at', { ascending: false })
     .limit(5)
 
@@ -98,11 +104,11 @@ async function getAnalytics(supabase: ReturnType<typeof createClient> extends Pr
     .eq('organization_id', orgId)
     .not('score', 'is', null)
 
-  const scoreRanges = [
-    { label: '80-100 (Hot)', min: 80, max: 100 },
-    { label: '50-79 (Warm)', min: 50, max: 79 },
-    { label: '0-49 (Cold)', min: 0, max: 49 },
-  ]
+  const scoreRanges = getTierRanges(tiers).map((tier) => ({
+    label: `${tier.min_score}-${tier.max_score} (${tier.name})`,
+    min: tier.min_score,
+    max: tier.max_score,
+  }))
 
   const conversionByScore = scoreRanges.map(range => {
     const leadsInRange = (allLeadsWithScores || []).filter(
@@ -118,6 +124,8 @@ async function getAnalytics(supabase: ReturnType<typeof createClient> extends Pr
   })
 
   return {
+    tiers,
+    topTier,
     totalLeads: totalLeads || 0,
     leadsChange,
     hotLeads: hotLeads || 0,
@@ -149,7 +157,7 @@ export default async function DashboardPage() {
       icon: Users,
     },
     {
-      name: 'Hot Leads',
+      name: `${analytics.topTier.name} Leads`,
       value: analytics.hotLeads,
       icon: Flame,
       highlight: true,
@@ -217,9 +225,9 @@ export default async function DashboardPage() {
       {/* Recent Hot Leads */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
-          <CardTitle>Recent Hot Leads</CardTitle>
+          <CardTitle>Recent {analytics.topTier.name} Leads</CardTitle>
           <Link
-            href="/dashboard/leads?label=hot"
+            href={`/dashboard/leads?label=${analytics.topTier.id}`}
             className="text-sm text-primary hover:underline"
           >
             View all
@@ -228,7 +236,7 @@ export default async function DashboardPage() {
         <CardContent>
           {analytics.recentHotLeads.length === 0 ? (
             <p className="text-sm text-muted-foreground text-center py-8">
-              No hot leads yet. They&apos;ll appear here when they come in.
+              No {analytics.topTier.name.toLowerCase()} leads yet. They&apos;ll appear here when they come in.
             </p>
           ) : (
             <div className="space-y-4">
@@ -252,7 +260,7 @@ export default async function DashboardPage() {
                     </div>
                   </div>
                   <div className="flex items-center gap-3">
-                    <Badge className={getLabelColor('hot')}>
+                    <Badge variant="outline" style={getLabelBadgeStyle(analytics.topTier.id, analytics.tiers)}>
                       Score: {lead.score}
                     </Badge>
                     <span className="text-sm text-muted-foreground">
@@ -324,6 +332,12 @@ export default async function DashboardPage() {
         </Card>
       </div>
 
+      {/* Holdout vs realized accuracy across model versions */}
+      {analytics.modelStats.currentModel && <ModelHistoryChart />}
+
+      {/* Score and feature drift against the model's training data */}
+      {analytics.modelStats.currentModel && <DriftCard />}
+
       {/* Outcome Distribution */}
       <Card>
         <CardHeader>
@@ -9,7 +9,8 @@ import { EmptyState } from '@/components/shared/empty-state'
 import { CriterionCard } from '@/components/icp/criterion-card'
 import { CriterionForm } from '@/components/icp/criterion-form'
 import { ICPGenerator } from '@/components/icp/icp-generator'
-import { Plus, Target, AlertCircle, Wand2 } from 'lucide-react'
+import { SimulationPanel } from '@/components/icp/simulation-panel'
+import { Plus, Target, AlertCircle, Wand2, FlaskConical } from 'lucide-react'
 import type { ICPCriterion } from '@/types'
 
 export default function ICPPage() {
@@ -20,6 +21,9 @@ export default function ICPPage() {
   const [editingCriterion, setEditingCriterion] = useState<ICPCriterion | null>(null)
   const [saving, setSaving] = useState(false)
   const [showGenerator, setShowGenerator] = useState(false)
+  // Unsaved copy of the criteria while testing changes; null when editing live
+  const [draft, setDraft] = useState<ICPCriterion[] | null>(null)
+  const [applying, setApplying] = useState(false)
 
   useEffect(() => {
     fetchCriteria()
@@ -43,6 +47,12 @@ export default function ICPPage() {
   }
 
   const handleCreate = async (data: Partial<ICPCriterion>) => {
+    if (draft) {
+      setDraft([...draft, { ...data, id: `draft-${Date.now()}` } as ICPCriterion])
+      setFormOpen(false)
+      return
+    }
+
     setSaving(true)
     try {
       const response = await fetch('/api/icp', {
@@ -69,6 +79,13 @@ export default function ICPPage() {
   const handleUpdate = async (data: Partial<ICPCriterion>) => {
     if (!editingCriterion) return
 
+    if (draft) {
+      setDraft(draft.map((c) => (c.id === editingCriterion.id ? { ...c, ...data } : c)))
+      setEditingCriterion(null)
+      setFormOpen(false)
+      return
+    }
+
     setSaving(true)
     try {
       const response = await fetch(`/api/icp/${editingCriterion.id}`, {
@@ -94,6 +111,11 @@ export default function ICPPage() {
   }
 
   const handleDelete = async (id: string) => {
+    if (draft) {
+      setDraft(draft.filter((c) => c.id !== id))
+      return
+    }
+
     try {
       const response = await fetch(`/api/icp/${id}`, {
         method: 'DELETE',
@@ -111,6 +133,11 @@ export default function ICPPage() {
   }
 
   const handleWeightChange = async (id: string, weight: number) => {
+    if (draft) {
+      setDraft(draft.map((c) => (c.id === id ? { ...c, weight } : c)))
+      return
+    }
+
     try {
       const response = await fetch(`/api/icp/${id}`, {
         method: 'PATCH',
@@ -130,6 +157,58 @@ export default function ICPPage() {
     }
   }
 
+  // Save every draft change through the regular criteria endpoints
+  const handleApplyDraft = async () => {
+    if (!draft) return
+
+    setApplying(true)
+    try {
+      const requests: Promise<Response>[] = []
+      const fields = (c: ICPCriterion) => ({
+        name: c.name,
+        description: c.description,
+        data_type: c.data_type,
+        weight: c.weight,
+        ideal_values: c.ideal_values,
+        is_required: !!c.is_required,
+        feature_source: c.feature_source ?? null,
+      })
+
+      for (const criterion of draft) {
+        const original = criteria.find((c) => c.id === criterion.id)
+        if (!original) {
+          requests.push(fetch('/api/icp', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(fields(criterion)),
+          }))
+        } else if (JSON.stringify(fields(original)) !== JSON.stringify(fields(criterion))) {
+          requests.push(fetch(`/api/icp/${criterion.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(fields(criterion)),
+          }))
+        }
+      }
+      for (const original of criteria) {
+        if (!draft.some((c) => c.id === original.id)) {
+          requests.push(fetch(`/api/icp/${original.id}`, { method: 'DELETE' }))
+        }
+      }
+
+      const responses = await Promise.all(requests)
+      if (responses.some((r) => !r.ok)) {
+        setError('Some changes could not be saved')
+      }
+      setDraft(null)
+      await fetchCriteria()
+    } catch (err) {
+      setError('Failed to apply changes')
+    } finally {
+      setApplying(false)
+    }
+  }
+
   const handleEdit = (criterion: ICPCriterion) => {
     setEditingCriterion(criterion)
     setFormOpen(true)
@@ -142,7 +221,8 @@ export default function ICPPage() {
     }
   }
 
-  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0)
+  const visibleCriteria = draft || criteria
+  const totalWeight = visibleCriteria.reduce((sum, c) => sum + c.weight, 0)
 
   if (loading) {
     return (
@@ -182,6 +262,12 @@ export default function ICPPage() {
           </p>
         </div>
         <div className="flex gap-2">
+          {!draft && criteria.length > 0 && (
+            <Button variant="outline" onClick={() => setDraft(criteria)}>
+              <FlaskConical className="mr-2 h-4 w-4" />
+              Test Changes
+            </Button>
+          )}
           <Button variant="outline" onClick={() => setShowGenerator(true)}>
             <Wand2 className="mr-2 h-4 w-4" />
             Auto-Generate ICP
@@ -210,8 +296,31 @@ export default function ICPPage() {
         </Card>
       )}
 
+      {/* Draft mode */}
+      {draft && (
+        <>
+          <Card className="border-primary">
+            <CardContent className="flex items-center gap-3 py-4">
+              <FlaskConical className="h-5 w-5 text-primary" />
+              <p className="text-sm">
+                You are editing a draft. Changes are not saved until you apply them.
+              </p>
+              <div className="ml-auto flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setDraft(null)} disabled={applying}>
+                  Discard
+                </Button>
+                <Button size="sm" onClick={handleApplyDraft} disabled={applying}>
+                  {applying ? 'Applying...' : 'Apply Changes'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+          <SimulationPanel criteria={draft} />
+        </>
+      )}
+
       {/* Weight summary */}
-      {criteria.length > 0 && (
+      {visibleCriteria.length > 0 && (
         <Card>
           <CardHeader className="pb-3">
             <CardTitle className="text-base">Weight Distribution</CardTitle>
@@ -226,7 +335,7 @@ export default function ICPPage() {
           </CardHeader>
           <CardContent>
             <div className="h-3 rounded-full bg-muted overflow-hidden flex">
-              {criteria.map((criterion, index) => (
+              {visibleCriteria.map((criterion, index) => (
                 <div
                   key={criterion.id}
                   className="h-full transition-all"
@@ -239,7 +348,7 @@ export default function ICPPage() {
               ))}
             </div>
             <div className="flex flex-wrap gap-3 mt-3">
-              {criteria.map((criterion, index) => (
+              {visibleCriteria.map((criterion, index) => (
                 <div key={criterion.id} className="flex items-center gap-2 text-sm">
                   <div
                     className="h-3 w-3 rounded-full"
@@ -258,7 +367,7 @@ export default function ICPPage() {
       )}
 
       {/* Criteria grid */}
-      {criteria.length === 0 ? (
+      {visibleCriteria.length === 0 ? (
         <Card className="p-8">
           <EmptyState
             icon={<Target className="h-12 w-12" />}
@@ -280,7 +389,7 @@ export default function ICPPage() {
         </Card>
       ) : (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {criteria.map((criterion) => (
+          {visibleCriteria.map((criterion) => (
             <CriterionCard
               key={criterion.id}
               criterion={criterion}
@@ -8,13 +8,16 @@ import { LeadDetailPanel } from '@/components/leads/lead-detail-panel'
 import { LeadFilters } from '@/components/leads/lead-filters'
 import { Button } from '@/components/ui/button'
 import { LeadImportDialog } from '@/components/leads/lead-import-dialog'
-import { Download, Upload } from 'lucide-react'
+import { BulkRequalifyDialog } from '@/components/leads/bulk-requalify-dialog'
+import { useScoreTiers } from '@/hooks/use-score-tiers'
+import { Download, RefreshCw, Upload } from 'lucide-react'
 import type { Lead } from '@/types'
 
 export default function LeadsPage() {
   const searchParams = useSearchParams()
   const router = useRouter()
   const supabase = createClient()
+  const tiers = useScoreTiers()
 
   const [leads, setLeads] = useState<Lead[]>([])
   const [loading, setLoading] = useState(true)
@@ -26,6 +29,7 @@ export default function LeadsPage() {
   })
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null)
   const [showImportDialog, setShowImportDialog] = useState(false)
+  const [showRequalifyDialog, setShowRequalifyDialog] = useState(false)
 
   // Get filter values from URL
   const label = searchParams.get('label') || ''
@@ -140,6 +144,10 @@ export default function LeadsPage() {
             <Upload className="mr-2 h-4 w-4" />
             Import CSV
           </Button>
+          <Button onClick={() => setShowRequalifyDialog(true)} variant="outline">
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Requalify
+          </Button>
           <Button onClick={handleExport} variant="outline">
             <Download className="mr-2 h-4 w-4" />
             Export CSV
@@ -147,7 +155,7 @@ export default function LeadsPage() {
         </div>
       </div>
 
-      <LeadFilters />
+      <LeadFilters tiers={tiers} />
 
       <LeadsTable
         leads={leads}
@@ -155,12 +163,14 @@ export default function LeadsPage() {
         pagination={pagination}
         onSelect={handleLeadSelect}
         selectedId={selectedLead?.id}
+        tiers={tiers}
       />
 
       <LeadDetailPanel
         lead={selectedLead}
         onClose={handleLeadClose}
         onUpdate={handleLeadUpdate}
+        tiers={tiers}
       />
 
       <LeadImportDialog
@@ -168,6 +178,15 @@ export default function LeadsPage() {
         onOpenChange={setShowImportDialog}
         onSuccess={fetchLeads}
       />
+
+      <BulkRequalifyDialog
+        open={showRequalifyDialog}
+        onOpenChange={setShowRequalifyDialog}
+        tiers={tiers}
+        initialLabel={label}
+        initialStatus={status}
+        onComplete={fetchLeads}
+      />
     </div>
   )
 }
@@ -0,0 +1,353 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatRelativeDate } from '@/lib/utils'
+import { AlertCircle, FlaskConical, Loader2, RotateCcw, Trophy } from 'lucide-react'
+import type { ScoringModel } from '@/lib/learn'
+import type { ChallengerComparison } from '@/lib/model-registry'
+
+export default function ModelsPage() {
+  const [models, setModels] = useState<ScoringModel[]>([])
+  const [comparison, setComparison] = useState<ChallengerComparison | null>(null)
+  const [minSamples, setMinSamples] = useState(20)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchModels()
+  }, [])
+
+  const fetchModels = async () => {
+    try {
+      const response = await fetch('/api/scoring/models')
+      const data = await response.json()
+
+      if (response.ok) {
+        setModels(data.models)
+        setComparison(data.comparison)
+        setMinSamples(data.min_comparison_samples)
+      } else {
+        setError(data.error)
+      }
+    } catch (err) {
+      setError('Failed to fetch scoring models')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleTrainChallenger = async () => {
+    setBusy('train')
+    setError(null)
+    try {
+      const response = await fetch('/api/scoring/retrain', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ challenger: true }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        await fetchModels()
+      } else {
+        setError(data.error)
+      }
+    } catch (err) {
+      setError('Failed to train challenger')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleActivate = async (model: ScoringModel, force = false) => {
+    const message = model.isChallenger
+      ? `Promote version ${model.modelVersion} to the active model?`
+      : `Activate version ${model.modelVersion}? New leads will be scored with it immediately.`
+    if (!confirm(message)) return
+
+    setBusy(model.id)
+    setError(null)
+    try {
+      const response = await fetch(`/api/scoring/models/${model.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ force }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        await fetchModels()
+      } else {
+        setError(data.error)
+      }
+    } catch (err) {
+      setError('Failed to activate model')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleStopChallenger = async (model: ScoringModel) => {
+    setBusy(model.id)
+    setError(null)
+    try {
+      const response = await fetch(`/api/scoring/models/${model.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (response.ok) {
+        await fetchModels()
+      } else {
+        setError(data.error)
+      }
+    } catch (err) {
+      setError('Failed to stop challenger')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-4 w-72 mt-2" />
+        </div>
+        <Skeleton className="h-48 w-full" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    )
+  }
+
+  const challenger = models.find((m) => m.isChallenger) || null
+  const activeVersion = models.find((m) => m.isActive)?.modelVersion ?? 0
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Scoring Models</h1>
+          <p className="text-muted-foreground">
+            Every trained model version, shadow challengers and rollback
+          </p>
+        </div>
+        <Button onClick={handleTrainChallenger} disabled={busy !== null} variant="outline">
+          {busy === 'train' ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <FlaskConical className="mr-2 h-4 w-4" />
+          )}
+          Train Challenger
+        </Button>
+      </div>
+
+      {error && (
+        <Card className="border-destructive">
+          <CardContent className="flex items-center gap-3 py-4">
+            <AlertCircle className="h-5 w-5 text-destructive" />
+            <p className="text-sm text-destructive">{error}</p>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setError(null)}
+              className="ml-auto"
+            >
+              Dismiss
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Champion vs challenger */}
+      {challenger && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FlaskConical className="h-5 w-5" />
+              Challenger v{challenger.modelVersion}
+            </CardTitle>
+            <CardDescription>
+              Scored in shadow next to the active model. Reps only see the active model&apos;s scores.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {comparison && (
+              <>
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Closed leads scored by both models</span>
+                    <span>
+                      {comparison.sampleSize} / {minSamples} ({comparison.conversions} converted)
+                    </span>
+                  </div>
+                  <Progress value={Math.min(100, (comparison.sampleSize / minSamples) * 100)} className="h-2" />
+                </div>
+
+                {comparison.champion && comparison.challenger && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Model</TableHead>
+                        <TableHead className="text-right">ROC AUC</TableHead>
+                        <TableHead className="text-right">Brier Score</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      <TableRow>
+                        <TableCell>
+                          Champion{comparison.championVersion !== null && ` v${comparison.championVersion}`}
+                        </TableCell>
+                        <TableCell className="text-right">{comparison.champion.auc.toFixed(3)}</TableCell>
+                        <TableCell className="text-right">{comparison.champion.brierScore.toFixed(3)}</TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>Challenger v{comparison.challengerVersion}</TableCell>
+                        <TableCell className="text-right">{comparison.challenger.auc.toFixed(3)}</TableCell>
+                        <TableCell className="text-right">{comparison.challenger.brierScore.toFixed(3)}</TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                )}
+
+                <p className="text-sm text-muted-foreground">
+                  {comparison.challengerWins
+                    ? 'The challenger ranks leads better without worse calibration. It can be promoted.'
+                    : 'Promotion unlocks once the challenger has a higher AUC and no worse Brier score on enough closed leads.'}
+                </p>
+              </>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="ghost"
+                onClick={() => handleStopChallenger(challenger)}
+                disabled={busy !== null}
+              >
+                Stop Challenger
+              </Button>
+              {!comparison?.challengerWins && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleActivate(challenger, true)}
+                  disabled={busy !== null}
+                >
+                  Promote Anyway
+                </Button>
+              )}
+              <Button
+                onClick={() => handleActivate(challenger)}
+                disabled={busy !== null || !comparison?.challengerWins}
+              >
+                {busy === challenger.id ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Trophy className="mr-2 h-4 w-4" />
+                )}
+                Promote
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Registry */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Versions</CardTitle>
+          <CardDescription>
+            Holdout metrics from training. Roll back to any earlier version at any time.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {models.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No models trained yet. Record outcomes for at least 50 leads to train the first one.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Outcomes</TableHead>
+                  <TableHead className="text-right">AUC</TableHead>
+                  <TableHead className="text-right">Log Loss</TableHead>
+                  <TableHead className="text-right">Brier</TableHead>
+                  <TableHead className="text-right">Accuracy</TableHead>
+                  <TableHead>Trained</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {models.map((model) => {
+                  const metrics = model.performanceMetrics
+                  return (
+                    <TableRow key={model.id}>
+                      <TableCell className="font-medium">v{model.modelVersion}</TableCell>
+                      <TableCell>
+                        {model.isActive ? (
+                          <Badge>Active</Badge>
+                        ) : model.isChallenger ? (
+                          <Badge variant="secondary">Challenger</Badge>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">Inactive</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{model.trainedOnCount}</TableCell>
+                      <TableCell className="text-right">
+                        {metrics ? metrics.auc.toFixed(3) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {metrics?.logLoss !== undefined ? metrics.logLoss.toFixed(3) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {metrics?.brierScore !== undefined ? metrics.brierScore.toFixed(3) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {metrics ? `${(metrics.accuracy * 100).toFixed(1)}%` : '-'}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatRelativeDate(model.createdAt)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {!model.isActive && !model.isChallenger && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleActivate(model)}
+                            disabled={busy !== null}
+                          >
+                            {busy === model.id ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                              <RotateCcw className="mr-2 h-4 w-4" />
+                            )}
+                            {model.modelVersion < activeVersion ? 'Roll Back' : 'Activate'}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
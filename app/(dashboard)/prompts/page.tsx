@@ -0,0 +1,328 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Skeleton } from '@/components/ui/skeleton'
+import { formatRelativeDate } from '@/lib/utils'
+import { AlertCircle, Check, Eye, History, Loader2, RotateCcw } from 'lucide-react'
+import type { PromptTemplate } from '@/types'
+
+interface PromptVariable {
+  name: string
+  description: string
+}
+
+export default function PromptsPage() {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([])
+  const [defaultTemplate, setDefaultTemplate] = useState('')
+  const [variables, setVariables] = useState<PromptVariable[]>([])
+  const [template, setTemplate] = useState('')
+  const [notes, setNotes] = useState('')
+  const [preview, setPreview] = useState<{ prompt: string; leadName: string | null } | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [previewing, setPreviewing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState(false)
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [])
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await fetch('/api/prompts')
+      const data = await response.json()
+
+      if (response.ok) {
+        setTemplates(data.templates)
+        setDefaultTemplate(data.default_template)
+        setVariables(data.variables)
+        setTemplate(data.active?.template || data.default_template)
+      } else {
+        setError(data.error)
+      }
+    } catch (err) {
+      setError('Failed to fetch prompt templates')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handlePreview = async () => {
+    setPreviewing(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/prompts/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ template }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setPreview({ prompt: data.prompt, leadName: data.lead?.name || null })
+        if (data.unknown_variables.length > 0) {
+          setError(`Unknown variables: ${data.unknown_variables.map((v: string) => `{{${v}}}`).join(', ')}`)
+        }
+      } else {
+        setError(data.error)
+      }
+    } catch (err) {
+      setError('Failed to preview prompt')
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    setSuccess(false)
+    try {
+      const response = await fetch('/api/prompts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ template, notes: notes || undefined }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setTemplates([data.template, ...templates.map((t) => ({ ...t, is_active: false }))])
+        setNotes('')
+        setSuccess(true)
+        setTimeout(() => setSuccess(false), 3000)
+      } else {
+        setError(data.error)
+      }
+    } catch (err) {
+      setError('Failed to save prompt template')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleActivate = async (version: PromptTemplate) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/prompts/${version.id}`, { method: 'PATCH' })
+      const data = await response.json()
+
+      if (response.ok) {
+        setTemplates(templates.map((t) => ({ ...t, is_active: t.id === version.id })))
+        setTemplate(version.template)
+      } else {
+        setError(data.error)
+      }
+    } catch (err) {
+      setError('Failed to activate template')
+    }
+  }
+
+  const handleUseDefault = async () => {
+    const active = templates.find((t) => t.is_active)
+    setError(null)
+    try {
+      if (active) {
+        const response = await fetch(`/api/prompts/${active.id}`, { method: 'DELETE' })
+        if (!response.ok) {
+          const data = await response.json()
+          setError(data.error)
+          return
+        }
+      }
+      setTemplates(templates.map((t) => ({ ...t, is_active: false })))
+      setTemplate(defaultTemplate)
+    } catch (err) {
+      setError('Failed to restore built-in template')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-4 w-72 mt-2" />
+        </div>
+        <Skeleton className="h-96 w-full" />
+      </div>
+    )
+  }
+
+  const activeTemplate = templates.find((t) => t.is_active)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Scoring Prompt</h1>
+        <p className="text-muted-foreground">
+          Add context about your product and market to the instructions the AI scores leads with
+        </p>
+      </div>
+
+      {error && (
+        <Card className="border-destructive">
+          <CardContent className="flex items-center gap-3 py-4">
+            <AlertCircle className="h-5 w-5 text-destructive" />
+            <p className="text-sm text-destructive">{error}</p>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setError(null)}
+              className="ml-auto"
+            >
+              Dismiss
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {success && (
+        <Card className="border-success bg-success/5">
+          <CardContent className="flex items-center gap-3 py-4">
+            <Check className="h-5 w-5 text-success" />
+            <p className="text-sm text-success">New template version saved and active</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          {/* Editor */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Template</CardTitle>
+                <Badge variant="outline">
+                  {activeTemplate ? `Version ${activeTemplate.version} active` : 'Built-in template'}
+                </Badge>
+              </div>
+              <CardDescription>
+                The JSON response format is added automatically after your template
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Textarea
+                value={template}
+                onChange={(e) => setTemplate(e.target.value)}
+                rows={24}
+                className="font-mono text-xs"
+              />
+              <div className="space-y-2">
+                <Label htmlFor="notes">Change Notes</Label>
+                <Input
+                  id="notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="e.g. Added disqualifiers for agencies"
+                />
+              </div>
+              <div className="flex justify-between">
+                <Button variant="ghost" onClick={handleUseDefault}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Use Built-in Template
+                </Button>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={handlePreview} disabled={previewing}>
+                    {previewing ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Eye className="mr-2 h-4 w-4" />
+                    )}
+                    Preview
+                  </Button>
+                  <Button onClick={handleSave} disabled={saving}>
+                    {saving ? 'Saving...' : 'Save as New Version'}
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Preview */}
+          {preview && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Preview</CardTitle>
+                <CardDescription>
+                  {preview.leadName
+                    ? `Rendered for ${preview.leadName}, your most recent lead`
+                    : 'Rendered for a sample lead'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <pre className="whitespace-pre-wrap rounded-lg bg-muted p-4 text-xs">
+                  {preview.prompt}
+                </pre>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          {/* Variables */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Variables</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {variables.map((variable) => (
+                <div key={variable.name} className="text-sm">
+                  <code className="bg-muted px-1 rounded">{`{{${variable.name}}}`}</code>
+                  <p className="text-xs text-muted-foreground">{variable.description}</p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* History */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <History className="h-4 w-4" />
+                Version History
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {templates.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No saved versions yet</p>
+              ) : (
+                templates.map((version) => (
+                  <div key={version.id} className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">
+                        Version {version.version}
+                        {version.is_active && (
+                          <Badge variant="outline" className="ml-2 text-xs">Active</Badge>
+                        )}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {version.notes || 'No notes'} · {formatRelativeDate(version.created_at)}
+                      </p>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => setTemplate(version.template)}>
+                        Load
+                      </Button>
+                      {!version.is_active && (
+                        <Button variant="ghost" size="sm" onClick={() => handleActivate(version)}>
+                          Activate
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -8,8 +8,37 @@ import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Separator } from '@/components/ui/separator'
-import { AlertCircle, Copy, Check, ExternalLink } from 'lucide-react'
-import type { Organization } from '@/types'
+import { Switch } from '@/components/ui/switch'
+import { Slider } from '@/components/ui/slider'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  DEFAULT_LLM_MODEL,
+  DEFAULT_SCORE_TIERS,
+  DEFAULT_ENRICHMENT_PROVIDERS,
+  LLM_MODELS,
+} from '@/lib/constants'
+import { resolveScoreTiers } from '@/lib/tiers'
+import { invalidateScoreTiers } from '@/hooks/use-score-tiers'
+import { resolveTitleTaxonomy, type TitleTaxonomy } from '@/lib/title-taxonomy'
+import { EnrichmentSettingsEditor } from '@/components/settings/enrichment-settings'
+import { TitleTaxonomyEditor } from '@/components/settings/title-taxonomy-editor'
+import { AlertCircle, Copy, Check, ExternalLink, Plus, Trash2 } from 'lucide-react'
+import type { Organization, ScoreTier } from '@/types'
+import type { EnrichmentSettings, ProviderSecretsUpdate, LookupTableSummary } from '@/lib/enrichment'
+
+// One domain per line (commas also accepted)
+function parseDomainList(value: string): string[] {
+  return value
+    .split(/[\n,]/)
+    .map((d) => d.trim().toLowerCase())
+    .filter(Boolean)
+}
 
 export default function SettingsPage() {
   const [organization, setOrganization] = useState<Organization | null>(null)
@@ -27,6 +56,21 @@ export default function SettingsPage() {
   const [thankYouTitle, setThankYouTitle] = useState('')
   const [thankYouMessage, setThankYouMessage] = useState('')
   const [redirectUrl, setRedirectUrl] = useState('')
+  const [llmModel, setLlmModel] = useState<string>(DEFAULT_LLM_MODEL)
+  const [blendRatio, setBlendRatio] = useState(0.7)
+  const [blendAutoTune, setBlendAutoTune] = useState(true)
+  const [competitorDomains, setCompetitorDomains] = useState('')
+  const [blockedEmailDomains, setBlockedEmailDomains] = useState('')
+  const [blockStudentEmails, setBlockStudentEmails] = useState(false)
+  const [tiers, setTiers] = useState<ScoreTier[]>(DEFAULT_SCORE_TIERS)
+  const [enrichment, setEnrichment] = useState<EnrichmentSettings>({
+    providers: DEFAULT_ENRICHMENT_PROVIDERS,
+    merge_rules: {},
+  })
+  const [providerHeaders, setProviderHeaders] = useState<Record<string, string[]>>({})
+  const [providerHeaderChanges, setProviderHeaderChanges] = useState<ProviderSecretsUpdate>({})
+  const [lookupTables, setLookupTables] = useState<Record<string, LookupTableSummary>>({})
+  const [titleTaxonomy, setTitleTaxonomy] = useState<TitleTaxonomy>(() => resolveTitleTaxonomy({}))
 
   useEffect(() => {
     fetchSettings()
@@ -45,6 +89,21 @@ export default function SettingsPage() {
         setThankYouTitle(data.organization.thank_you_title || '')
         setThankYouMessage(data.organization.thank_you_message || '')
         setRedirectUrl(data.organization.redirect_url || '')
+        setLlmModel(data.organization.settings?.llm?.model || DEFAULT_LLM_MODEL)
+        setBlendRatio(data.organization.settings?.blend?.llm_ratio ?? 0.7)
+        setBlendAutoTune(data.organization.settings?.blend?.auto_tune ?? true)
+        const knockout = data.organization.settings?.knockout || {}
+        setCompetitorDomains((knockout.competitor_domains || []).join('\n'))
+        setBlockedEmailDomains((knockout.blocked_email_domains || []).join('\n'))
+        setBlockStudentEmails(!!knockout.block_student_emails)
+        setTiers(resolveScoreTiers(data.organization.settings?.tiers))
+        setEnrichment({
+          providers: data.organization.settings?.enrichment?.providers || DEFAULT_ENRICHMENT_PROVIDERS,
+          merge_rules: data.organization.settings?.enrichment?.merge_rules || {},
+        })
+        setProviderHeaders(data.enrichment_secret_headers || {})
+        setLookupTables(data.enrichment_lookup_tables || {})
+        setTitleTaxonomy(resolveTitleTaxonomy(data.organization.settings?.title_taxonomy))
       } else {
         setError(data.error)
       }
@@ -71,6 +130,24 @@ export default function SettingsPage() {
           thank_you_title: thankYouTitle,
           thank_you_message: thankYouMessage,
           redirect_url: redirectUrl || null,
+          llm: {
+            ...((organization?.settings?.llm as Record<string, unknown>) || {}),
+            model: llmModel,
+          },
+          blend: {
+            llm_ratio: blendRatio,
+            auto_tune: blendAutoTune,
+          },
+          knockout: {
+            ...((organization?.settings?.knockout as Record<string, unknown>) || {}),
+            competitor_domains: parseDomainList(competitorDomains),
+            blocked_email_domains: parseDomainList(blockedEmailDomains),
+            block_student_emails: blockStudentEmails,
+          },
+          tiers,
+          enrichment,
+          enrichment_secrets: providerHeaderChanges,
+          title_taxonomy: titleTaxonomy,
         }),
       })
 
@@ -78,6 +155,10 @@ export default function SettingsPage() {
 
       if (response.ok) {
         setOrganization(data.organization)
+        setTiers(resolveScoreTiers(data.organization.settings?.tiers))
+        invalidateScoreTiers()
+        setProviderHeaders(data.enrichment_secret_headers || {})
+        setProviderHeaderChanges({})
         setSuccess(true)
         setTimeout(() => setSuccess(false), 3000)
       } else {
@@ -90,6 +171,30 @@ export default function SettingsPage() {
     }
   }
 
+  const changeProviderHeader = (providerId: string, name: string, value: string | null | undefined) => {
+    setProviderHeaderChanges((prev) => {
+      const changes = { ...(prev[providerId] || {}) }
+      if (value === undefined) delete changes[name]
+      else changes[name] = value
+      return { ...prev, [providerId]: changes }
+    })
+  }
+
+  const updateTier = (index: number, updates: Partial<ScoreTier>) => {
+    setTiers((prev) => prev.map((tier, i) => (i === index ? { ...tier, ...updates } : tier)))
+  }
+
+  const addTier = () => {
+    setTiers((prev) => [
+      ...prev,
+      { id: `tier_${prev.length + 1}`, name: 'New Tier', min_score: 0, color: '#64748b' },
+    ])
+  }
+
+  const removeTier = (index: number) => {
+    setTiers((prev) => prev.filter((_, i) => i !== index))
+  }
+
   const handleCopyApiKey = async () => {
     if (organization) {
       await navigator.clipboard.writeText(organization.public_api_key)
@@ -275,6 +380,214 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      {/* AI Model */}
+      <Card>
+        <CardHeader>
+          <CardTitle>AI Model</CardTitle>
+          <CardDescription>
+            Model used for lead qualification, enrichment and ICP generation
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="llmModel">Model</Label>
+            <Select value={llmModel} onValueChange={setLlmModel}>
+              <SelectTrigger id="llmModel">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LLM_MODELS.map((m) => (
+                  <SelectItem key={m.value} value={m.value}>
+                    {m.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Larger models are more accurate but slower and more expensive per lead
+            </p>
+          </div>
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Score Blend</Label>
+              <span className="text-sm font-medium">
+                {Math.round(blendRatio * 100)}% AI / {Math.round((1 - blendRatio) * 100)}% learned model
+              </span>
+            </div>
+            <Slider
+              value={[blendRatio * 100]}
+              onValueChange={(v) => setBlendRatio(v[0] / 100)}
+              max={100}
+              step={10}
+              disabled={blendAutoTune}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>Tune blend automatically</Label>
+              <p className="text-xs text-muted-foreground">
+                Use the ratio that best predicted outcomes when the model was last trained
+              </p>
+            </div>
+            <Switch checked={blendAutoTune} onCheckedChange={setBlendAutoTune} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Score Tiers */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Score Tiers</CardTitle>
+          <CardDescription>
+            Labels assigned to leads by score. Each lead gets the highest tier whose minimum score it
+            reaches
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {tiers.map((tier, index) => (
+            <div key={index} className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor={`tierName${index}`}>Name</Label>
+                <Input
+                  id={`tierName${index}`}
+                  value={tier.name}
+                  onChange={(e) => updateTier(index, { name: e.target.value })}
+                />
+              </div>
+              <div className="w-32 space-y-2">
+                <Label htmlFor={`tierId${index}`}>Key</Label>
+                <Input
+                  id={`tierId${index}`}
+                  value={tier.id}
+                  onChange={(e) =>
+                    updateTier(index, { id: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_') })
+                  }
+                />
+              </div>
+              <div className="w-24 space-y-2">
+                <Label htmlFor={`tierMin${index}`}>Min Score</Label>
+                <Input
+                  id={`tierMin${index}`}
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={tier.min_score}
+                  onChange={(e) => updateTier(index, { min_score: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`tierColor${index}`}>Color</Label>
+                <Input
+                  id={`tierColor${index}`}
+                  type="color"
+                  value={tier.color}
+                  onChange={(e) => updateTier(index, { color: e.target.value })}
+                  className="h-10 w-14 p-1"
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeTier(index)}
+                disabled={tiers.length <= 2}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-muted-foreground">
+              One tier must start at 0. Changing keys does not relabel existing leads until they are
+              requalified
+            </p>
+            <Button variant="outline" size="sm" onClick={addTier} disabled={tiers.length >= 8}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Tier
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Disqualification Rules */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Disqualification Rules</CardTitle>
+          <CardDescription>
+            Leads matching these rules always land in the lowest score tier, whatever the AI or model says
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="competitorDomains">Competitor Domains</Label>
+            <Textarea
+              id="competitorDomains"
+              value={competitorDomains}
+              onChange={(e) => setCompetitorDomains(e.target.value)}
+              placeholder={'competitor.com\nrival.io'}
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">
+              One domain per line. Matched against the lead&apos;s email and company website
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="blockedEmailDomains">Blocked Email Domains</Label>
+            <Textarea
+              id="blockedEmailDomains"
+              value={blockedEmailDomains}
+              onChange={(e) => setBlockedEmailDomains(e.target.value)}
+              placeholder={'mailinator.com'}
+              rows={3}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>Disqualify student emails</Label>
+              <p className="text-xs text-muted-foreground">
+                Academic addresses such as .edu and .ac.uk domains
+              </p>
+            </div>
+            <Switch checked={blockStudentEmails} onCheckedChange={setBlockStudentEmails} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Enrichment Providers */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Enrichment Providers</CardTitle>
+          <CardDescription>
+            Sources of company, intent and authority data for each lead. When several providers cover
+            the same data, merge rules decide which value each field keeps
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <EnrichmentSettingsEditor
+            value={enrichment}
+            onChange={setEnrichment}
+            savedHeaders={providerHeaders}
+            headerChanges={providerHeaderChanges}
+            onHeaderChange={changeProviderHeader}
+            lookupTables={lookupTables}
+            onLookupTableUpload={(table) => setLookupTables((prev) => ({ ...prev, [table.id]: table }))}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Title Taxonomy */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Title Taxonomy</CardTitle>
+          <CardDescription>
+            How job titles map to seniority and department. Drives the authority assessment and the
+            job title match used in scoring
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TitleTaxonomyEditor value={titleTaxonomy} onChange={setTitleTaxonomy} />
+        </CardContent>
+      </Card>
+
       {/* Integration */}
       <Card>
         <CardHeader>
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { getScoreTier } from '@/lib/tiers'
+import { getScoreTiers } from '@/lib/org-settings'
 
 // GET /api/analytics - Get analytics data for the organization
 export async function GET(request: NextRequest) {
@@ -28,6 +30,8 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const days = parseInt(searchParams.get('days') || '30')
 
+    const tiers = await getScoreTiers(membership.organization_id)
+
     const now = new Date()
     const startDate = new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
 
@@ -39,28 +43,32 @@ export async function GET(request: NextRequest) {
       .gte('created_at', startDate.toISOString())
       .order('created_at', { ascending: true })
 
-    // Aggregate by day
-    const dailyData: Record<string, { date: string; total: number; hot: number; warm: number; cold: number }> = {}
+    // Aggregate by day, with one count per score tier
+    const dailyCounts: Record<string, Record<string, number>> = {}
 
     for (let i = 0; i < days; i++) {
       const date = new Date(startDate.getTime() + i * 24 * 60 * 60 * 1000)
       const dateStr = date.toISOString().split('T')[0]
-      dailyData[dateStr] = { date: dateStr, total: 0, hot: 0, warm: 0, cold: 0 }
+      dailyCounts[dateStr] = { total: 0 }
+      for (const tier of tiers) {
+        dailyCounts[dateStr][tier.id] = 0
+      }
     }
 
     if (leads) {
       for (const lead of leads) {
         const dateStr = new Date(lead.created_at).toISOString().split('T')[0]
-        if (dailyData[dateStr]) {
-          dailyData[dateStr].total++
-          if (lead.label === 'hot') dailyData[dateStr].hot++
-          else if (lead.label === 'warm') dailyData[dateStr].warm++
-          else if (lead.label === 'cold') dailyData[dateStr].cold++
+        const counts = dailyCounts[dateStr]
+        if (counts) {
+          counts.total++
+          if (lead.label && counts[lead.label] !== undefined) {
+            counts[lead.label]++
+          }
         }
       }
     }
 
-    const leadTrends = Object.values(dailyData)
+    const leadTrends = Object.entries(dailyCounts).map(([date, counts]) => ({ date, ...counts }))
 
     // Aggregate by industry
     const industryData: Record<string, number> = {}
@@ -115,10 +123,11 @@ export async function GET(request: NextRequest) {
       const count = (leads || []).filter(
         (l) => l.score !== null && l.score >= range.min && l.score <= range.max
       ).length
-      return { range: range.range, count }
+      return { range: range.range, count, color: getScoreTier(range.min, tiers).color }
     })
 
     return NextResponse.json({
+      tiers,
       leadTrends,
       industryBreakdown,
       companySizeBreakdown,
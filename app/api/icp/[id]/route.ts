@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { customFeatureSourceSchema } from '@/lib/feature-registry'
 
 // PATCH /api/icp/[id] - Update an ICP criterion
 export async function PATCH(
@@ -48,7 +49,7 @@ export async function PATCH(
     }
 
     const body = await request.json()
-    const { name, description, weight, data_type, ideal_values } = body
+    const { name, description, weight, data_type, ideal_values, is_required, feature_source } = body
 
     // Build update object with correct DB column names
     const updates: Record<string, unknown> = {}
@@ -60,6 +61,17 @@ export async function PATCH(
     }
     if (data_type !== undefined) updates.type = data_type
     if (ideal_values !== undefined) updates.ideal_values = ideal_values
+    if (is_required !== undefined) updates.is_required = !!is_required
+    if (feature_source !== undefined) {
+      const parsedSource = customFeatureSourceSchema.safeParse(feature_source)
+      if (!parsedSource.success) {
+        return NextResponse.json(
+          { error: parsedSource.error.issues[0]?.message || 'Invalid feature source' },
+          { status: 400 }
+        )
+      }
+      updates.feature_source = parsedSource.data
+    }
 
     // Update criterion
     const { data: dbCriterion, error } = await supabase
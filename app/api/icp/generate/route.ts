@@ -64,7 +64,7 @@ export async function POST(request: NextRequest) {
       }
 
       inputData = { domain: cleanDomain }
-      result = await generateICPFromDomain(cleanDomain)
+      result = await generateICPFromDomain(cleanDomain, membership.organization_id)
     } else {
       // CSV-based generation
       let customerRecords: CustomerRecord[]
@@ -107,7 +107,7 @@ export async function POST(request: NextRequest) {
         record_count: customerRecords.length,
         sample_fields: Object.keys(customerRecords[0] || {}),
       }
-      result = await generateICPFromCSV(customerRecords)
+      result = await generateICPFromCSV(customerRecords, membership.organization_id)
     }
 
     // Store the generation in the database
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { customFeatureSourceSchema } from '@/lib/feature-registry'
 
 // GET /api/icp - Get all ICP criteria for the organization
 export async function GET() {
@@ -84,7 +85,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { name, description, weight, data_type, type, ideal_values } = body
+    const { name, description, weight, data_type, type, ideal_values, is_required, feature_source } = body
 
     // Support both 'type' and 'data_type' for backwards compatibility
     const criterionType = type || data_type
@@ -96,6 +97,14 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const parsedSource = customFeatureSourceSchema.safeParse(feature_source ?? null)
+    if (!parsedSource.success) {
+      return NextResponse.json(
+        { error: parsedSource.error.issues[0]?.message || 'Invalid feature source' },
+        { status: 400 }
+      )
+    }
+
     // Convert weight from percentage (0-100) to database scale (1-10)
     const dbWeight = Math.max(1, Math.min(10, Math.round(weight / 10)))
 
@@ -109,6 +118,8 @@ export async function POST(request: NextRequest) {
         weight: dbWeight,
         type: criterionType,
         ideal_values: ideal_values || [],
+        is_required: !!is_required,
+        feature_source: criterionType === 'custom' ? parsedSource.data : null,
       })
       .select()
       .single()
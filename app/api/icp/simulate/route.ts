@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { simulateQualification, simulationRequestSchema } from '@/lib/simulate'
+import { getScoringModelByVersion } from '@/lib/learn'
+
+// POST /api/icp/simulate - Re-score recent leads with draft criteria without saving anything
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Get user's organization and role
+    const { data: membership } = await supabase
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', user.id)
+      .limit(1)
+      .single()
+
+    if (!membership) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    if (membership.role === 'viewer') {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const parsed = simulationRequestSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid simulation request' },
+        { status: 400 }
+      )
+    }
+
+    const modelVersion = parsed.data.model?.model_version
+    if (modelVersion && !(await getScoringModelByVersion(membership.organization_id, modelVersion))) {
+      return NextResponse.json({ error: `Model version ${modelVersion} not found` }, { status: 400 })
+    }
+
+    const simulation = await simulateQualification(membership.organization_id, parsed.data)
+
+    return NextResponse.json({ simulation })
+  } catch (error) {
+    console.error('ICP simulate error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { getLeadEnrichments, enrichLead } from '@/lib/enrich'
+import { enrichLead, getEnrichmentSettings } from '@/lib/enrichment'
 import { createAdminClient } from '@/lib/supabase/admin'
 
 // GET /api/leads/[id]/enrichments - Get enrichments for a lead
@@ -31,7 +31,7 @@ export async function GET(
     // Verify lead belongs to organization
     const { data: lead } = await supabase
       .from('leads')
-      .select('id')
+      .select('id, company_profile_id')
       .eq('id', leadId)
       .eq('organization_id', member.organization_id)
       .single()
@@ -58,6 +58,7 @@ export async function GET(
       data: Record<string, unknown>
       confidence: number | null
       source: string
+      field_sources: Record<string, string[]>
       created_at: string
     }> = {}
 
@@ -67,13 +68,39 @@ export async function GET(
           data: e.data,
           confidence: e.confidence,
           source: e.source,
+          field_sources: e.field_sources || {},
           created_at: e.created_at,
         }
       }
     }
 
+    // Shared company profile the company research comes from, if any
+    let companyProfile = null
+    if (lead.company_profile_id) {
+      const [{ data: profile }, { count }] = await Promise.all([
+        adminSupabase
+          .from('company_profiles')
+          .select('domain, company_name, refreshed_at, expires_at')
+          .eq('id', lead.company_profile_id)
+          .single(),
+        adminSupabase
+          .from('leads')
+          .select('id', { count: 'exact', head: true })
+          .eq('company_profile_id', lead.company_profile_id),
+      ])
+      if (profile) {
+        companyProfile = { ...profile, lead_count: count || 0 }
+      }
+    }
+
+    // Provider names for the per-field sources
+    const enrichmentSettings = await getEnrichmentSettings(member.organization_id)
+    const providers = Object.fromEntries(enrichmentSettings.providers.map((p) => [p.id, p.name]))
+
     return NextResponse.json({
       enrichments: grouped,
+      company_profile: companyProfile,
+      providers,
       raw: enrichments || [],
     })
   } catch (error) {
@@ -124,8 +151,8 @@ export async function POST(
       return NextResponse.json({ error: 'Lead not found' }, { status: 404 })
     }
 
-    // Run enrichment
-    const enrichments = await enrichLead(lead)
+    // A manual run re-researches the company, refreshing its shared profile
+    const enrichments = await enrichLead(lead, { refreshCompany: true })
 
     // Log activity
     await supabase.from('activity_log').insert({
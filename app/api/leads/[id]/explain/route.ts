@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  calculateWeightedScore,
+  deserializeFeatures,
+  explainWeightedScore,
+  DEFAULT_FEATURE_WEIGHTS,
+} from '@/lib/features'
+import { getConvertedFeatureBaseline, getScoringModelByVersion } from '@/lib/learn'
+import {
+  customFeatureLabels,
+  loadCustomFeatureDefinitions,
+  withCustomFeatureWeights,
+} from '@/lib/feature-registry'
+
+// GET /api/leads/[id]/explain - Per-feature breakdown of the lead's model score
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const leadId = params.id
+
+    // Get user's organization
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabase
+      .from('organization_members')
+      .select('organization_id')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    // Verify lead belongs to organization
+    const { data: lead } = await supabase
+      .from('leads')
+      .select('id, score')
+      .eq('id', leadId)
+      .eq('organization_id', member.organization_id)
+      .single()
+
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 })
+    }
+
+    // Explain the most recent scoring run
+    const { data: history } = await supabase
+      .from('scoring_history')
+      .select('*')
+      .eq('lead_id', leadId)
+      .eq('is_shadow', false)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (!history?.feature_vector || Object.keys(history.feature_vector).length === 0) {
+      return NextResponse.json({ error: 'Lead has not been scored yet' }, { status: 404 })
+    }
+
+    // Use the weights of the model version that produced the score
+    const model = history.model_version
+      ? await getScoringModelByVersion(member.organization_id, history.model_version)
+      : null
+    const customFeatures = await loadCustomFeatureDefinitions(member.organization_id)
+    const weights = withCustomFeatureWeights(model?.featureWeights || DEFAULT_FEATURE_WEIGHTS, customFeatures)
+    const features = deserializeFeatures(history.feature_vector)
+    const baseline = await getConvertedFeatureBaseline(member.organization_id)
+
+    return NextResponse.json({
+      score: lead.score,
+      model_score: history.model_score ?? calculateWeightedScore(features, weights),
+      llm_score: history.llm_score ?? null,
+      blend_ratio: history.blend_ratio !== null && history.blend_ratio !== undefined
+        ? Number(history.blend_ratio)
+        : null,
+      model_version: history.model_version,
+      scored_at: history.created_at,
+      baseline_sample_size: baseline?.sampleSize ?? 0,
+      features: explainWeightedScore(features, weights, baseline?.features, customFeatureLabels(customFeatures)),
+    })
+  } catch (error) {
+    console.error('Score explanation error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
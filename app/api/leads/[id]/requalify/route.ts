@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { enqueueQualification } from '@/lib/queue'
 
 // POST /api/leads/[id]/requalify - Re-run qualification
 export async function POST(
@@ -42,12 +43,6 @@ export async function POST(
       return NextResponse.json({ error: 'Lead not found' }, { status: 404 })
     }
 
-    // Update qualification status
-    await supabase
-      .from('leads')
-      .update({ qualification_status: 'pending' })
-      .eq('id', leadId)
-
     // Log activity
     await supabase.from('activity_log').insert({
       organization_id: member.organization_id,
@@ -57,14 +52,17 @@ export async function POST(
       details: {},
     })
 
-    // Trigger qualification job
-    fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/qualify`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ leadId }),
-    }).catch(console.error)
+    // Queue qualification job
+    const job = await enqueueQualification(leadId, member.organization_id, {
+      source: 'requalify',
+      priority: 10,
+    })
+
+    if (!job) {
+      return NextResponse.json({ error: 'Failed to queue qualification' }, { status: 500 })
+    }
 
-    return NextResponse.json({ success: true, message: 'Qualification started' }, { status: 202 })
+    return NextResponse.json({ success: true, message: 'Qualification queued', job_id: job.id }, { status: 202 })
   } catch (error) {
     console.error('Error triggering requalification:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
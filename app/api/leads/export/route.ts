@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { getScoreTiers } from '@/lib/org-settings'
+import { getLabelName } from '@/lib/utils'
 
 // GET /api/leads/export - Export leads to CSV
 export async function GET(request: NextRequest) {
@@ -23,6 +25,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'No organization found' }, { status: 404 })
     }
 
+    const tiers = await getScoreTiers(member.organization_id)
+
     // Parse query params for filtering
     const { searchParams } = new URL(request.url)
     const label = searchParams.get('label')
@@ -64,6 +68,8 @@ export async function GET(request: NextRequest) {
       'Timeline',
       'Challenge',
       'Score',
+      'Conversion Probability',
+      'Expected Revenue',
       'Label',
       'Status',
       'Created At',
@@ -86,7 +92,9 @@ export async function GET(request: NextRequest) {
         lead.timeline || '',
         (lead.challenge || '').replace(/"/g, '""'),
         lead.score || '',
-        lead.label || '',
+        lead.conversion_probability !== null ? `${Math.round(lead.conversion_probability * 100)}%` : '',
+        lead.expected_revenue ?? '',
+        getLabelName(lead.label, tiers),
         lead.status || '',
         lead.created_at,
       ].map((field) => `"${field}"`)
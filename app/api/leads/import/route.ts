@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
+import { enqueueQualifications } from '@/lib/queue'
 import { z } from 'zod'
 
 const leadSchema = z.object({
@@ -127,22 +128,14 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Trigger qualification jobs for imported leads (async, non-blocking)
+    // Queue qualification for imported leads at low priority so live form
+    // submissions are still qualified first
+    let queuedForQualification = 0
     if (validatedData.auto_qualify && leadsToQualify.length > 0) {
-      // Process in smaller batches to avoid overwhelming the API
-      const qualifyBatchSize = 10
-      for (let i = 0; i < leadsToQualify.length; i += qualifyBatchSize) {
-        const batch = leadsToQualify.slice(i, i + qualifyBatchSize)
-        batch.forEach((leadId) => {
-          fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/qualify`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ leadId }),
-          }).catch(console.error)
-        })
-        // Small delay between batches
-        await new Promise((resolve) => setTimeout(resolve, 100))
-      }
+      queuedForQualification = await enqueueQualifications(
+        leadsToQualify.map((id) => ({ id, organization_id: membership.organization_id })),
+        { source: 'import', priority: 0 }
+      )
     }
 
     // Log activity
@@ -155,12 +148,14 @@ export async function POST(request: NextRequest) {
         imported: results.imported,
         skipped: results.skipped,
         errors_count: results.errors.length,
+        queued_for_qualification: queuedForQualification,
       },
     })
 
     return NextResponse.json({
       success: true,
       results,
+      queued_for_qualification: queuedForQualification,
       message: `Successfully imported ${results.imported} of ${results.total} leads`,
     })
   } catch (error) {
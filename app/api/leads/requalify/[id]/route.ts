@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { cancelRequalificationBatch, getRequalificationBatch } from '@/lib/requalify'
+
+// GET /api/leads/requalify/[id] - Batch progress and label-change summary
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabase
+      .from('organization_members')
+      .select('organization_id')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    const batch = await getRequalificationBatch(member.organization_id, params.id)
+
+    if (!batch) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ batch })
+  } catch (error) {
+    console.error('Error fetching requalification batch:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE /api/leads/requalify/[id] - Cancel the batch's remaining queued jobs
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabase
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    if (member.role === 'viewer') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const result = await cancelRequalificationBatch(member.organization_id, params.id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === 'Batch not found' ? 404 : 409 }
+      )
+    }
+
+    return NextResponse.json({ batch: result.batch })
+  } catch (error) {
+    console.error('Error cancelling requalification batch:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  createRequalificationBatch,
+  listRequalificationBatches,
+  requalificationFiltersSchema,
+} from '@/lib/requalify'
+
+// GET /api/leads/requalify - List recent bulk requalification batches
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabase
+      .from('organization_members')
+      .select('organization_id')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    const batches = await listRequalificationBatches(member.organization_id)
+
+    return NextResponse.json({ batches })
+  } catch (error) {
+    console.error('Error fetching requalification batches:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/leads/requalify - Requalify every lead matching the filters as a background batch
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabase
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    if (member.role === 'viewer') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const parsed = requalificationFiltersSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid filters' },
+        { status: 400 }
+      )
+    }
+
+    const result = await createRequalificationBatch(member.organization_id, user.id, parsed.data)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ batch: result.batch }, { status: 202 })
+  } catch (error) {
+    console.error('Error starting bulk requalification:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,8 +2,12 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
 import { triggerLeadCreatedWebhook } from '@/lib/webhooks'
+import { enqueueQualification } from '@/lib/queue'
 import { z } from 'zod'
 
+// Bounds what a public submission can store and every custom criterion scans
+const MAX_CUSTOM_FIELDS = 50
+
 const leadSchema = z.object({
   email: z.string().email(),
   first_name: z.string().min(1).optional(),
@@ -17,6 +21,11 @@ const leadSchema = z.object({
   budget_range: z.string().optional(),
   timeline: z.string().optional(),
   challenge: z.string().optional(),
+  // Answers to custom questions, read by custom ICP criteria
+  custom_fields: z
+    .record(z.string().max(100), z.string().max(1000))
+    .refine((fields) => Object.keys(fields).length <= MAX_CUSTOM_FIELDS, `At most ${MAX_CUSTOM_FIELDS} custom fields`)
+    .optional(),
 })
 
 // Rate limiting store (in production, use Redis)
@@ -140,12 +149,8 @@ export async function POST(request: NextRequest) {
       ...validatedData,
     }).catch(console.error)
 
-    // Trigger qualification job (async)
-    fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/qualify`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ leadId: lead.id }),
-    }).catch(console.error)
+    // Queue qualification (picked up by the qualification worker)
+    await enqueueQualification(lead.id, org.id, { source: 'form', priority: 10 })
 
     return NextResponse.json({ success: true, lead_id: lead.id }, { status: 201 })
   } catch (error) {
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+// PATCH /api/prompts/[id] - Make an earlier template version active again
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabase
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    // Only admins can change the scoring prompt
+    if (member.role !== 'admin') {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { data: existing } = await supabase
+      .from('prompt_templates')
+      .select('id, purpose')
+      .eq('id', params.id)
+      .eq('organization_id', member.organization_id)
+      .single()
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    await supabase
+      .from('prompt_templates')
+      .update({ is_active: false })
+      .eq('organization_id', member.organization_id)
+      .eq('purpose', existing.purpose)
+      .eq('is_active', true)
+
+    const { data: template, error } = await supabase
+      .from('prompt_templates')
+      .update({ is_active: true })
+      .eq('id', existing.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Failed to activate prompt template:', error)
+      return NextResponse.json({ error: 'Failed to activate prompt template' }, { status: 500 })
+    }
+
+    return NextResponse.json({ template })
+  } catch (error) {
+    console.error('Prompt template PATCH error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE /api/prompts/[id] - Revert to the built-in template by deactivating this version
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabase
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    if (member.role !== 'admin') {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    // Versions are kept for the scoring history; only the active flag changes
+    const { error } = await supabase
+      .from('prompt_templates')
+      .update({ is_active: false })
+      .eq('id', params.id)
+      .eq('organization_id', member.organization_id)
+
+    if (error) {
+      console.error('Failed to deactivate prompt template:', error)
+      return NextResponse.json({ error: 'Failed to deactivate prompt template' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Prompt template DELETE error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  buildQualificationPrompt,
+  findUnknownVariables,
+  SAMPLE_PROMPT_LEAD,
+  type PromptLead,
+} from '@/lib/prompts'
+import { getScoreTiers } from '@/lib/org-settings'
+import { getKnockoutSettings } from '@/lib/knockout'
+import { z } from 'zod'
+import type { ICPCriterion } from '@/types'
+
+const previewSchema = z.object({
+  template: z.string().max(20000),
+  lead_id: z.string().uuid().optional(),
+})
+
+// POST /api/prompts/preview - Render a template for a sample lead without saving it
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabase
+      .from('organization_members')
+      .select('organization_id')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    const parsed = previewSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid preview request' }, { status: 400 })
+    }
+
+    // Use the requested lead, else the most recent one, else a built-in sample
+    let leadQuery = supabase
+      .from('leads')
+      .select('*')
+      .eq('organization_id', member.organization_id)
+    leadQuery = parsed.data.lead_id
+      ? leadQuery.eq('id', parsed.data.lead_id)
+      : leadQuery.order('created_at', { ascending: false })
+    const { data: lead } = await leadQuery.limit(1).maybeSingle()
+
+    const { data: criteria } = await supabase
+      .from('icp_criteria')
+      .select('*')
+      .eq('organization_id', member.organization_id)
+      .order('sort_order')
+
+    const [tiers, knockoutSettings] = await Promise.all([
+      getScoreTiers(member.organization_id),
+      getKnockoutSettings(member.organization_id),
+    ])
+
+    const prompt = buildQualificationPrompt(
+      (lead as PromptLead | null) || SAMPLE_PROMPT_LEAD,
+      (criteria || []) as ICPCriterion[],
+      tiers,
+      parsed.data.template,
+      knockoutSettings.required_min_score
+    )
+
+    return NextResponse.json({
+      prompt,
+      lead: lead
+        ? { id: lead.id, name: `${lead.first_name || ''} ${lead.last_name || ''}`.trim() || lead.email }
+        : null,
+      unknown_variables: findUnknownVariables(parsed.data.template),
+    })
+  } catch (error) {
+    console.error('Prompt preview error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  DEFAULT_QUALIFICATION_TEMPLATE,
+  PROMPT_TEMPLATE_VARIABLES,
+  findUnknownVariables,
+} from '@/lib/prompts'
+import { z } from 'zod'
+
+const templateSchema = z.object({
+  template: z.string().trim().min(20, 'Template is too short').max(20000, 'Template is too long'),
+  notes: z.string().max(500).optional(),
+})
+
+// GET /api/prompts - Get the qualification prompt template history
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabase
+      .from('organization_members')
+      .select('organization_id')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    const { data: templates, error } = await supabase
+      .from('prompt_templates')
+      .select('*')
+      .eq('organization_id', member.organization_id)
+      .eq('purpose', 'qualification')
+      .order('version', { ascending: false })
+
+    if (error) {
+      console.error('Failed to fetch prompt templates:', error)
+      return NextResponse.json({ error: 'Failed to fetch prompt templates' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      templates: templates || [],
+      active: templates?.find((t) => t.is_active) || null,
+      default_template: DEFAULT_QUALIFICATION_TEMPLATE,
+      variables: PROMPT_TEMPLATE_VARIABLES,
+    })
+  } catch (error) {
+    console.error('Prompt templates GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/prompts - Save a new template version and make it active
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabase
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    // Only admins can change the scoring prompt
+    if (member.role !== 'admin') {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const parsed = templateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid template' },
+        { status: 400 }
+      )
+    }
+
+    const unknown = findUnknownVariables(parsed.data.template)
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown variables: ${unknown.map((name) => `{{${name}}}`).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // Next version number
+    const { data: latest } = await supabase
+      .from('prompt_templates')
+      .select('version')
+      .eq('organization_id', member.organization_id)
+      .eq('purpose', 'qualification')
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    // Only one version can be active at a time
+    await supabase
+      .from('prompt_templates')
+      .update({ is_active: false })
+      .eq('organization_id', member.organization_id)
+      .eq('purpose', 'qualification')
+      .eq('is_active', true)
+
+    const { data: template, error } = await supabase
+      .from('prompt_templates')
+      .insert({
+        organization_id: member.organization_id,
+        purpose: 'qualification',
+        version: (latest?.version || 0) + 1,
+        template: parsed.data.template,
+        notes: parsed.data.notes || null,
+        is_active: true,
+        created_by: user.id,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Failed to save prompt template:', error)
+      return NextResponse.json({ error: 'Failed to save prompt template' }, { status: 500 })
+    }
+
+    return NextResponse.json({ template }, { status: 201 })
+  } catch (error) {
+    console.error('Prompt templates POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { qualifyLead } from '@/lib/qualify'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { enqueueQualification } from '@/lib/queue'
 
-// POST /api/qualify - Trigger qualification for a lead (internal)
+// POST /api/qualify - Queue qualification for a lead (internal)
 export async function POST(request: NextRequest) {
   try {
     const { leadId } = await request.json()
@@ -10,20 +11,31 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Lead ID required' }, { status: 400 })
     }
 
-    // Run qualification and wait for completion
-    // (In serverless environments, async fire-and-forget doesn't work)
-    const result = await qualifyLead(leadId)
+    const supabase = createAdminClient()
+    const { data: lead } = await supabase
+      .from('leads')
+      .select('id, organization_id')
+      .eq('id', leadId)
+      .single()
 
-    if (!result) {
-      return NextResponse.json({ error: 'Qualification failed' }, { status: 500 })
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 })
+    }
+
+    // Qualification runs in the job worker so a slow model call never
+    // blocks the caller and failures are retried
+    const job = await enqueueQualification(lead.id, lead.organization_id)
+
+    if (!job) {
+      return NextResponse.json({ error: 'Failed to queue qualification' }, { status: 500 })
     }
 
     return NextResponse.json({
       success: true,
-      message: 'Qualification completed',
-      score: result.score,
-      label: result.label
-    })
+      message: 'Qualification queued',
+      job_id: job.id,
+      status: job.status,
+    }, { status: 202 })
   } catch (error) {
     console.error('Qualification trigger error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { processQualificationJobs } from '@/lib/queue'
+
+export const maxDuration = 60
+
+// GET /api/qualify/worker - Drain the qualification job queue (cron)
+export async function GET(request: NextRequest) {
+  return runWorker(request)
+}
+
+// POST /api/qualify/worker - Drain the qualification job queue (manual trigger)
+export async function POST(request: NextRequest) {
+  return runWorker(request)
+}
+
+async function runWorker(request: NextRequest) {
+  try {
+    // Cron invocations authenticate with the shared secret
+    const authHeader = request.headers.get('authorization')
+    if (!process.env.CRON_SECRET || authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const summary = await processQualificationJobs({ maxRuntimeMs: 50 * 1000 })
+
+    return NextResponse.json({ success: true, ...summary })
+  } catch (error) {
+    console.error('Qualification worker error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
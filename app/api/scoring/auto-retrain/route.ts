@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runScheduledRetraining } from '@/lib/retrain'
+
+export const maxDuration = 300
+
+// GET /api/scoring/auto-retrain - Retrain models for organizations with enough new outcomes (cron)
+export async function GET(request: NextRequest) {
+  try {
+    // Cron invocations authenticate with the shared secret
+    const authHeader = request.headers.get('authorization')
+    if (!process.env.CRON_SECRET || authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Leave headroom under maxDuration for the organization in progress
+    const summary = await runScheduledRetraining({ deadline: Date.now() + 240 * 1000 })
+
+    return NextResponse.json({ success: true, ...summary })
+  } catch (error) {
+    console.error('Scheduled retraining error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
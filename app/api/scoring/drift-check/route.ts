@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runDriftMonitoring } from '@/lib/drift'
+
+export const maxDuration = 300
+
+// GET /api/scoring/drift-check - Weekly drift report for every organization with an active model (cron)
+export async function GET(request: NextRequest) {
+  try {
+    // Cron invocations authenticate with the shared secret
+    const authHeader = request.headers.get('authorization')
+    if (!process.env.CRON_SECRET || authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Leave headroom under maxDuration for the organization in progress
+    const summary = await runDriftMonitoring({ deadline: Date.now() + 240 * 1000 })
+
+    return NextResponse.json({ success: true, ...summary })
+  } catch (error) {
+    console.error('Drift monitoring error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getDriftReports, runDriftCheck, DRIFT_PSI_THRESHOLD, MIN_DRIFT_SAMPLES } from '@/lib/drift'
+import { customFeatureLabels, loadCustomFeatureDefinitions } from '@/lib/feature-registry'
+
+// GET /api/scoring/drift - Recent weekly drift reports for the organization
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabase
+      .from('organization_members')
+      .select('organization_id')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    const [reports, customFeatures] = await Promise.all([
+      getDriftReports(member.organization_id),
+      loadCustomFeatureDefinitions(member.organization_id),
+    ])
+
+    return NextResponse.json({
+      reports,
+      feature_labels: customFeatureLabels(customFeatures),
+      psi_threshold: DRIFT_PSI_THRESHOLD,
+      min_samples: MIN_DRIFT_SAMPLES,
+    })
+  } catch (error) {
+    console.error('Error fetching drift reports:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/scoring/drift - Run a drift check for the last week now
+export async function POST() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabase
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    if (member.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 })
+    }
+
+    const result = await runDriftCheck(member.organization_id)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, report: result.report })
+  } catch (error) {
+    console.error('Error running drift check:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { activateScoringModel, compareChallenger, stopChallenger } from '@/lib/model-registry'
+
+// PATCH /api/scoring/models/[id] - Activate a version: promote the challenger or roll back
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabase
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    // Only admins can change the active model
+    if (member.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const force = body?.force === true
+
+    const { data: target } = await supabase
+      .from('scoring_models')
+      .select('id, model_version, is_challenger')
+      .eq('id', params.id)
+      .eq('organization_id', member.organization_id)
+      .single()
+
+    if (!target) {
+      return NextResponse.json({ error: 'Model not found' }, { status: 404 })
+    }
+
+    // A challenger is promoted once it beats the champion on live outcomes
+    if (target.is_challenger && !force) {
+      const comparison = await compareChallenger(member.organization_id)
+      if (!comparison?.challengerWins) {
+        return NextResponse.json(
+          {
+            error: 'Challenger has not beaten the champion on live outcomes yet',
+            comparison,
+          },
+          { status: 409 }
+        )
+      }
+    }
+
+    const result = await activateScoringModel(member.organization_id, target.id)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 })
+    }
+
+    await supabase.from('activity_log').insert({
+      organization_id: member.organization_id,
+      user_id: user.id,
+      action: target.is_challenger ? 'model.promoted' : 'model.rolled_back',
+      details: {
+        model_version: target.model_version,
+        previous_version: result.previous?.modelVersion ?? null,
+        forced: target.is_challenger ? force : undefined,
+      },
+    })
+
+    return NextResponse.json({ model: result.model })
+  } catch (error) {
+    console.error('Scoring model PATCH error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE /api/scoring/models/[id] - Stop shadow scoring with this challenger
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabase
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    if (member.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 })
+    }
+
+    const result = await stopChallenger(member.organization_id, params.id)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Scoring model DELETE error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getModelHistory, MIN_REALIZED_SAMPLES } from '@/lib/model-registry'
+
+// GET /api/scoring/models/history - Holdout and realized metrics for every model version
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabase
+      .from('organization_members')
+      .select('organization_id')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    const history = await getModelHistory(member.organization_id)
+
+    return NextResponse.json({
+      history,
+      min_realized_samples: MIN_REALIZED_SAMPLES,
+    })
+  } catch (error) {
+    console.error('Error fetching model history:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
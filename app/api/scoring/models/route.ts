@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { listScoringModels } from '@/lib/learn'
+import { compareChallenger, MIN_COMPARISON_SAMPLES } from '@/lib/model-registry'
+
+// GET /api/scoring/models - Every model version plus the challenger comparison
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabase
+      .from('organization_members')
+      .select('organization_id')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    const models = await listScoringModels(member.organization_id)
+    const challenger = models.find((m) => m.isChallenger) || null
+    const comparison = challenger
+      ? await compareChallenger(member.organization_id, challenger)
+      : null
+
+    return NextResponse.json({
+      models,
+      comparison,
+      min_comparison_samples: MIN_COMPARISON_SAMPLES,
+    })
+  } catch (error) {
+    console.error('Error fetching scoring models:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
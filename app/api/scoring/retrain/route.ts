@@ -1,7 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
 import { createClient } from '@/lib/supabase/server'
 import { updateScoringModel, getModelStats } from '@/lib/learn'
 
+const retrainSchema = z.object({
+  seed: z.number().int().min(0).optional(),
+  folds: z.number().int().min(2).max(10).optional(),
+  // Run the new model in shadow next to the active one instead of replacing it
+  challenger: z.boolean().optional(),
+  // Converted examples count in proportion to their deal value
+  value_weighted: z.boolean().optional(),
+})
+
 // POST /api/scoring/retrain - Manually trigger model retraining (admin only)
 export async function POST(request: NextRequest) {
   try {
@@ -28,8 +38,18 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 })
     }
 
+    // Optional split seed, cross-validation folds and value weighting
+    const parsed = retrainSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid training options' },
+        { status: 400 }
+      )
+    }
+
     // Trigger retraining
-    const result = await updateScoringModel(member.organization_id)
+    const { value_weighted: valueWeighted, ...options } = parsed.data
+    const result = await updateScoringModel(member.organization_id, { ...options, valueWeighted })
 
     if (!result.success) {
       return NextResponse.json({
@@ -42,11 +62,15 @@ export async function POST(request: NextRequest) {
     await supabase.from('activity_log').insert({
       organization_id: member.organization_id,
       user_id: user.id,
-      action: 'model.retrained',
+      action: parsed.data.challenger ? 'model.challenger_trained' : 'model.retrained',
       details: {
         model_version: result.model?.modelVersion,
         trained_on_count: result.model?.trainedOnCount,
         accuracy: result.model?.performanceMetrics?.accuracy,
+        auc: result.model?.performanceMetrics?.auc,
+        seed: result.model?.performanceMetrics?.split?.seed,
+        folds: result.model?.performanceMetrics?.crossValidation?.folds,
+        value_weighted: !!valueWeighted,
       },
     })
 
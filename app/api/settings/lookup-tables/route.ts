@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { lookupTableUploadSchema, createLookupTable } from '@/lib/enrichment'
+
+// POST /api/settings/lookup-tables - Upload a CSV table for a csv_lookup provider
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Get user's organization and role (use limit(1) to handle multiple memberships)
+    const { data: membership } = await supabase
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', user.id)
+      .limit(1)
+      .single()
+
+    if (!membership) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    // Only admins can change enrichment settings
+    if (membership.role !== 'admin') {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const parsed = lookupTableUploadSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid CSV table', details: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    // The provider only references the table once settings are saved
+    const lookupTable = await createLookupTable(membership.organization_id, parsed.data.csv)
+    return NextResponse.json({ lookup_table: lookupTable }, { status: 201 })
+  } catch (error) {
+    console.error('Lookup table upload error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
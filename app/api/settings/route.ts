@@ -1,5 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
 import { createClient } from '@/lib/supabase/server'
+import { llmSettingsSchema } from '@/lib/llm'
+import { knockoutSettingsSchema } from '@/lib/knockout'
+import { blendSettingsSchema } from '@/lib/learn'
+import { scoreTiersSchema } from '@/lib/tiers'
+import {
+  enrichmentSettingsSchema,
+  providerSecretsUpdateSchema,
+  getProviderSecretHeaderNames,
+  updateProviderSecrets,
+  getLookupTableSummaries,
+  deleteUnusedLookupTables,
+  getLookupTableIds,
+  type ProviderSecretsUpdate,
+  type EnrichmentSettings,
+} from '@/lib/enrichment'
+import { titleTaxonomySchema } from '@/lib/title-taxonomy'
+
+// Keys stored inside organizations.settings, each validated before merging
+const settingsSchemas: Record<string, z.ZodTypeAny> = {
+  llm: llmSettingsSchema,
+  knockout: knockoutSettingsSchema,
+  blend: blendSettingsSchema,
+  tiers: scoreTiersSchema,
+  enrichment: enrichmentSettingsSchema,
+  title_taxonomy: titleTaxonomySchema,
+}
 
 // GET /api/settings - Get organization settings
 export async function GET() {
@@ -41,6 +68,11 @@ export async function GET() {
     return NextResponse.json({
       organization,
       role: membership.role,
+      enrichment_lookup_tables: await getLookupTableSummaries(membership.organization_id),
+      // Header names only, and only for admins; values stay server-side
+      ...(membership.role === 'admin' && {
+        enrichment_secret_headers: await getProviderSecretHeaderNames(membership.organization_id),
+      }),
     })
   } catch (error) {
     console.error('Settings GET error:', error)
@@ -96,24 +128,96 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
-    if (Object.keys(updates).length === 0) {
-      return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 })
+    // Merge validated keys into the settings JSON
+    const settingsUpdates: Record<string, unknown> = {}
+    for (const [key, schema] of Object.entries(settingsSchemas)) {
+      if (body[key] === undefined) continue
+
+      const parsed = schema.safeParse(body[key])
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: `Invalid ${key} settings: ${parsed.error.issues[0]?.message}`, details: parsed.error.issues },
+          { status: 400 }
+        )
+      }
+      settingsUpdates[key] = parsed.data
     }
 
-    // Update organization
-    const { data: organization, error } = await supabase
+    // HTTP provider headers are stored apart from the settings JSON
+    let secretUpdates: ProviderSecretsUpdate | null = null
+    if (body.enrichment_secrets !== undefined) {
+      const parsed = providerSecretsUpdateSchema.safeParse(body.enrichment_secrets)
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: `Invalid provider headers: ${parsed.error.issues[0]?.message}`, details: parsed.error.issues },
+          { status: 400 }
+        )
+      }
+      secretUpdates = parsed.data
+    }
+
+    const { data: current } = await supabase
       .from('organizations')
-      .update(updates)
+      .select('settings')
       .eq('id', membership.organization_id)
-      .select()
       .single()
 
-    if (error) {
-      console.error('Error updating organization:', error)
-      return NextResponse.json({ error: 'Failed to update settings' }, { status: 500 })
+    if (Object.keys(settingsUpdates).length > 0) {
+      updates.settings = { ...(current?.settings || {}), ...settingsUpdates }
+    }
+
+    if (Object.keys(updates).length === 0 && !secretUpdates) {
+      return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 })
     }
 
-    return NextResponse.json({ organization })
+    // Update organization
+    let organization = null
+    if (Object.keys(updates).length > 0) {
+      const { data, error } = await supabase
+        .from('organizations')
+        .update(updates)
+        .eq('id', membership.organization_id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating organization:', error)
+        return NextResponse.json({ error: 'Failed to update settings' }, { status: 500 })
+      }
+      organization = data
+    } else {
+      const { data } = await supabase
+        .from('organizations')
+        .select('*')
+        .eq('id', membership.organization_id)
+        .single()
+      organization = data
+    }
+
+    // Keep secrets in step with the providers that now exist
+    if (secretUpdates || settingsUpdates.enrichment) {
+      const enrichment = enrichmentSettingsSchema.safeParse(
+        (settingsUpdates.enrichment as unknown) ?? current?.settings?.enrichment ?? {}
+      )
+      if (enrichment.success) {
+        await updateProviderSecrets(
+          membership.organization_id,
+          secretUpdates || {},
+          enrichment.data.providers.map((p) => p.id)
+        )
+      }
+    }
+
+    // ...and lookup tables with the providers that reference them
+    if (settingsUpdates.enrichment) {
+      const providers = (settingsUpdates.enrichment as EnrichmentSettings).providers
+      await deleteUnusedLookupTables(membership.organization_id, getLookupTableIds(providers))
+    }
+
+    return NextResponse.json({
+      organization,
+      enrichment_secret_headers: await getProviderSecretHeaderNames(membership.organization_id),
+    })
   } catch (error) {
     console.error('Settings PATCH error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient } from '@/lib/supabase/admin'
+import { enqueueQualification } from '@/lib/queue'
+import { hasSignificantBehaviorChange } from '@/lib/behavioral'
 
 // Type for behavioral event records
 interface BehavioralEvent {
@@ -87,6 +89,7 @@ export async function POST(request: NextRequest) {
       .from('behavioral_events')
       .insert({
         tracking_id: trackingRecord.id,
+        lead_id: trackingRecord.lead_id || null,
         organization_id,
         event_type,
         event_name: event_data?.event_name || event_data?.custom_event,
@@ -117,6 +120,9 @@ export async function POST(request: NextRequest) {
         organization_id,
         event_data.email
       )
+    } else if (trackingRecord.lead_id) {
+      // Known visitor: refresh their behavioral score and requalify on big moves
+      await updateLeadBehavior(adminClient, trackingRecord.lead_id, organization_id)
     }
 
     return NextResponse.json({ success: true })
@@ -236,7 +242,24 @@ async function linkTrackingToLead(
       .eq('tracking_id', trackingId)
 
     // Trigger behavioral score calculation
-    await calculateBehavioralScore(client, lead.id, organizationId)
+    await updateLeadBehavior(client, lead.id, organizationId)
+  }
+}
+
+/**
+ * Recalculate a lead's behavioral score and queue requalification when it
+ * has moved significantly since the lead was last qualified
+ */
+async function updateLeadBehavior(
+  client: ReturnType<typeof createAdminClient>,
+  leadId: string,
+  organizationId: string
+) {
+  const scores = await calculateBehavioralScore(client, leadId, organizationId)
+  if (!scores) return
+
+  if (hasSignificantBehaviorChange(scores.behavioralScore, scores.qualifiedBehavioralScore)) {
+    await enqueueQualification(leadId, organizationId, { source: 'behavior_change' })
   }
 }
 
@@ -331,7 +354,7 @@ async function calculateBehavioralScore(
   )
 
   // Upsert behavioral scores
-  const { error } = await client
+  const { data: saved, error } = await client
     .from('behavioral_scores')
     .upsert({
       lead_id: leadId,
@@ -361,12 +384,18 @@ async function calculateBehavioralScore(
     }, {
       onConflict: 'lead_id'
     })
+    .select('qualified_behavioral_score')
+    .single()
 
   if (error) {
     console.error('Failed to update behavioral score:', error)
+    return
   }
 
-  return behavioralScore
+  return {
+    behavioralScore,
+    qualifiedBehavioralScore: (saved?.qualified_behavioral_score ?? null) as number | null,
+  }
 }
 
 // Handle preflight requests
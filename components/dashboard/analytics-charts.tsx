@@ -19,7 +19,7 @@ import { Briefcase, Users, Loader2 } from 'lucide-react'
 interface AnalyticsData {
   industryBreakdown: { industry: string; count: number }[]
   companySizeBreakdown: { size: string; count: number }[]
-  scoreDistribution: { range: string; count: number }[]
+  scoreDistribution: { range: string; count: number; color: string }[]
 }
 
 const COLORS = [
@@ -193,7 +193,7 @@ export function CompanySizeChart() {
 }
 
 export function ScoreDistributionChart() {
-  const [data, setData] = useState<{ range: string; count: number }[]>([])
+  const [data, setData] = useState<{ range: string; count: number; color: string }[]>([])
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -213,13 +213,6 @@ export function ScoreDistributionChart() {
     fetchData()
   }, [])
 
-  const getBarColor = (range: string) => {
-    const score = parseInt(range.split('-')[0])
-    if (score >= 80) return '#ef4444' // Hot - red
-    if (score >= 50) return '#f59e0b' // Warm - amber
-    return '#3b82f6' // Cold - blue
-  }
-
   return (
     <Card>
       <CardHeader>
@@ -250,7 +243,7 @@ export function ScoreDistributionChart() {
               />
               <Bar dataKey="count" radius={[4, 4, 0, 0]}>
                 {data.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={getBarColor(entry.range)} />
+                  <Cell key={`cell-${index}`} fill={entry.color} />
                 ))}
               </Bar>
             </BarChart>
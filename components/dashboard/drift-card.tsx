@@ -0,0 +1,238 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Activity, AlertCircle, CheckCircle2, Loader2, RefreshCw } from 'lucide-react'
+import { formatRelativeDate } from '@/lib/utils'
+import type { DriftReport } from '@/lib/drift'
+
+// PSI under this is read as stable; between it and the alert threshold as moderate
+const MODERATE_PSI = 0.1
+
+function formatFeatureName(key: string): string {
+  return key.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase())
+}
+
+export function DriftCard() {
+  const [reports, setReports] = useState<DriftReport[]>([])
+  const [threshold, setThreshold] = useState(0.25)
+  const [featureLabels, setFeatureLabels] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [checking, setChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchReports()
+  }, [])
+
+  const fetchReports = async () => {
+    try {
+      const response = await fetch('/api/scoring/drift')
+      const data = await response.json()
+      if (response.ok) {
+        setReports(data.reports)
+        setThreshold(data.psi_threshold)
+        setFeatureLabels(data.feature_labels || {})
+      } else {
+        setError(data.error)
+      }
+    } catch (err) {
+      console.error('Failed to fetch drift reports:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCheck = async () => {
+    setChecking(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/scoring/drift', { method: 'POST' })
+      const data = await response.json()
+      if (response.ok) {
+        await fetchReports()
+      } else {
+        setError(data.error)
+      }
+    } catch (err) {
+      setError('Failed to run drift check')
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const latest = reports[0] || null
+  const chartData = [...reports].reverse().map((r) => ({
+    week: new Date(r.periodEnd).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+    labels: r.labelPsi,
+    score: r.scorePsi,
+    feature: r.maxFeaturePsi,
+  }))
+  const topFeatures = latest
+    ? Object.entries(latest.featureDrift).sort((a, b) => b[1].psi - a[1].psi).slice(0, 5)
+    : []
+  const labels = latest
+    ? Array.from(new Set([...Object.keys(latest.baselineLabelMix), ...Object.keys(latest.labelMix)]))
+    : []
+
+  const severity = (psi: number) =>
+    psi >= threshold ? (
+      <Badge variant="destructive">Significant</Badge>
+    ) : psi >= MODERATE_PSI ? (
+      <Badge variant="secondary">Moderate</Badge>
+    ) : (
+      <Badge variant="outline">Stable</Badge>
+    )
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Activity className="h-5 w-5" />
+            Score Drift
+          </CardTitle>
+          <CardDescription>
+            Weekly lead mix compared with the active model&apos;s training data
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleCheck} disabled={checking}>
+          {checking ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          Check Now
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="h-[200px] flex items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !latest ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No drift reports yet. They&apos;re generated weekly once a trained model has scored enough leads.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              {latest.drifted ? (
+                <span className="flex items-center gap-2 text-destructive font-medium">
+                  <AlertCircle className="h-4 w-4" />
+                  Drift detected
+                </span>
+              ) : (
+                <span className="flex items-center gap-2 text-success font-medium">
+                  <CheckCircle2 className="h-4 w-4" />
+                  Stable
+                </span>
+              )}
+              <span className="text-muted-foreground">
+                Model v{latest.modelVersion} · {latest.sampleSize} leads vs {latest.baselineSize} training examples ·{' '}
+                {formatRelativeDate(latest.periodEnd)}
+              </span>
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="space-y-3">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Mean score</span>
+                  <span>
+                    {latest.meanScore?.toFixed(1) ?? '-'}
+                    <span className="text-muted-foreground"> vs {latest.baselineMeanScore?.toFixed(1) ?? '-'} in training</span>
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Label mix PSI</span>
+                  <span className="flex items-center gap-2">
+                    {latest.labelPsi?.toFixed(3) ?? '-'}
+                    {latest.labelPsi !== null && severity(latest.labelPsi)}
+                  </span>
+                </div>
+                {labels.map((label) => (
+                  <div key={label} className="space-y-1">
+                    <div className="flex justify-between text-xs">
+                      <span className="capitalize">{label}</span>
+                      <span className="text-muted-foreground">
+                        {Math.round((latest.labelMix[label] ?? 0) * 100)}% now ·{' '}
+                        {Math.round((latest.baselineLabelMix[label] ?? 0) * 100)}% in training
+                      </span>
+                    </div>
+                    <div className="relative h-2 bg-muted rounded-full overflow-hidden">
+                      <div
+                        className="absolute h-full bg-primary rounded-full"
+                        style={{ width: `${(latest.labelMix[label] ?? 0) * 100}%` }}
+                      />
+                      <div
+                        className="absolute h-full border-r-2 border-foreground"
+                        style={{ width: `${(latest.baselineLabelMix[label] ?? 0) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Most shifted features</p>
+                {topFeatures.map(([key, drift]) => (
+                  <div key={key} className="flex items-center justify-between text-sm">
+                    <span>{featureLabels[key] ?? formatFeatureName(key)}</span>
+                    <span className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground">
+                        {drift.baselineMean.toFixed(2)} → {drift.currentMean.toFixed(2)} · PSI {drift.psi.toFixed(3)} · KL {drift.kl.toFixed(3)}
+                      </span>
+                      {severity(drift.psi)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {chartData.length > 1 && (
+              <ResponsiveContainer width="100%" height={220}>
+                <LineChart data={chartData} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="week" tick={{ fontSize: 12 }} className="text-muted-foreground" />
+                  <YAxis tick={{ fontSize: 12 }} className="text-muted-foreground" />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--card))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '8px',
+                    }}
+                  />
+                  <Legend />
+                  <ReferenceLine y={threshold} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+                  <Line type="monotone" dataKey="feature" stroke="hsl(var(--primary))" strokeWidth={2} name="Max feature PSI" />
+                  <Line type="monotone" dataKey="labels" stroke="#f97316" strokeWidth={2} name="Label mix PSI" />
+                  <Line type="monotone" dataKey="score" stroke="#3b82f6" strokeWidth={2} name="Score PSI" />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
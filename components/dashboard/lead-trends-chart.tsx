@@ -14,17 +14,15 @@ import {
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { TrendingUp, Loader2 } from 'lucide-react'
+import { DEFAULT_SCORE_TIERS } from '@/lib/constants'
+import type { ScoreTier } from '@/types'
 
-interface TrendData {
-  date: string
-  total: number
-  hot: number
-  warm: number
-  cold: number
-}
+// One count per score tier id alongside the daily total
+type TrendData = { date: string; total: number } & Record<string, string | number>
 
 export function LeadTrendsChart() {
   const [data, setData] = useState<TrendData[]>([])
+  const [tiers, setTiers] = useState<ScoreTier[]>(DEFAULT_SCORE_TIERS)
   const [loading, setLoading] = useState(true)
   const [days, setDays] = useState(30)
 
@@ -36,6 +34,7 @@ export function LeadTrendsChart() {
         const result = await response.json()
         if (response.ok) {
           setData(result.leadTrends)
+          setTiers(result.tiers || DEFAULT_SCORE_TIERS)
         }
       } catch (error) {
         console.error('Failed to fetch analytics:', error)
@@ -106,30 +105,17 @@ export function LeadTrendsChart() {
                 dot={false}
                 name="Total"
               />
-              <Line
-                type="monotone"
-                dataKey="hot"
-                stroke="#ef4444"
-                strokeWidth={2}
-                dot={false}
-                name="Hot"
-              />
-              <Line
-                type="monotone"
-                dataKey="warm"
-                stroke="#f59e0b"
-                strokeWidth={2}
-                dot={false}
-                name="Warm"
-              />
-              <Line
-                type="monotone"
-                dataKey="cold"
-                stroke="#3b82f6"
-                strokeWidth={2}
-                dot={false}
-                name="Cold"
-              />
+              {tiers.map((tier) => (
+                <Line
+                  key={tier.id}
+                  type="monotone"
+                  dataKey={tier.id}
+                  stroke={tier.color}
+                  strokeWidth={2}
+                  dot={false}
+                  name={tier.name}
+                />
+              ))}
             </LineChart>
           </ResponsiveContainer>
         )}
@@ -0,0 +1,130 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { History, Loader2 } from 'lucide-react'
+import type { ModelHistoryEntry } from '@/lib/model-registry'
+
+const formatPercent = (value: number | null | undefined) =>
+  value === null || value === undefined ? '-' : `${Math.round(value * 100)}%`
+
+export function ModelHistoryChart() {
+  const [history, setHistory] = useState<ModelHistoryEntry[]>([])
+  const [minSamples, setMinSamples] = useState(10)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchHistory() {
+      try {
+        const response = await fetch('/api/scoring/models/history')
+        const data = await response.json()
+        if (response.ok) {
+          setHistory(data.history)
+          setMinSamples(data.min_realized_samples)
+        }
+      } catch (error) {
+        console.error('Failed to fetch model history:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchHistory()
+  }, [])
+
+  // Realized numbers on a handful of outcomes are noise; leave gaps instead
+  const realized = (entry: ModelHistoryEntry) =>
+    entry.realized && entry.realized.sampleSize >= minSamples ? entry.realized : null
+
+  const toPercent = (value: number | null | undefined) =>
+    value === null || value === undefined ? null : Math.round(value * 100)
+
+  const chartData = history.map((entry) => ({
+    version: `v${entry.modelVersion}`,
+    holdoutAccuracy: toPercent(entry.holdout?.accuracy),
+    realizedAccuracy: toPercent(realized(entry)?.accuracy),
+    holdoutAuc: toPercent(entry.holdout?.auc),
+    realizedAuc: toPercent(realized(entry)?.auc),
+  }))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Model Performance Over Time
+        </CardTitle>
+        <CardDescription>
+          Accuracy at training time against accuracy on outcomes recorded while each version was active
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="h-[250px] flex items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No trained models yet. Each retrain adds a point here.
+          </p>
+        ) : (
+          <>
+            {chartData.length > 1 && (
+              <ResponsiveContainer width="100%" height={250}>
+                <LineChart data={chartData} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="version" tick={{ fontSize: 12 }} className="text-muted-foreground" />
+                  <YAxis domain={[0, 100]} unit="%" tick={{ fontSize: 12 }} className="text-muted-foreground" />
+                  <Tooltip
+                    formatter={(value) => `${value}%`}
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--card))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '8px',
+                    }}
+                  />
+                  <Legend />
+                  <Line type="monotone" dataKey="holdoutAccuracy" stroke="#94a3b8" strokeDasharray="4 4" strokeWidth={2} name="Holdout accuracy" connectNulls />
+                  <Line type="monotone" dataKey="realizedAccuracy" stroke="hsl(var(--primary))" strokeWidth={2} name="Realized accuracy" connectNulls />
+                  <Line type="monotone" dataKey="holdoutAuc" stroke="#fdba74" strokeDasharray="4 4" strokeWidth={2} name="Holdout AUC" connectNulls />
+                  <Line type="monotone" dataKey="realizedAuc" stroke="#f97316" strokeWidth={2} name="Realized AUC" connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+
+            <div className="space-y-2">
+              {[...history].reverse().map((entry) => (
+                <div key={entry.modelVersion} className="flex items-center justify-between text-sm">
+                  <span className="flex items-center gap-2">
+                    v{entry.modelVersion}
+                    {entry.isActive && <Badge variant="default">Active</Badge>}
+                    {entry.isChallenger && <Badge variant="secondary">Challenger</Badge>}
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(entry.activatedAt || entry.createdAt).toLocaleDateString()}
+                    </span>
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    Holdout {formatPercent(entry.holdout?.accuracy)} · Realized{' '}
+                    {entry.realized
+                      ? `${formatPercent(entry.realized.accuracy)} on ${entry.realized.sampleSize} outcomes`
+                      : 'no outcomes yet'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
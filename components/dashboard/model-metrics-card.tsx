@@ -4,14 +4,18 @@ import { useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
-import { RefreshCw, AlertCircle, CheckCircle2, Brain } from 'lucide-react'
-import type { ScoringModel, ModelMetrics } from '@/lib/learn'
+import { Switch } from '@/components/ui/switch'
+import { Label } from '@/components/ui/label'
+import { RefreshCw, AlertCircle, AlertTriangle, CheckCircle2, Brain } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+import type { ScoringModel, ModelMetrics, PipelineSummary } from '@/lib/learn'
 
 interface ModelStatsData {
   currentModel: ScoringModel | null
   totalOutcomes: number
   outcomeBreakdown: Record<string, number>
   retrainingRecommended: boolean
+  pipeline: PipelineSummary
 }
 
 interface ModelMetricsCardProps {
@@ -22,6 +26,11 @@ export function ModelMetricsCard({ modelStats }: ModelMetricsCardProps) {
   const [retraining, setRetraining] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
+  const [crossValidate, setCrossValidate] = useState(false)
+  // Keep the current model's choice unless changed
+  const [valueWeighted, setValueWeighted] = useState(
+    !!modelStats.currentModel?.performanceMetrics?.training?.valueWeighted
+  )
 
   const handleRetrain = async () => {
     setRetraining(true)
@@ -31,6 +40,11 @@ export function ModelMetricsCard({ modelStats }: ModelMetricsCardProps) {
     try {
       const response = await fetch('/api/scoring/retrain', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(crossValidate ? { folds: 5 } : {}),
+          ...(valueWeighted ? { value_weighted: true } : {}),
+        }),
       })
 
       const data = await response.json()
@@ -51,8 +65,13 @@ export function ModelMetricsCard({ modelStats }: ModelMetricsCardProps) {
     }
   }
 
-  const { currentModel, totalOutcomes, retrainingRecommended } = modelStats
+  const { currentModel, totalOutcomes, retrainingRecommended, pipeline } = modelStats
   const metrics = currentModel?.performanceMetrics
+  const topPermutationFeatures = metrics?.permutationImportance
+    ? Object.entries(metrics.permutationImportance.features)
+        .sort(([, a], [, b]) => b.importance - a.importance)
+        .slice(0, 5)
+    : []
 
   if (!currentModel) {
     return (
@@ -104,6 +123,9 @@ export function ModelMetricsCard({ modelStats }: ModelMetricsCardProps) {
 
       <div className="text-sm text-muted-foreground">
         Trained on {currentModel.trainedOnCount} outcomes
+        {currentModel.blendRatio !== null && (
+          <> · Blend {Math.round(currentModel.blendRatio * 100)}% AI / {Math.round((1 - currentModel.blendRatio) * 100)}% model</>
+        )}
       </div>
 
       {metrics && (
@@ -125,9 +147,109 @@ export function ModelMetricsCard({ modelStats }: ModelMetricsCardProps) {
               <span className="text-muted-foreground">F1 Score</span>
               <p className="text-lg font-semibold">{(metrics.f1Score * 100).toFixed(1)}%</p>
             </div>
+            <div>
+              <span className="text-muted-foreground">ROC AUC</span>
+              <p className="text-lg font-semibold">{metrics.auc.toFixed(3)}</p>
+            </div>
+            {metrics.logLoss !== undefined && (
+              <div>
+                <span className="text-muted-foreground">Log Loss</span>
+                <p className="text-lg font-semibold">{metrics.logLoss.toFixed(3)}</p>
+              </div>
+            )}
+            {metrics.brierScore !== undefined && (
+              <div>
+                <span className="text-muted-foreground">Brier Score</span>
+                <p className="text-lg font-semibold">{metrics.brierScore.toFixed(3)}</p>
+              </div>
+            )}
           </div>
 
-          {metrics.featureImportance && (
+          {metrics.training && (
+            <p className="text-xs text-muted-foreground">
+              Logistic regression on {metrics.training.trainSize} outcomes,{' '}
+              {metrics.training.converged
+                ? `converged in ${metrics.training.iterations} iterations`
+                : `stopped after ${metrics.training.iterations} iterations without converging`}
+              {currentModel.calibration && ' · Probabilities calibrated'}
+              {metrics.training.valueWeighted && ' · Weighted by deal value'}
+              {metrics.split && ` · Split seed ${metrics.split.seed}`}
+            </p>
+          )}
+
+          {metrics.crossValidation && metrics.crossValidation.foldMetrics.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {metrics.crossValidation.folds}-fold CV: AUC {metrics.crossValidation.mean.auc.toFixed(3)}{' '}
+              ± {metrics.crossValidation.std.auc.toFixed(3)}, log loss{' '}
+              {metrics.crossValidation.mean.logLoss.toFixed(3)} ±{' '}
+              {metrics.crossValidation.std.logLoss.toFixed(3)}
+            </p>
+          )}
+
+          {(pipeline.closedLeads > 0 || pipeline.openLeads > 0) && (
+            <div className="space-y-2">
+              <span className="text-sm text-muted-foreground">Pipeline Value</span>
+              {pipeline.closedLeads > 0 && (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span>Predicted ({pipeline.closedLeads} closed leads)</span>
+                    <span className="font-medium">{formatCurrency(pipeline.predictedValue)}</span>
+                  </div>
+                  <div className="flex justify-between text-xs">
+                    <span>Actual</span>
+                    <span className="font-medium">{formatCurrency(pipeline.actualValue)}</span>
+                  </div>
+                  <Progress
+                    value={Math.min(100, pipeline.predictedValue > 0 ? (pipeline.actualValue / pipeline.predictedValue) * 100 : 0)}
+                    className="h-1.5"
+                  />
+                </div>
+              )}
+              {pipeline.openLeads > 0 && (
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Expected from {pipeline.openLeads} open leads</span>
+                  <span>{formatCurrency(pipeline.openPredictedValue)}</span>
+                </div>
+              )}
+              {metrics.dealValue && (
+                <p className="text-xs text-muted-foreground">
+                  Average deal {formatCurrency(metrics.dealValue.averageValue)} across {metrics.dealValue.sampleSize} conversions
+                  {typeof metrics.dealValue.averageDaysToClose === 'number' &&
+                    `, closing in ${metrics.dealValue.averageDaysToClose} days on average`}
+                </p>
+              )}
+            </div>
+          )}
+
+          {metrics.permutationImportance ? (
+            <div className="space-y-2">
+              <span className="text-sm text-muted-foreground">Top Features (AUC drop when shuffled)</span>
+              <div className="space-y-1">
+                {topPermutationFeatures.map(([feature, result]) => (
+                  <div key={feature} className="flex items-center gap-2">
+                    <div className="flex-1 text-xs truncate flex items-center gap-1">
+                      {!result.significant && (
+                        <AlertTriangle className="h-3 w-3 shrink-0 text-yellow-600" aria-label="Not significant" />
+                      )}
+                      {metrics.featureLabels?.[feature] ?? formatFeatureName(feature)}
+                    </div>
+                    <div className="text-xs text-muted-foreground text-right">
+                      {result.importance.toFixed(3)}{' '}
+                      <span className="opacity-70">
+                        [{result.lower.toFixed(3)}, {result.upper.toFixed(3)}]
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {topPermutationFeatures.some(([, f]) => !f.significant) && (
+                <p className="text-xs text-yellow-700 dark:text-yellow-300">
+                  With {metrics.permutationImportance.sampleSize} holdout outcomes, features marked with a
+                  warning can&apos;t be told apart from having no effect (95% interval includes zero).
+                </p>
+              )}
+            </div>
+          ) : metrics.featureImportance && (
             <div className="space-y-2">
               <span className="text-sm text-muted-foreground">Top Features</span>
               <div className="space-y-1">
@@ -136,7 +258,7 @@ export function ModelMetricsCard({ modelStats }: ModelMetricsCardProps) {
                   .slice(0, 3)
                   .map(([feature, importance]) => (
                     <div key={feature} className="flex items-center gap-2">
-                      <div className="flex-1 text-xs truncate">{formatFeatureName(feature)}</div>
+                      <div className="flex-1 text-xs truncate">{metrics.featureLabels?.[feature] ?? formatFeatureName(feature)}</div>
                       <div className="w-20">
                         <Progress value={importance * 100} className="h-1.5" />
                       </div>
@@ -159,6 +281,20 @@ export function ModelMetricsCard({ modelStats }: ModelMetricsCardProps) {
         </div>
       )}
 
+      <div className="flex items-center gap-2">
+        <Switch id="crossValidate" checked={crossValidate} onCheckedChange={setCrossValidate} />
+        <Label htmlFor="crossValidate" className="text-sm font-normal">
+          Run 5-fold cross-validation
+        </Label>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch id="valueWeighted" checked={valueWeighted} onCheckedChange={setValueWeighted} />
+        <Label htmlFor="valueWeighted" className="text-sm font-normal">
+          Weight conversions by deal value
+        </Label>
+      </div>
+
       <Button
         onClick={handleRetrain}
         disabled={retraining}
@@ -111,6 +111,10 @@ export function NotificationBell() {
         return '📝'
       case 'team_joined':
         return '👤'
+      case 'model_retrained':
+        return '🧠'
+      case 'model_drift':
+        return '📉'
       default:
         return '📢'
     }
@@ -13,6 +13,8 @@ import {
   Settings,
   HelpCircle,
   Zap,
+  MessageSquareText,
+  Brain,
 } from 'lucide-react'
 
 const navigation = [
@@ -27,6 +29,8 @@ const navigation = [
     name: 'Configure',
     items: [
       { name: 'ICP Criteria', href: '/icp', icon: Target },
+      { name: 'Scoring Prompt', href: '/prompts', icon: MessageSquareText },
+      { name: 'Scoring Models', href: '/models', icon: Brain },
       { name: 'Form Settings', href: '/form-settings', icon: FileText },
       { name: 'Webhooks', href: '/webhooks', icon: Webhook },
     ],
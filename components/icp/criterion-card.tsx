@@ -56,9 +56,16 @@ export function CriterionCard({
               <GripVertical className="h-4 w-4 text-muted-foreground opacity-0 group-hover:opacity-100 cursor-grab" />
               <div>
                 <CardTitle className="text-base">{criterion.name}</CardTitle>
-                <Badge variant="outline" className="mt-1 text-xs">
-                  {getDataTypeLabel(criterion.data_type)}
-                </Badge>
+                <div className="mt-1 flex gap-1">
+                  <Badge variant="outline" className="text-xs">
+                    {getDataTypeLabel(criterion.data_type)}
+                  </Badge>
+                  {criterion.is_required && (
+                    <Badge variant="secondary" className="text-xs">
+                      Required
+                    </Badge>
+                  )}
+                </div>
               </div>
             </div>
             <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -13,6 +13,7 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Slider } from '@/components/ui/slider'
+import { Switch } from '@/components/ui/switch'
 import {
   Select,
   SelectContent,
@@ -22,7 +23,8 @@ import {
 } from '@/components/ui/select'
 import { Badge } from '@/components/ui/badge'
 import { X, Plus } from 'lucide-react'
-import type { ICPCriterion } from '@/types'
+import { CUSTOM_FEATURE_LEAD_FIELDS, CUSTOM_FEATURE_ENRICHMENT_PATHS } from '@/lib/constants'
+import type { ICPCriterion, FeatureSourceType } from '@/types'
 
 interface CriterionFormProps {
   open: boolean
@@ -41,6 +43,17 @@ const DATA_TYPES = [
   { value: 'custom', label: 'Custom' },
 ]
 
+const FEATURE_SOURCES = [
+  { value: 'any', label: 'Anywhere (lead, answers and research)' },
+  { value: 'lead_field', label: 'Lead field' },
+  { value: 'custom_field', label: 'Custom form answer' },
+  { value: 'enrichment', label: 'Enrichment data' },
+]
+
+function formatSourceKey(key: string): string {
+  return key.replace(/\./g, ' › ').replace(/_/g, ' ')
+}
+
 export function CriterionForm({
   open,
   onOpenChange,
@@ -53,7 +66,10 @@ export function CriterionForm({
   const [weight, setWeight] = useState(50)
   const [dataType, setDataType] = useState('custom')
   const [idealValues, setIdealValues] = useState<string[]>([])
+  const [isRequired, setIsRequired] = useState(false)
   const [newValue, setNewValue] = useState('')
+  const [sourceType, setSourceType] = useState<FeatureSourceType | 'any'>('any')
+  const [sourceKey, setSourceKey] = useState('')
 
   const isEditing = !!criterion
 
@@ -64,15 +80,26 @@ export function CriterionForm({
       setWeight(criterion.weight)
       setDataType(criterion.data_type)
       setIdealValues(criterion.ideal_values || [])
+      setIsRequired(!!criterion.is_required)
+      setSourceType(criterion.feature_source?.type ?? 'any')
+      setSourceKey(criterion.feature_source?.key ?? '')
     } else {
       setName('')
       setDescription('')
       setWeight(50)
       setDataType('custom')
       setIdealValues([])
+      setIsRequired(false)
+      setSourceType('any')
+      setSourceKey('')
     }
   }, [criterion, open])
 
+  const handleSourceTypeChange = (value: string) => {
+    setSourceType(value as FeatureSourceType | 'any')
+    setSourceKey('')
+  }
+
   const handleAddValue = () => {
     if (newValue.trim() && !idealValues.includes(newValue.trim())) {
       setIdealValues([...idealValues, newValue.trim()])
@@ -99,10 +126,16 @@ export function CriterionForm({
       weight,
       data_type: dataType,
       ideal_values: idealValues,
+      is_required: isRequired,
+      feature_source: dataType === 'custom' && sourceType !== 'any'
+        ? { type: sourceType, key: sourceKey.trim() }
+        : null,
     })
   }
 
-  const isValid = name.trim().length > 0
+  const isValid =
+    name.trim().length > 0 &&
+    (dataType !== 'custom' || sourceType === 'any' || sourceKey.trim().length > 0)
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -151,6 +184,50 @@ export function CriterionForm({
             </Select>
           </div>
 
+          {dataType === 'custom' && (
+            <div className="space-y-2">
+              <Label>Read Value From</Label>
+              <div className="flex gap-2">
+                <Select value={sourceType} onValueChange={handleSourceTypeChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FEATURE_SOURCES.map((source) => (
+                      <SelectItem key={source.value} value={source.value}>
+                        {source.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {sourceType === 'custom_field' && (
+                  <Input
+                    value={sourceKey}
+                    onChange={(e) => setSourceKey(e.target.value)}
+                    placeholder="Question name, e.g. crm"
+                  />
+                )}
+                {(sourceType === 'lead_field' || sourceType === 'enrichment') && (
+                  <Select value={sourceKey} onValueChange={setSourceKey}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a field" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(sourceType === 'lead_field' ? CUSTOM_FEATURE_LEAD_FIELDS : CUSTOM_FEATURE_ENRICHMENT_PATHS).map((key) => (
+                        <SelectItem key={key} value={key} className="capitalize">
+                          {formatSourceKey(key)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Custom criteria become their own feature in the scoring model, with a weight learned from outcomes.
+              </p>
+            </div>
+          )}
+
           <div className="space-y-3">
             <div className="flex items-center justify-between">
               <Label>Weight</Label>
@@ -167,6 +244,16 @@ export function CriterionForm({
             </p>
           </div>
 
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>Required</Label>
+              <p className="text-xs text-muted-foreground">
+                Leads that clearly fail this criterion are always scored cold
+              </p>
+            </div>
+            <Switch checked={isRequired} onCheckedChange={setIsRequired} />
+          </div>
+
           <div className="space-y-3">
             <Label>Ideal Values</Label>
             <p className="text-xs text-muted-foreground">
@@ -0,0 +1,240 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useScoreTiers } from '@/hooks/use-score-tiers'
+import { getLabelBadgeStyle, getLabelName } from '@/lib/utils'
+import { ArrowRight, FlaskConical, Loader2 } from 'lucide-react'
+import type { ICPCriterion } from '@/types'
+
+interface LeadSimulation {
+  lead_id: string
+  name: string
+  company: string | null
+  current: { score: number; label: string }
+  simulated: { score: number; label: string }
+  score_change: number
+  label_changed: boolean
+}
+
+interface SimulationResult {
+  mode: 'model' | 'llm'
+  sample_size: number
+  leads: LeadSimulation[]
+  label_shifts: Record<string, Record<string, number>>
+  label_counts: { current: Record<string, number>; simulated: Record<string, number> }
+  average_score: { current: number; simulated: number }
+  changed_labels: number
+}
+
+interface SimulationPanelProps {
+  criteria: ICPCriterion[]
+}
+
+export function SimulationPanel({ criteria }: SimulationPanelProps) {
+  const tiers = useScoreTiers()
+  const [sampleSize, setSampleSize] = useState('50')
+  const [useLLM, setUseLLM] = useState(false)
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<SimulationResult | null>(null)
+
+  const handleRun = async () => {
+    setRunning(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/icp/simulate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          criteria: criteria.map((c) => ({
+            id: c.id,
+            name: c.name,
+            description: c.description,
+            data_type: c.data_type,
+            weight: c.weight,
+            ideal_values: c.ideal_values || [],
+            is_required: !!c.is_required,
+          })),
+          sample_size: parseInt(sampleSize),
+          use_llm: useLLM,
+        }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setResult(data.simulation)
+      } else {
+        setError(data.error)
+      }
+    } catch (err) {
+      setError('Failed to run simulation')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const shifts = result
+    ? Object.entries(result.label_shifts).flatMap(([from, targets]) =>
+        Object.entries(targets)
+          .filter(([to]) => to !== from)
+          .map(([to, count]) => ({ from, to, count }))
+      )
+    : []
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <FlaskConical className="h-4 w-4" />
+          Simulate Changes
+        </CardTitle>
+        <CardDescription>
+          Re-score recent leads with the draft criteria. Nothing is saved.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Sample</Label>
+            <Select value={sampleSize} onValueChange={setSampleSize}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="25">Last 25 leads</SelectItem>
+                <SelectItem value="50">Last 50 leads</SelectItem>
+                <SelectItem value="100">Last 100 leads</SelectItem>
+                <SelectItem value="200">Last 200 leads</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch id="simulateWithAI" checked={useLLM} onCheckedChange={setUseLLM} />
+            <Label htmlFor="simulateWithAI">Include AI scoring (max 20 leads)</Label>
+          </div>
+          <Button onClick={handleRun} disabled={running || criteria.length === 0} className="ml-auto">
+            {running && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Run Simulation
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {result && (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Leads re-scored</p>
+                <p className="text-xl font-semibold">{result.sample_size}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Label changes</p>
+                <p className="text-xl font-semibold">{result.changed_labels}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Average score</p>
+                <p className="text-xl font-semibold">
+                  {result.average_score.current} → {result.average_score.simulated}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {tiers.map((tier) => (
+                <Badge key={tier.id} variant="outline" style={getLabelBadgeStyle(tier.id, tiers)}>
+                  {tier.name}: {result.label_counts.current[tier.id] || 0} →{' '}
+                  {result.label_counts.simulated[tier.id] || 0}
+                </Badge>
+              ))}
+            </div>
+
+            {shifts.length > 0 && (
+              <div className="space-y-1">
+                {shifts.map((shift) => (
+                  <div key={`${shift.from}-${shift.to}`} className="flex items-center gap-2 text-sm">
+                    <span>{getLabelName(shift.from, tiers)}</span>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    <span>{getLabelName(shift.to, tiers)}</span>
+                    <span className="text-muted-foreground">
+                      {shift.count} lead{shift.count === 1 ? '' : 's'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {result.leads.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Lead</TableHead>
+                    <TableHead>Current</TableHead>
+                    <TableHead>Simulated</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.leads.slice(0, 20).map((lead) => (
+                    <TableRow key={lead.lead_id}>
+                      <TableCell>
+                        <p className="font-medium">{lead.name}</p>
+                        {lead.company && (
+                          <p className="text-xs text-muted-foreground">{lead.company}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {lead.current.score}{' '}
+                        <span className="text-xs text-muted-foreground">
+                          {getLabelName(lead.current.label, tiers)}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        {lead.simulated.score}{' '}
+                        <Badge
+                          variant="outline"
+                          style={lead.label_changed ? getLabelBadgeStyle(lead.simulated.label, tiers) : undefined}
+                        >
+                          {getLabelName(lead.simulated.label, tiers)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {lead.score_change > 0 ? '+' : ''}
+                        {lead.score_change}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              {result.mode === 'llm'
+                ? 'Compared with the score currently stored on each lead.'
+                : 'Both columns use the learned model only, so differences come from the draft changes.'}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,358 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { LEAD_STATUSES } from '@/lib/constants'
+import { getLabelName } from '@/lib/utils'
+import { ArrowRight, CheckCircle2, Loader2, RefreshCw } from 'lucide-react'
+import { toast } from '@/hooks/use-toast'
+import type {
+  RequalificationBatch,
+  RequalificationBatchFilters,
+  RequalificationBatchProgress,
+  ScoreTier,
+} from '@/types'
+
+type BatchWithProgress = RequalificationBatch & { progress?: RequalificationBatchProgress }
+
+interface BulkRequalifyDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  tiers: ScoreTier[]
+  // Current leads page filters, used as the starting point
+  initialLabel?: string
+  initialStatus?: string
+  onComplete?: () => void
+}
+
+const POLL_INTERVAL_MS = 3000
+
+export function BulkRequalifyDialog({
+  open,
+  onOpenChange,
+  tiers,
+  initialLabel,
+  initialStatus,
+  onComplete,
+}: BulkRequalifyDialogProps) {
+  const [label, setLabel] = useState('all')
+  const [status, setStatus] = useState('all')
+  const [fromDate, setFromDate] = useState('')
+  const [toDate, setToDate] = useState('')
+  const [modelVersion, setModelVersion] = useState('')
+  const [batch, setBatch] = useState<BatchWithProgress | null>(null)
+  const [starting, setStarting] = useState(false)
+  const [cancelling, setCancelling] = useState(false)
+
+  // Pick up the page filters and any batch still running
+  useEffect(() => {
+    if (!open) return
+    setLabel(initialLabel || 'all')
+    setStatus(initialStatus || 'all')
+    fetchLatestBatch()
+  }, [open])
+
+  // Poll progress while the batch is running
+  useEffect(() => {
+    if (!open || !batch || batch.status !== 'running') return
+
+    const interval = setInterval(() => fetchBatch(batch.id), POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [open, batch?.id, batch?.status])
+
+  const fetchLatestBatch = async () => {
+    try {
+      const response = await fetch('/api/leads/requalify')
+      const data = await response.json()
+
+      if (response.ok) {
+        const running = (data.batches as RequalificationBatch[]).find((b) => b.status === 'running')
+        if (running) {
+          await fetchBatch(running.id)
+        } else {
+          setBatch(null)
+        }
+      }
+    } catch (error) {
+      console.error('Failed to fetch requalification batches:', error)
+    }
+  }
+
+  const fetchBatch = async (batchId: string) => {
+    try {
+      const response = await fetch(`/api/leads/requalify/${batchId}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        const next = data.batch as BatchWithProgress
+        setBatch((prev) => {
+          if (prev?.status === 'running' && next.status !== 'running') {
+            onComplete?.()
+          }
+          return next
+        })
+      }
+    } catch (error) {
+      console.error('Failed to fetch requalification batch:', error)
+    }
+  }
+
+  const buildFilters = (): RequalificationBatchFilters => {
+    const filters: RequalificationBatchFilters = {}
+    if (label !== 'all') filters.label = label
+    if (status !== 'all') filters.status = status as RequalificationBatchFilters['status']
+    if (fromDate) filters.from_date = new Date(`${fromDate}T00:00:00`).toISOString()
+    if (toDate) filters.to_date = new Date(`${toDate}T23:59:59.999`).toISOString()
+    if (modelVersion === 'none') {
+      filters.model_version = 'none'
+    } else if (modelVersion) {
+      filters.model_version = parseInt(modelVersion)
+    }
+    return filters
+  }
+
+  const handleStart = async () => {
+    if (modelVersion && modelVersion !== 'none' && !(parseInt(modelVersion) > 0)) {
+      toast({
+        title: 'Invalid model version',
+        description: 'Enter a version number, "none", or leave it empty.',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setStarting(true)
+    try {
+      const response = await fetch('/api/leads/requalify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(buildFilters()),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start requalification')
+      }
+
+      toast({
+        title: 'Requalification started',
+        description: `${data.batch.total_leads} leads queued`,
+      })
+      await fetchBatch(data.batch.id)
+    } catch (error) {
+      toast({
+        title: 'Requalification failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!batch) return
+
+    setCancelling(true)
+    try {
+      const response = await fetch(`/api/leads/requalify/${batch.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel batch')
+      }
+
+      await fetchBatch(batch.id)
+    } catch (error) {
+      toast({
+        title: 'Cancel failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    } finally {
+      setCancelling(false)
+    }
+  }
+
+  const progress = batch?.progress
+  const processed = progress ? progress.completed + progress.failed + progress.cancelled : 0
+  const percent = batch && batch.total_leads > 0 ? (processed / batch.total_leads) * 100 : 0
+  const labelChanges = progress
+    ? Object.entries(progress.label_changes).flatMap(([from, targets]) =>
+        Object.entries(targets).map(([to, count]) => ({ from, to, count }))
+      )
+    : []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Requalify Leads</DialogTitle>
+          <DialogDescription>
+            Re-score matching leads with your current ICP criteria and scoring model.
+            Leads are processed in the background.
+          </DialogDescription>
+        </DialogHeader>
+
+        {batch ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2">
+                  {batch.status === 'running' ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <CheckCircle2 className="h-4 w-4 text-success" />
+                  )}
+                  {processed} of {batch.total_leads} leads
+                </span>
+                <Badge variant="outline" className="capitalize">{batch.status}</Badge>
+              </div>
+              <Progress value={percent} />
+            </div>
+
+            {progress && (
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="rounded-lg border p-2">
+                  <p className="text-lg font-semibold">{progress.completed}</p>
+                  <p className="text-xs text-muted-foreground">Requalified</p>
+                </div>
+                <div className="rounded-lg border p-2">
+                  <p className="text-lg font-semibold">{progress.label_changed}</p>
+                  <p className="text-xs text-muted-foreground">Label changed</p>
+                </div>
+                <div className="rounded-lg border p-2">
+                  <p className="text-lg font-semibold">{progress.failed + progress.cancelled}</p>
+                  <p className="text-xs text-muted-foreground">Failed or cancelled</p>
+                </div>
+              </div>
+            )}
+
+            {labelChanges.length > 0 && (
+              <div className="space-y-1">
+                {labelChanges.map((change) => (
+                  <div key={`${change.from}-${change.to}`} className="flex items-center gap-2 text-sm">
+                    <span>{change.from === 'unscored' ? 'Unscored' : getLabelName(change.from, tiers)}</span>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    <span>{change.to === 'unscored' ? 'Unscored' : getLabelName(change.to, tiers)}</span>
+                    <span className="text-muted-foreground">
+                      {change.count} lead{change.count === 1 ? '' : 's'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              {batch.status === 'running' ? (
+                <Button variant="outline" onClick={handleCancel} disabled={cancelling}>
+                  {cancelling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Cancel Remaining
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={() => setBatch(null)}>
+                  New Batch
+                </Button>
+              )}
+              <Button onClick={() => onOpenChange(false)}>
+                {batch.status === 'running' ? 'Run in Background' : 'Done'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Label</Label>
+                <Select value={label} onValueChange={setLabel}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All labels</SelectItem>
+                    {tiers.map((tier) => (
+                      <SelectItem key={tier.id} value={tier.id}>{tier.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={status} onValueChange={setStatus}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {LEAD_STATUSES.map((s) => (
+                      <SelectItem key={s} value={s} className="capitalize">{s}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="requalifyFrom">Created from</Label>
+                <Input
+                  id="requalifyFrom"
+                  type="date"
+                  value={fromDate}
+                  onChange={(e) => setFromDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="requalifyTo">Created to</Label>
+                <Input
+                  id="requalifyTo"
+                  type="date"
+                  value={toDate}
+                  onChange={(e) => setToDate(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="requalifyModel">Last scored by model version</Label>
+              <Input
+                id="requalifyModel"
+                value={modelVersion}
+                onChange={(e) => setModelVersion(e.target.value.trim())}
+                placeholder='Any version, or "none" for default weights'
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleStart} disabled={starting}>
+                {starting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                )}
+                Requalify
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
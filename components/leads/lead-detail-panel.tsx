@@ -22,7 +22,8 @@ import { Separator } from '@/components/ui/separator'
 import { ScoreGauge } from '@/components/leads/score-gauge'
 import { OutcomeButtons } from '@/components/leads/outcome-buttons'
 import { LeadEnrichments } from '@/components/leads/lead-enrichments'
-import { formatRelativeDate, formatAbsoluteDate, getLabelColor } from '@/lib/utils'
+import { ScoreExplanation } from '@/components/leads/score-explanation'
+import { formatRelativeDate, formatAbsoluteDate, getLabelBadgeStyle, getLabelName, formatCurrency } from '@/lib/utils'
 import { toast } from '@/hooks/use-toast'
 import { LEAD_STATUSES } from '@/lib/constants'
 import {
@@ -38,15 +39,16 @@ import {
   ExternalLink,
   Target,
 } from 'lucide-react'
-import type { Lead } from '@/types'
+import type { Lead, ScoreTier } from '@/types'
 
 interface LeadDetailPanelProps {
   lead: Lead | null
   onClose: () => void
   onUpdate: (leadId: string, updates: Partial<Lead>) => void
+  tiers?: ScoreTier[]
 }
 
-export function LeadDetailPanel({ lead, onClose, onUpdate }: LeadDetailPanelProps) {
+export function LeadDetailPanel({ lead, onClose, onUpdate, tiers }: LeadDetailPanelProps) {
   const [notes, setNotes] = useState(lead?.notes || '')
   const [saving, setSaving] = useState(false)
   const [requalifying, setRequalifying] = useState(false)
@@ -73,8 +75,8 @@ export function LeadDetailPanel({ lead, onClose, onUpdate }: LeadDetailPanelProp
         throw new Error('Failed to requalify')
       }
       toast({
-        title: 'Lead re-qualified',
-        description: 'The lead score has been recalculated.',
+        title: 'Re-qualification queued',
+        description: 'The lead score will be recalculated shortly.',
       })
     } catch (error) {
       console.error('Failed to requalify:', error)
@@ -113,10 +115,18 @@ export function LeadDetailPanel({ lead, onClose, onUpdate }: LeadDetailPanelProp
           {/* Score */}
           {lead.score !== null && lead.label && (
             <div className="flex flex-col items-center p-6 rounded-lg bg-muted/50">
-              <ScoreGauge score={lead.score} size="lg" showLabel />
-              <Badge className={`mt-3 ${getLabelColor(lead.label)}`}>
-                {lead.label.toUpperCase()}
+              <ScoreGauge score={lead.score} size="lg" showLabel tiers={tiers} />
+              <Badge variant="outline" className="mt-3" style={getLabelBadgeStyle(lead.label, tiers)}>
+                {getLabelName(lead.label, tiers).toUpperCase()}
               </Badge>
+              {lead.conversion_probability !== null && (
+                <p className="mt-2 text-sm text-muted-foreground">
+                  {Math.round(lead.conversion_probability * 100)}% likely to convert
+                  {lead.expected_revenue !== null && (
+                    <> · {formatCurrency(Number(lead.expected_revenue))} expected revenue</>
+                  )}
+                </p>
+              )}
             </div>
           )}
 
@@ -220,10 +230,24 @@ export function LeadDetailPanel({ lead, onClose, onUpdate }: LeadDetailPanelProp
             <>
               <Separator />
               <div className="space-y-3">
-                <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
-                  AI Analysis
-                </h3>
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+                    AI Analysis
+                  </h3>
+                  {lead.score_source && (
+                    <Badge variant="outline" className="text-xs">
+                      {lead.score_source === 'llm' && 'AI scored'}
+                      {lead.score_source === 'llm_repaired' && 'AI scored (repaired)'}
+                      {lead.score_source === 'ml_fallback' && 'ML fallback'}
+                    </Badge>
+                  )}
+                </div>
                 <p className="text-sm">{lead.reasoning}</p>
+                {lead.score_source === 'ml_fallback' && lead.score_fallback_reason && (
+                  <p className="text-xs text-muted-foreground">
+                    AI scoring was unavailable: {lead.score_fallback_reason}
+                  </p>
+                )}
                 {lead.breakdown && (
                   <div className="space-y-2">
                     <p className="text-sm font-medium">Criteria Breakdown:</p>
@@ -249,6 +273,14 @@ export function LeadDetailPanel({ lead, onClose, onUpdate }: LeadDetailPanelProp
             </>
           )}
 
+          {/* Score Explanation */}
+          {lead.score !== null && (
+            <>
+              <Separator />
+              <ScoreExplanation leadId={lead.id} />
+            </>
+          )}
+
           {/* AI Enrichments */}
           <Separator />
           <LeadEnrichments leadId={lead.id} />
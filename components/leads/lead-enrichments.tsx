@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { Skeleton } from '@/components/ui/skeleton'
+import { formatRelativeDate } from '@/lib/utils'
 import {
   Building2,
   Brain,
@@ -14,6 +15,7 @@ import {
   RefreshCw,
   Target,
   Zap,
+  Contact,
 } from 'lucide-react'
 
 interface CompanyResearch {
@@ -24,6 +26,12 @@ interface CompanyResearch {
   health_score: number
   confidence: number
   summary: string
+  website_title?: string | null
+  website_description?: string | null
+  detected_technologies?: string[]
+  contact_pages?: string[]
+  website_sources?: string[]
+  citations?: string[]
 }
 
 interface IntentAnalysis {
@@ -41,6 +49,19 @@ interface AuthorityAssessment {
   title_seniority: string
   buying_role: string
   authority_level: number
+  department?: string | null
+}
+
+interface ContactValidation {
+  email_type: string | null
+  email_domain: string | null
+  email_syntax_valid: boolean
+  email_role_based: boolean
+  email_mx_valid: boolean | null
+  phone_e164: string | null
+  phone_country: string | null
+  phone_valid: boolean | null
+  contact_quality_score: number
 }
 
 interface EnrichmentData {
@@ -48,20 +69,38 @@ interface EnrichmentData {
     data: CompanyResearch
     confidence: number | null
     source: string
+    field_sources?: Record<string, string[]>
     created_at: string
   }
   intent_analysis?: {
     data: IntentAnalysis
     confidence: number | null
     source: string
+    field_sources?: Record<string, string[]>
     created_at: string
   }
   authority_assessment?: {
     data: AuthorityAssessment
     confidence: number | null
     source: string
+    field_sources?: Record<string, string[]>
     created_at: string
   }
+  contact_validation?: {
+    data: ContactValidation
+    confidence: number | null
+    source: string
+    field_sources?: Record<string, string[]>
+    created_at: string
+  }
+}
+
+interface CompanyProfileInfo {
+  domain: string
+  company_name: string | null
+  refreshed_at: string
+  expires_at: string
+  lead_count: number
 }
 
 interface LeadEnrichmentsProps {
@@ -70,6 +109,8 @@ interface LeadEnrichmentsProps {
 
 export function LeadEnrichments({ leadId }: LeadEnrichmentsProps) {
   const [enrichments, setEnrichments] = useState<EnrichmentData | null>(null)
+  const [companyProfile, setCompanyProfile] = useState<CompanyProfileInfo | null>(null)
+  const [providers, setProviders] = useState<Record<string, string>>({})
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -82,6 +123,8 @@ export function LeadEnrichments({ leadId }: LeadEnrichmentsProps) {
       }
       const data = await response.json()
       setEnrichments(data.enrichments || {})
+      setCompanyProfile(data.company_profile || null)
+      setProviders(data.providers || {})
       setError(null)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
@@ -133,7 +176,8 @@ export function LeadEnrichments({ leadId }: LeadEnrichmentsProps) {
   const hasEnrichments = enrichments && (
     enrichments.company_research ||
     enrichments.intent_analysis ||
-    enrichments.authority_assessment
+    enrichments.authority_assessment ||
+    enrichments.contact_validation
   )
 
   return (
@@ -173,6 +217,14 @@ export function LeadEnrichments({ leadId }: LeadEnrichmentsProps) {
                 )}
               </div>
 
+              {companyProfile && (
+                <p className="text-xs text-muted-foreground">
+                  Shared profile for {companyProfile.domain}
+                  {companyProfile.lead_count > 1 && ` · used by ${companyProfile.lead_count} leads`}
+                  {' · '}researched {formatRelativeDate(companyProfile.refreshed_at)}
+                </p>
+              )}
+
               {enrichments.company_research.data.summary && (
                 <p className="text-sm text-muted-foreground">
                   {enrichments.company_research.data.summary}
@@ -186,6 +238,26 @@ export function LeadEnrichments({ leadId }: LeadEnrichmentsProps) {
                 </div>
               )}
 
+              {enrichments.company_research.data.technology_indicators?.length > 0 && (
+                <div className="space-y-1">
+                  <span className="text-xs text-muted-foreground">Technologies:</span>
+                  <div className="flex flex-wrap gap-1">
+                    {enrichments.company_research.data.technology_indicators.map((tech, i) => (
+                      <Badge
+                        key={i}
+                        variant={enrichments.company_research?.data.detected_technologies?.includes(tech) ? 'secondary' : 'outline'}
+                        className="text-xs"
+                      >
+                        {tech}
+                      </Badge>
+                    ))}
+                  </div>
+                  {(enrichments.company_research.data.detected_technologies?.length ?? 0) > 0 && (
+                    <p className="text-xs text-muted-foreground">Filled badges were detected on the website</p>
+                  )}
+                </div>
+              )}
+
               {enrichments.company_research.data.growth_signals?.length > 0 && (
                 <div className="space-y-1">
                   <span className="text-xs text-muted-foreground">Growth Signals:</span>
@@ -212,6 +284,10 @@ export function LeadEnrichments({ leadId }: LeadEnrichmentsProps) {
                   </div>
                 </div>
               )}
+
+              <WebsiteCitations research={enrichments.company_research.data} />
+
+              <FieldSources sources={enrichments.company_research.field_sources} providers={providers} />
             </div>
           )}
 
@@ -264,6 +340,8 @@ export function LeadEnrichments({ leadId }: LeadEnrichmentsProps) {
                   </div>
                 </div>
               )}
+
+              <FieldSources sources={enrichments.intent_analysis.field_sources} providers={providers} />
             </div>
           )}
 
@@ -274,20 +352,71 @@ export function LeadEnrichments({ leadId }: LeadEnrichmentsProps) {
                 <Target className="h-4 w-4 text-green-500" />
                 <span className="font-medium text-sm">Authority Assessment</span>
                 <Badge variant="outline" className="ml-auto capitalize">
-                  {enrichments.authority_assessment.data.buying_role || 'Unknown'}
+                  {enrichments.authority_assessment.data.buying_role?.replace(/_/g, ' ') || 'Unknown'}
                 </Badge>
               </div>
 
               <div className="grid grid-cols-2 gap-2 text-sm">
                 <div>
                   <span className="text-muted-foreground">Seniority:</span>{' '}
-                  <span className="capitalize">{enrichments.authority_assessment.data.title_seniority || 'Unknown'}</span>
+                  <span className="capitalize">
+                    {enrichments.authority_assessment.data.title_seniority?.replace(/_/g, ' ') || 'Unknown'}
+                  </span>
                 </div>
                 <div>
                   <span className="text-muted-foreground">Decision Maker:</span>{' '}
                   {Math.round((enrichments.authority_assessment.data.decision_maker_likelihood || 0) * 100)}%
                 </div>
+                {enrichments.authority_assessment.data.department && (
+                  <div>
+                    <span className="text-muted-foreground">Department:</span>{' '}
+                    <span className="capitalize">
+                      {enrichments.authority_assessment.data.department.replace(/_/g, ' ')}
+                    </span>
+                  </div>
+                )}
               </div>
+
+              <FieldSources sources={enrichments.authority_assessment.field_sources} providers={providers} />
+            </div>
+          )}
+
+          {/* Contact Validation */}
+          {enrichments?.contact_validation?.data && (
+            <div className="rounded-lg border p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <Contact className="h-4 w-4 text-orange-500" />
+                <span className="font-medium text-sm">Contact Validation</span>
+                <Badge variant="outline" className="ml-auto">
+                  Quality {Math.round((enrichments.contact_validation.data.contact_quality_score || 0) * 100)}%
+                </Badge>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <div>
+                  <span className="text-muted-foreground">Email:</span>{' '}
+                  <span className="capitalize">
+                    {enrichments.contact_validation.data.email_type?.replace(/_/g, ' ') || 'None'}
+                  </span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Mail server:</span>{' '}
+                  {formatCheck(enrichments.contact_validation.data.email_mx_valid)}
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Phone:</span>{' '}
+                  {enrichments.contact_validation.data.phone_e164
+                    || formatCheck(enrichments.contact_validation.data.phone_valid)}
+                </div>
+                {enrichments.contact_validation.data.phone_country && (
+                  <div>
+                    <span className="text-muted-foreground">Country:</span>{' '}
+                    {enrichments.contact_validation.data.phone_country}
+                  </div>
+                )}
+              </div>
+
+              <FieldSources sources={enrichments.contact_validation.field_sources} providers={providers} />
             </div>
           )}
         </div>
@@ -296,7 +425,102 @@ export function LeadEnrichments({ leadId }: LeadEnrichmentsProps) {
   )
 }
 
+// Website pages the research cites, with the claims that cite them
+function WebsiteCitations({ research }: { research: CompanyResearch }) {
+  // Other providers can fill these fields too, so only http(s) links are rendered
+  const sources = (research.website_sources || []).map(parseWebLink)
+  if (sources.length === 0) return null
+  const contactPages = (research.contact_pages || [])
+    .map(parseWebLink)
+    .filter((link): link is URL => !!link && !sources.some((s) => s?.href === link.href))
+
+  return (
+    <div className="space-y-1 text-xs">
+      <span className="text-muted-foreground">From the website:</span>
+      {(research.citations || []).map((citation, i) => {
+        const match = citation.match(/^(.*) \[(\d+)\]$/)
+        const source = match ? sources[Number(match[2]) - 1] : undefined
+        return (
+          <p key={i}>
+            {match ? match[1] : citation}
+            {source && (
+              <>
+                {' '}
+                <a href={source.href} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                  [{match?.[2]}]
+                </a>
+              </>
+            )}
+          </p>
+        )
+      })}
+      <div className="flex flex-wrap gap-x-3 text-muted-foreground">
+        {sources.map((link, i) =>
+          link ? (
+            <a key={i} href={link.href} target="_blank" rel="noopener noreferrer" className="hover:underline">
+              [{i + 1}] {link.pathname}
+            </a>
+          ) : null
+        )}
+        {contactPages.map((link) => (
+          <a key={link.href} href={link.href} target="_blank" rel="noopener noreferrer" className="hover:underline">
+            Contact page
+          </a>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function parseWebLink(value: string): URL | null {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null
+  } catch {
+    return null
+  }
+}
+
+// Result of a check that may not have run or been conclusive
+function formatCheck(value: boolean | null | undefined): string {
+  if (value === true) return 'Valid'
+  if (value === false) return 'Invalid'
+  return 'Unknown'
+}
+
+// Which provider supplied each field, grouped by provider
+function FieldSources({
+  sources,
+  providers,
+}: {
+  sources?: Record<string, string[]>
+  providers: Record<string, string>
+}) {
+  const fieldsByProvider: Record<string, string[]> = {}
+  for (const [field, providerIds] of Object.entries(sources || {})) {
+    for (const id of providerIds) {
+      (fieldsByProvider[id] ||= []).push(field.replace(/_/g, ' '))
+    }
+  }
+  if (Object.keys(fieldsByProvider).length === 0) return null
+
+  return (
+    <div className="border-t pt-2 space-y-0.5 text-xs text-muted-foreground">
+      {Object.entries(fieldsByProvider).map(([id, fields]) => (
+        <p key={id}>
+          <span className="font-medium">{providers[id] || id}:</span> {fields.join(', ')}
+        </p>
+      ))}
+    </div>
+  )
+}
+
 function ScoreIndicator({ value, max }: { value: number; max: number }) {
+  // Merged enrichments can lack fields no provider supplied
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    return <span className="text-muted-foreground">-</span>
+  }
+
   const percentage = (value / max) * 100
   const color = percentage >= 80 ? 'text-green-600' : percentage >= 50 ? 'text-yellow-600' : 'text-red-600'
 
@@ -11,9 +11,14 @@ import {
 } from '@/components/ui/select'
 import { Button } from '@/components/ui/button'
 import { Search, X } from 'lucide-react'
-import { LEAD_STATUSES, QUALIFICATION_LABELS } from '@/lib/constants'
+import { LEAD_STATUSES, DEFAULT_SCORE_TIERS } from '@/lib/constants'
+import type { ScoreTier } from '@/types'
 
-export function LeadFilters() {
+interface LeadFiltersProps {
+  tiers?: ScoreTier[]
+}
+
+export function LeadFilters({ tiers = DEFAULT_SCORE_TIERS }: LeadFiltersProps) {
   const router = useRouter()
   const searchParams = useSearchParams()
 
@@ -59,9 +64,9 @@ export function LeadFilters() {
         </SelectTrigger>
         <SelectContent>
           <SelectItem value="all">All labels</SelectItem>
-          {QUALIFICATION_LABELS.map((l) => (
-            <SelectItem key={l} value={l} className="capitalize">
-              {l}
+          {tiers.map((t) => (
+            <SelectItem key={t.id} value={t.id}>
+              {t.name}
             </SelectItem>
           ))}
         </SelectContent>
@@ -14,9 +14,9 @@ import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
 import { EmptyState } from '@/components/shared/empty-state'
 import { ScoreGauge } from '@/components/leads/score-gauge'
-import { formatRelativeDate, getLabelColor } from '@/lib/utils'
+import { formatRelativeDate, getLabelBadgeStyle, getLabelName } from '@/lib/utils'
 import { Users, ChevronLeft, ChevronRight } from 'lucide-react'
-import type { Lead } from '@/types'
+import type { Lead, ScoreTier } from '@/types'
 
 interface LeadsTableProps {
   leads: Lead[]
@@ -29,6 +29,7 @@ interface LeadsTableProps {
   }
   onSelect: (lead: Lead) => void
   selectedId?: string
+  tiers?: ScoreTier[]
 }
 
 export function LeadsTable({
@@ -37,6 +38,7 @@ export function LeadsTable({
   pagination,
   onSelect,
   selectedId,
+  tiers,
 }: LeadsTableProps) {
   const router = useRouter()
   const searchParams = useSearchParams()
@@ -136,15 +138,22 @@ export function LeadsTable({
                 </TableCell>
                 <TableCell>
                   {lead.score !== null ? (
-                    <ScoreGauge score={lead.score} size="sm" />
+                    <div className="flex items-center gap-2">
+                      <ScoreGauge score={lead.score} size="sm" tiers={tiers} />
+                      {lead.conversion_probability !== null && (
+                        <span className="text-xs text-muted-foreground">
+                          {Math.round(lead.conversion_probability * 100)}%
+                        </span>
+                      )}
+                    </div>
                   ) : (
                     <span className="text-muted-foreground">-</span>
                   )}
                 </TableCell>
                 <TableCell>
                   {lead.label ? (
-                    <Badge className={getLabelColor(lead.label)}>
-                      {lead.label.toUpperCase()}
+                    <Badge variant="outline" style={getLabelBadgeStyle(lead.label, tiers)}>
+                      {getLabelName(lead.label, tiers).toUpperCase()}
                     </Badge>
                   ) : (
                     <Badge variant="outline">Pending</Badge>
@@ -0,0 +1,194 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  Cell,
+} from 'recharts'
+import { Skeleton } from '@/components/ui/skeleton'
+import { BarChart3 } from 'lucide-react'
+
+interface FeatureContribution {
+  feature: string
+  label: string
+  value: number
+  weight: number
+  contribution: number
+  baseline_value: number | null
+  delta: number | null
+}
+
+interface ScoreExplanationData {
+  score: number | null
+  model_score: number
+  llm_score: number | null
+  blend_ratio: number | null
+  model_version: number | null
+  baseline_sample_size: number
+  features: FeatureContribution[]
+}
+
+interface WaterfallStep {
+  label: string
+  offset: number
+  contribution: number
+  isTotal: boolean
+  detail?: FeatureContribution
+}
+
+interface ScoreExplanationProps {
+  leadId: string
+}
+
+export function ScoreExplanation({ leadId }: ScoreExplanationProps) {
+  const [explanation, setExplanation] = useState<ScoreExplanationData | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchExplanation() {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/leads/${leadId}/explain`)
+        setExplanation(response.ok ? await response.json() : null)
+      } catch (error) {
+        console.error('Failed to fetch score explanation:', error)
+        setExplanation(null)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchExplanation()
+  }, [leadId])
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-4 w-32" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    )
+  }
+
+  if (!explanation) return null
+
+  // Each feature bar starts where the previous one ended
+  const steps: WaterfallStep[] = []
+  let running = 0
+  for (const feature of explanation.features) {
+    steps.push({
+      label: feature.label,
+      offset: running,
+      contribution: feature.contribution,
+      isTotal: false,
+      detail: feature,
+    })
+    running += feature.contribution
+  }
+  steps.push({
+    label: 'Model score',
+    offset: 0,
+    contribution: Math.round(running),
+    isTotal: true,
+  })
+
+  const hasBaseline = explanation.baseline_sample_size > 0
+  const gaps = hasBaseline
+    ? explanation.features
+        .filter((f) => f.delta !== null && f.delta < -0.5)
+        .sort((a, b) => (a.delta ?? 0) - (b.delta ?? 0))
+        .slice(0, 3)
+    : []
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+          <BarChart3 className="h-4 w-4" />
+          Score Explanation
+        </h3>
+        <span className="text-xs text-muted-foreground">
+          {explanation.model_version ? `Model v${explanation.model_version}` : 'Default weights'}
+        </span>
+      </div>
+
+      <ResponsiveContainer width="100%" height={steps.length * 22 + 20}>
+        <BarChart data={steps} layout="vertical" margin={{ top: 0, right: 10, left: 0, bottom: 0 }}>
+          <XAxis type="number" domain={[0, 100]} tick={{ fontSize: 11 }} />
+          <YAxis type="category" dataKey="label" width={120} tick={{ fontSize: 11 }} interval={0} />
+          <Tooltip
+            cursor={{ fill: 'hsl(var(--muted))' }}
+            content={({ active, payload }) => {
+              if (!active || !payload?.length) return null
+              const step = payload[0].payload as WaterfallStep
+              return (
+                <div className="rounded-lg border bg-card p-2 text-xs shadow-sm space-y-0.5">
+                  <p className="font-medium">{step.label}</p>
+                  {step.detail ? (
+                    <>
+                      <p>Value: {Math.round(step.detail.value * 100)}%</p>
+                      <p>Weight: {step.detail.weight}</p>
+                      <p>Contribution: +{step.detail.contribution.toFixed(1)} pts</p>
+                      {step.detail.delta !== null && (
+                        <p>
+                          vs. avg converted: {step.detail.delta >= 0 ? '+' : ''}
+                          {step.detail.delta.toFixed(1)} pts
+                        </p>
+                      )}
+                    </>
+                  ) : (
+                    <p>{step.contribution}/100</p>
+                  )}
+                </div>
+              )
+            }}
+          />
+          <Bar dataKey="offset" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+          <Bar dataKey="contribution" stackId="waterfall" radius={[0, 3, 3, 0]}>
+            {steps.map((step) => (
+              <Cell
+                key={step.label}
+                fill={
+                  step.isTotal
+                    ? 'hsl(var(--primary))'
+                    : step.detail?.delta !== null && step.detail?.delta !== undefined && step.detail.delta < 0
+                      ? '#f59e0b'
+                      : '#10b981'
+                }
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+
+      {explanation.llm_score !== null && explanation.blend_ratio !== null && (
+        <p className="text-xs text-muted-foreground">
+          Blended with the AI score of {explanation.llm_score} at{' '}
+          {Math.round(explanation.blend_ratio * 100)}% AI for a final score of {explanation.score}.
+        </p>
+      )}
+
+      {hasBaseline ? (
+        gaps.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Behind the average converted lead:</p>
+            {gaps.map((gap) => (
+              <div key={gap.feature} className="flex justify-between text-sm">
+                <span>{gap.label}</span>
+                <span className="text-muted-foreground">{gap.delta?.toFixed(1)} pts</span>
+              </div>
+            ))}
+          </div>
+        )
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Record converted outcomes to compare leads against your average converted lead.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -1,14 +1,17 @@
 'use client'
 
 import { cn } from '@/lib/utils'
+import { getScoreTier } from '@/lib/tiers'
+import type { ScoreTier } from '@/types'
 
 interface ScoreGaugeProps {
   score: number
   size?: 'sm' | 'md' | 'lg'
   showLabel?: boolean
+  tiers?: ScoreTier[]
 }
 
-export function ScoreGauge({ score, size = 'md', showLabel = false }: ScoreGaugeProps) {
+export function ScoreGauge({ score, size = 'md', showLabel = false, tiers }: ScoreGaugeProps) {
   const sizeConfig = {
     sm: { dimension: 32, strokeWidth: 3, fontSize: 'text-xs' },
     md: { dimension: 64, strokeWidth: 4, fontSize: 'text-sm' },
@@ -21,20 +24,11 @@ export function ScoreGauge({ score, size = 'md', showLabel = false }: ScoreGauge
   const progress = (score / 100) * circumference
   const offset = circumference - progress
 
-  const getColor = () => {
-    if (score >= 80) return 'text-success'
-    if (score >= 50) return 'text-warning'
-    return 'text-destructive'
-  }
-
-  const getLabel = () => {
-    if (score >= 80) return 'HOT'
-    if (score >= 50) return 'WARM'
-    return 'COLD'
-  }
+  const tier = getScoreTier(score, tiers)
+  const label = tier.name.toUpperCase()
 
   return (
-    <div className="flex flex-col items-center gap-1" role="img" aria-label={`Lead score: ${score} out of 100, ${getLabel()}`}>
+    <div className="flex flex-col items-center gap-1" role="img" aria-label={`Lead score: ${score} out of 100, ${label}`}>
       <div className="relative" style={{ width: config.dimension, height: config.dimension }}>
         <svg
           className="transform -rotate-90"
@@ -57,21 +51,22 @@ export function ScoreGauge({ score, size = 'md', showLabel = false }: ScoreGauge
             r={radius}
             strokeWidth={config.strokeWidth}
             strokeLinecap="round"
-            className={cn('fill-none stroke-current transition-all duration-500', getColor())}
+            className="fill-none stroke-current transition-all duration-500"
+            style={{ color: tier.color }}
             strokeDasharray={circumference}
             strokeDashoffset={offset}
           />
         </svg>
         {/* Score number */}
         <div className="absolute inset-0 flex items-center justify-center">
-          <span className={cn('font-bold', config.fontSize, getColor())}>
+          <span className={cn('font-bold', config.fontSize)} style={{ color: tier.color }}>
             {score}
           </span>
         </div>
       </div>
       {showLabel && (
-        <span className={cn('text-xs font-semibold', getColor())}>
-          {getLabel()}
+        <span className="text-xs font-semibold" style={{ color: tier.color }}>
+          {label}
         </span>
       )}
     </div>
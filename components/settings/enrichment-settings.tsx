@@ -0,0 +1,396 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Trash2, Upload, Loader2 } from 'lucide-react'
+import {
+  ENRICHMENT_TYPES,
+  ENRICHMENT_PROVIDER_TYPES,
+  ENRICHMENT_FIELDS,
+} from '@/lib/constants'
+import type {
+  EnrichmentSettings,
+  EnrichmentType,
+  EnrichmentProviderType,
+  EnrichmentMergeStrategy,
+  ProviderSecretsUpdate,
+  LookupTableSummary,
+} from '@/lib/enrichment'
+
+type ProviderSettings = EnrichmentSettings['providers'][number]
+
+const TYPE_LABELS: Record<EnrichmentType, string> = {
+  company_research: 'Company research',
+  intent_analysis: 'Intent analysis',
+  authority_assessment: 'Authority',
+  contact_validation: 'Contact validation',
+}
+
+const PROVIDER_LABELS: Record<EnrichmentProviderType, string> = {
+  llm: 'AI analysis',
+  rules: 'Rules',
+  csv_lookup: 'CSV lookup',
+  http: 'HTTP endpoint',
+}
+
+const STRATEGY_LABELS: Record<EnrichmentMergeStrategy, string> = {
+  priority: 'Highest priority',
+  highest_confidence: 'Most confident',
+  union: 'Combine all',
+}
+
+interface EnrichmentSettingsEditorProps {
+  value: EnrichmentSettings
+  onChange: (value: EnrichmentSettings) => void
+  // Names of the headers saved for each provider; their values never reach the browser
+  savedHeaders: Record<string, string[]>
+  headerChanges: ProviderSecretsUpdate
+  // A string replaces the header, null removes it, undefined discards the change
+  onHeaderChange: (providerId: string, name: string, value: string | null | undefined) => void
+  // Uploaded CSV tables by id; providers reference one by lookup_table_id
+  lookupTables: Record<string, LookupTableSummary>
+  onLookupTableUpload: (table: LookupTableSummary) => void
+}
+
+export function EnrichmentSettingsEditor({
+  value,
+  onChange,
+  savedHeaders,
+  headerChanges,
+  onHeaderChange,
+  lookupTables,
+  onLookupTableUpload,
+}: EnrichmentSettingsEditorProps) {
+  const [uploadingIndex, setUploadingIndex] = useState<number | null>(null)
+  const [uploadErrors, setUploadErrors] = useState<Record<string, string>>({})
+
+  const updateProvider = (index: number, updates: Partial<ProviderSettings>) => {
+    onChange({
+      ...value,
+      providers: value.providers.map((p, i) => (i === index ? { ...p, ...updates } : p)),
+    })
+  }
+
+  const addProvider = (type: EnrichmentProviderType) => {
+    let n = 1
+    while (value.providers.some((p) => p.id === `${type}_${n}`)) n++
+    onChange({
+      ...value,
+      providers: [
+        ...value.providers,
+        {
+          id: `${type}_${n}`,
+          name: PROVIDER_LABELS[type],
+          type,
+          enabled: true,
+          enrichment_types: ['company_research'],
+          priority: 50,
+          ...(type === 'csv_lookup' ? { match_on: 'domain' as const } : {}),
+        },
+      ],
+    })
+  }
+
+  const removeProvider = (index: number) => {
+    onChange({ ...value, providers: value.providers.filter((_, i) => i !== index) })
+  }
+
+  // Tables are stored on upload; the provider points at one once settings are saved
+  const uploadLookupTable = async (index: number, file: File) => {
+    const providerId = value.providers[index].id
+    setUploadingIndex(index)
+    setUploadErrors((prev) => ({ ...prev, [providerId]: '' }))
+
+    try {
+      const response = await fetch('/api/settings/lookup-tables', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv: await file.text() }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        onLookupTableUpload(data.lookup_table)
+        updateProvider(index, { lookup_table_id: data.lookup_table.id })
+      } else {
+        setUploadErrors((prev) => ({ ...prev, [providerId]: data.error || 'Failed to upload CSV' }))
+      }
+    } catch {
+      setUploadErrors((prev) => ({ ...prev, [providerId]: 'Failed to upload CSV' }))
+    } finally {
+      setUploadingIndex(null)
+    }
+  }
+
+  const toggleType = (index: number, type: EnrichmentType) => {
+    const current = value.providers[index].enrichment_types
+    updateProvider(index, {
+      enrichment_types: current.includes(type) ? current.filter((t) => t !== type) : [...current, type],
+    })
+  }
+
+  const setMergeRule = (type: EnrichmentType, field: string, strategy: EnrichmentMergeStrategy) => {
+    onChange({
+      ...value,
+      merge_rules: {
+        ...value.merge_rules,
+        [type]: { ...(value.merge_rules[type] || {}), [field]: strategy },
+      },
+    })
+  }
+
+  // Merge rules only matter where two or more enabled providers overlap
+  const sharedTypes = ENRICHMENT_TYPES.filter(
+    (type) => value.providers.filter((p) => p.enabled && p.enrichment_types.includes(type)).length > 1
+  )
+
+  return (
+    <div className="space-y-6">
+      {value.providers.map((provider, index) => (
+        <div key={index} className="rounded-lg border p-4 space-y-3">
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor={`providerName${index}`}>Name</Label>
+              <Input
+                id={`providerName${index}`}
+                value={provider.name}
+                onChange={(e) => updateProvider(index, { name: e.target.value })}
+              />
+            </div>
+            <div className="w-24 space-y-2">
+              <Label htmlFor={`providerPriority${index}`}>Priority</Label>
+              <Input
+                id={`providerPriority${index}`}
+                type="number"
+                min={0}
+                max={100}
+                value={provider.priority}
+                onChange={(e) => updateProvider(index, { priority: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="flex h-10 items-center gap-2">
+              <Badge variant="outline">{PROVIDER_LABELS[provider.type]}</Badge>
+              <Switch
+                checked={provider.enabled}
+                onCheckedChange={(enabled) => updateProvider(index, { enabled })}
+                aria-label="Enabled"
+              />
+            </div>
+            <Button variant="ghost" size="icon" onClick={() => removeProvider(index)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            {ENRICHMENT_TYPES.map((type) => (
+              <div key={type} className="flex items-center gap-2">
+                <Checkbox
+                  id={`provider${index}-${type}`}
+                  checked={provider.enrichment_types.includes(type)}
+                  onCheckedChange={() => toggleType(index, type)}
+                />
+                <label htmlFor={`provider${index}-${type}`} className="text-sm cursor-pointer">
+                  {TYPE_LABELS[type]}
+                </label>
+              </div>
+            ))}
+          </div>
+
+          {provider.type === 'csv_lookup' && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Label>Match leads on</Label>
+                <Select
+                  value={provider.match_on || 'domain'}
+                  onValueChange={(v) => updateProvider(index, { match_on: v as 'domain' | 'company_name' })}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="domain">Domain</SelectItem>
+                    <SelectItem value="company_name">Company name</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={uploadingIndex !== null}
+                  onClick={() => document.getElementById(`providerCsv${index}`)?.click()}
+                >
+                  {uploadingIndex === index ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Upload className="mr-2 h-4 w-4" />
+                  )}
+                  {provider.lookup_table_id ? 'Replace CSV' : 'Upload CSV'}
+                </Button>
+                <input
+                  id={`providerCsv${index}`}
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    if (file) uploadLookupTable(index, file)
+                    e.target.value = ''
+                  }}
+                />
+                <span className="text-sm text-muted-foreground">
+                  {describeLookupTable(provider.lookup_table_id, lookupTables)}
+                </span>
+              </div>
+              {uploadErrors[provider.id] && <p className="text-sm text-destructive">{uploadErrors[provider.id]}</p>}
+              <p className="text-xs text-muted-foreground">
+                Columns named after an enrichment field fill it; separate list items with ; and add an
+                optional confidence column (0-1)
+              </p>
+            </div>
+          )}
+
+          {provider.type === 'llm' && provider.enrichment_types.includes('company_research') && (
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`providerFetchWebsite${index}`}
+                checked={provider.fetch_website ?? true}
+                onCheckedChange={(fetch_website) => updateProvider(index, { fetch_website })}
+              />
+              <Label htmlFor={`providerFetchWebsite${index}`}>
+                Read the company website and cite it in company research
+              </Label>
+            </div>
+          )}
+
+          {provider.type === 'rules' && provider.enrichment_types.includes('contact_validation') && (
+            <div className="flex items-center gap-2">
+              <Label>Mail server check</Label>
+              <Select
+                value={provider.mx_lookup || 'heuristic'}
+                onValueChange={(v) => updateProvider(index, { mx_lookup: v as 'heuristic' | 'dns' })}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="heuristic">Offline heuristics</SelectItem>
+                  <SelectItem value="dns">DNS lookup</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {provider.type === 'http' && (
+            <div className="grid gap-2 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor={`providerUrl${index}`}>Endpoint URL</Label>
+                <Input
+                  id={`providerUrl${index}`}
+                  value={provider.url || ''}
+                  onChange={(e) => updateProvider(index, { url: e.target.value })}
+                  placeholder="https://enrich.example.com/lead"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`providerAuth${index}`}>Authorization header</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id={`providerAuth${index}`}
+                    type="password"
+                    autoComplete="off"
+                    value={headerChanges[provider.id]?.Authorization || ''}
+                    onChange={(e) => onHeaderChange(provider.id, 'Authorization', e.target.value || undefined)}
+                    placeholder={
+                      headerChanges[provider.id]?.Authorization === null
+                        ? 'Removed when you save'
+                        : savedHeaders[provider.id]?.includes('Authorization')
+                          ? 'Saved; type to replace'
+                          : 'Bearer ...'
+                    }
+                  />
+                  {savedHeaders[provider.id]?.includes('Authorization') &&
+                    headerChanges[provider.id]?.Authorization === undefined && (
+                      <Button
+                        variant="outline"
+                        onClick={() => onHeaderChange(provider.id, 'Authorization', null)}
+                      >
+                        Remove
+                      </Button>
+                    )}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          Lower priority numbers run first and win fields by default
+        </p>
+        <Select value="" onValueChange={(v) => addProvider(v as EnrichmentProviderType)}>
+          <SelectTrigger className="w-44" disabled={value.providers.length >= 10}>
+            <SelectValue placeholder="Add provider" />
+          </SelectTrigger>
+          <SelectContent>
+            {ENRICHMENT_PROVIDER_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>
+                {PROVIDER_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {sharedTypes.map((type) => (
+        <div key={type} className="space-y-2">
+          <Label>{TYPE_LABELS[type]} merge rules</Label>
+          <div className="grid gap-2 md:grid-cols-2">
+            {Object.entries(ENRICHMENT_FIELDS[type]).map(([field, kind]) => (
+              <div key={field} className="flex items-center justify-between gap-2 text-sm">
+                <span className="capitalize">{field.replace(/_/g, ' ')}</span>
+                <Select
+                  value={value.merge_rules[type]?.[field] || 'priority'}
+                  onValueChange={(v) => setMergeRule(type, field, v as EnrichmentMergeStrategy)}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(STRATEGY_LABELS) as EnrichmentMergeStrategy[])
+                      .filter((strategy) => strategy !== 'union' || kind === 'list')
+                      .map((strategy) => (
+                        <SelectItem key={strategy} value={strategy}>
+                          {STRATEGY_LABELS[strategy]}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function describeLookupTable(tableId: string | undefined, tables: Record<string, LookupTableSummary>): string {
+  if (!tableId) return 'No CSV table yet'
+  const table = tables[tableId]
+  if (!table || table.rowCount === null || !table.columns) return 'Saved CSV table'
+  return `${table.rowCount} ${table.rowCount === 1 ? 'row' : 'rows'}: ${table.columns.join(', ')}`
+}
@@ -0,0 +1,384 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ChevronDown, ChevronUp, Plus, Trash2 } from 'lucide-react'
+import { BUYING_ROLES } from '@/lib/constants'
+import {
+  classifyTitle,
+  getTitleLevel,
+  type TitleTaxonomy,
+  type SeniorityLevel,
+  type Department,
+} from '@/lib/title-taxonomy'
+
+const BUYING_ROLE_LABELS: Record<(typeof BUYING_ROLES)[number], string> = {
+  decision_maker: 'Decision maker',
+  influencer: 'Influencer',
+  user: 'User',
+}
+
+const SAMPLE_TITLES = 'Head of Marketing\nLead Engineer\nGeschäftsführer\nGerente de Ventas'
+
+interface TitleTaxonomyEditorProps {
+  value: TitleTaxonomy
+  onChange: (value: TitleTaxonomy) => void
+}
+
+export function TitleTaxonomyEditor({ value, onChange }: TitleTaxonomyEditorProps) {
+  const [testTitles, setTestTitles] = useState(SAMPLE_TITLES)
+
+  const updateLevel = (index: number, updates: Partial<SeniorityLevel>) => {
+    onChange({
+      ...value,
+      seniority_levels: value.seniority_levels.map((l, i) => (i === index ? { ...l, ...updates } : l)),
+    })
+  }
+
+  const moveLevel = (index: number, offset: number) => {
+    const levels = [...value.seniority_levels]
+    const [level] = levels.splice(index, 1)
+    levels.splice(index + offset, 0, level)
+    onChange({ ...value, seniority_levels: levels })
+  }
+
+  const addLevel = () => {
+    let n = 1
+    while (value.seniority_levels.some((l) => l.id === `level_${n}`)) n++
+    onChange({
+      ...value,
+      seniority_levels: [
+        ...value.seniority_levels,
+        {
+          id: `level_${n}`,
+          name: 'New level',
+          aliases: [],
+          patterns: [],
+          authority_level: 0.5,
+          decision_maker_likelihood: 0.4,
+          buying_role: 'influencer',
+          title_score: 0.5,
+        },
+      ],
+    })
+  }
+
+  const removeLevel = (index: number) => {
+    onChange({ ...value, seniority_levels: value.seniority_levels.filter((_, i) => i !== index) })
+  }
+
+  const updateDepartment = (index: number, updates: Partial<Department>) => {
+    onChange({
+      ...value,
+      departments: value.departments.map((d, i) => (i === index ? { ...d, ...updates } : d)),
+    })
+  }
+
+  const addDepartment = () => {
+    let n = 1
+    while (value.departments.some((d) => d.id === `department_${n}`)) n++
+    onChange({
+      ...value,
+      departments: [...value.departments, { id: `department_${n}`, name: 'New department', aliases: [], patterns: [] }],
+    })
+  }
+
+  const removeDepartment = (index: number) => {
+    onChange({ ...value, departments: value.departments.filter((_, i) => i !== index) })
+  }
+
+  const results = testTitles
+    .split('\n')
+    .map((title) => title.trim())
+    .filter(Boolean)
+    .slice(0, 50)
+    .map((title) => {
+      const classification = classifyTitle(title, value)
+      return { title, classification, level: getTitleLevel(classification, value) }
+    })
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Seniority levels</Label>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Unmatched titles</span>
+            <Select value={value.fallback_level} onValueChange={(fallback_level) => onChange({ ...value, fallback_level })}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {value.seniority_levels.map((level) => (
+                  <SelectItem key={level.id} value={level.id}>
+                    {level.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {value.seniority_levels.map((level, index) => (
+          <div key={index} className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor={`levelName${index}`}>Name</Label>
+                <Input
+                  id={`levelName${index}`}
+                  value={level.name}
+                  onChange={(e) => updateLevel(index, { name: e.target.value })}
+                />
+              </div>
+              <ScoreInput
+                id={`levelAuthority${index}`}
+                label="Authority"
+                value={level.authority_level}
+                onChange={(authority_level) => updateLevel(index, { authority_level })}
+              />
+              <ScoreInput
+                id={`levelDecisionMaker${index}`}
+                label="Decision maker"
+                value={level.decision_maker_likelihood}
+                onChange={(decision_maker_likelihood) => updateLevel(index, { decision_maker_likelihood })}
+              />
+              <ScoreInput
+                id={`levelTitleScore${index}`}
+                label="Title score"
+                value={level.title_score}
+                onChange={(title_score) => updateLevel(index, { title_score })}
+              />
+              <div className="space-y-2">
+                <Label>Buying role</Label>
+                <Select
+                  value={level.buying_role}
+                  onValueChange={(v) => updateLevel(index, { buying_role: v as SeniorityLevel['buying_role'] })}
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BUYING_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {BUYING_ROLE_LABELS[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => moveLevel(index, -1)} disabled={index === 0}>
+                <ChevronUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => moveLevel(index, 1)}
+                disabled={index === value.seniority_levels.length - 1}
+              >
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeLevel(index)}
+                disabled={value.seniority_levels.length <= 1 || level.id === value.fallback_level}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <MatchRulesInput
+              index={index}
+              prefix="level"
+              aliases={level.aliases}
+              patterns={level.patterns}
+              onChange={(updates) => updateLevel(index, updates)}
+            />
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-muted-foreground">
+            Levels are checked top to bottom and the first match wins, so keep senior levels first
+          </p>
+          <Button variant="outline" size="sm" onClick={addLevel} disabled={value.seniority_levels.length >= 20}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add level
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <Label>Departments</Label>
+        {value.departments.map((department, index) => (
+          <div key={index} className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor={`departmentName${index}`}>Name</Label>
+                <Input
+                  id={`departmentName${index}`}
+                  value={department.name}
+                  onChange={(e) => updateDepartment(index, { name: e.target.value })}
+                />
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => removeDepartment(index)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <MatchRulesInput
+              index={index}
+              prefix="department"
+              aliases={department.aliases}
+              patterns={department.patterns}
+              onChange={(updates) => updateDepartment(index, updates)}
+            />
+          </div>
+        ))}
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={addDepartment} disabled={value.departments.length >= 40}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add department
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <Label htmlFor="testTitles">Test titles</Label>
+        <Textarea
+          id="testTitles"
+          value={testTitles}
+          onChange={(e) => setTestTitles(e.target.value)}
+          placeholder="One job title per line"
+          rows={4}
+        />
+        <p className="text-xs text-muted-foreground">
+          Classified with the taxonomy above, including unsaved changes
+        </p>
+        {results.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Title</TableHead>
+                <TableHead>Seniority</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead className="text-right">Authority</TableHead>
+                <TableHead>Matched by</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map(({ title, classification, level }, index) => (
+                <TableRow key={index}>
+                  <TableCell className="font-medium">{title}</TableCell>
+                  <TableCell>
+                    {level.name}
+                    {!classification.level && (
+                      <Badge variant="outline" className="ml-2">
+                        Fallback
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{classification.department?.name || '-'}</TableCell>
+                  <TableCell className="text-right">{level.authority_level.toFixed(2)}</TableCell>
+                  <TableCell className="font-mono text-xs text-muted-foreground">
+                    {[classification.matchedBy.level, classification.matchedBy.department]
+                      .filter(Boolean)
+                      .join(', ') || '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function ScoreInput({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string
+  label: string
+  value: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <div className="w-28 space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        max={1}
+        step={0.05}
+        value={value}
+        onChange={(e) => onChange(Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)))}
+      />
+    </div>
+  )
+}
+
+function MatchRulesInput({
+  index,
+  prefix,
+  aliases,
+  patterns,
+  onChange,
+}: {
+  index: number
+  prefix: string
+  aliases: string[]
+  patterns: string[]
+  onChange: (updates: { aliases?: string[]; patterns?: string[] }) => void
+}) {
+  return (
+    <div className="grid gap-2 md:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor={`${prefix}Aliases${index}`}>Aliases</Label>
+        <Textarea
+          id={`${prefix}Aliases${index}`}
+          value={aliases.join('\n')}
+          onChange={(e) => onChange({ aliases: e.target.value.split('\n') })}
+          placeholder="One per line, e.g. head of"
+          rows={3}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${prefix}Patterns${index}`}>Regex patterns</Label>
+        <Textarea
+          id={`${prefix}Patterns${index}`}
+          value={patterns.join('\n')}
+          onChange={(e) => onChange({ patterns: e.target.value.split('\n') })}
+          placeholder={'One per line, e.g. \\bc(d|s)o\\b'}
+          rows={3}
+          className="font-mono text-xs"
+        />
+      </div>
+      <p className="text-xs text-muted-foreground md:col-span-2">
+        Aliases match whole words, ignoring case and accents. Patterns run against the lowercased title
+        with accents and punctuation removed
+      </p>
+    </div>
+  )
+}
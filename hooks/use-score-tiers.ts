@@ -0,0 +1,49 @@
+'use client'
+
+import * as React from 'react'
+
+import { DEFAULT_SCORE_TIERS } from '@/lib/constants'
+import { resolveScoreTiers } from '@/lib/tiers'
+import type { ScoreTier } from '@/types'
+
+// Shared across components so the settings are fetched once per page load
+let tiersRequest: Promise<ScoreTier[]> | null = null
+
+function fetchScoreTiers(): Promise<ScoreTier[]> {
+  if (!tiersRequest) {
+    tiersRequest = fetch('/api/settings')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => resolveScoreTiers(data?.organization?.settings?.tiers))
+      .catch(() => {
+        tiersRequest = null
+        return DEFAULT_SCORE_TIERS
+      })
+  }
+  return tiersRequest
+}
+
+/**
+ * The organization's score tiers, defaulting to hot/warm/cold until loaded
+ */
+export function useScoreTiers(): ScoreTier[] {
+  const [tiers, setTiers] = React.useState<ScoreTier[]>(DEFAULT_SCORE_TIERS)
+
+  React.useEffect(() => {
+    let cancelled = false
+    fetchScoreTiers().then((loaded) => {
+      if (!cancelled) setTiers(loaded)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return tiers
+}
+
+/**
+ * Drop the cached tiers after they are edited
+ */
+export function invalidateScoreTiers() {
+  tiersRequest = null
+}
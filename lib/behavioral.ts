@@ -0,0 +1,160 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { BehavioralScores, TrackingParams } from '@/lib/features'
+
+// Requalify once the 0-100 behavioral score has moved this far since the
+// lead was last qualified
+export const BEHAVIORAL_REQUALIFY_THRESHOLD = 15
+
+// Behavioral features default to 0.5 without tracking data, which matches a
+// behavioral score of 50 for leads qualified before any events arrived
+const NEUTRAL_BEHAVIORAL_SCORE = 50
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000
+// Lead ids per .in() filter
+const CHUNK_SIZE = 100
+
+// Component scores read by extractFeatures are stored 0-100 but passed on as
+// 0-1, so a stored score of 1 isn't mistaken for an already-normalized 100%
+const COMPONENT_SCORES: (keyof BehavioralScores)[] = [
+  'engagement_score',
+  'intent_score',
+  'recency_score',
+  'frequency_score',
+]
+
+const TRACKING_FIELDS = [
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'fbclid',
+  'gclid',
+  'ttclid',
+] as const
+
+/**
+ * Pixel and ad-click signals for a lead, as used by feature extraction
+ */
+export interface LeadBehavior {
+  behavioral?: BehavioralScores
+  tracking?: TrackingParams
+}
+
+/**
+ * Get behavioral scores and tracking parameters for a lead
+ */
+export async function getLeadBehavior(leadId: string): Promise<LeadBehavior> {
+  const byLead = await getLeadBehaviorForLeads([leadId])
+  return byLead[leadId] || {}
+}
+
+/**
+ * Get behavioral scores and tracking parameters for several leads. A lead can
+ * have several tracking rows (one per visitor or click); the most recent
+ * non-empty value wins for each parameter.
+ */
+export async function getLeadBehaviorForLeads(
+  leadIds: string[]
+): Promise<Record<string, LeadBehavior>> {
+  const supabase = createAdminClient()
+  const result: Record<string, LeadBehavior> = {}
+
+  for (let i = 0; i < leadIds.length; i += CHUNK_SIZE) {
+    const chunk = leadIds.slice(i, i + CHUNK_SIZE)
+
+    const { data: scores } = await supabase
+      .from('behavioral_scores')
+      .select('*')
+      .in('lead_id', chunk)
+
+    for (const row of scores || []) {
+      const set = (result[row.lead_id] ||= {})
+      set.behavioral = toBehavioralScores(row)
+    }
+
+    // A chunk of leads can carry more than a page of tracking rows
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: tracking } = await supabase
+        .from('lead_tracking')
+        .select(`lead_id, ${TRACKING_FIELDS.join(', ')}`)
+        .in('lead_id', chunk)
+        .order('last_touch_at', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1)
+
+      for (const row of (tracking || []) as unknown as Array<{ lead_id: string } & Record<string, string | null>>) {
+        const set = (result[row.lead_id] ||= {})
+        const params = (set.tracking ||= {})
+        for (const field of TRACKING_FIELDS) {
+          if (!params[field] && row[field]) {
+            params[field] = row[field] as string
+          }
+        }
+      }
+      if (!tracking || tracking.length < PAGE_SIZE) break
+    }
+  }
+
+  return result
+}
+
+/**
+ * Record the behavioral score a lead was just qualified with
+ */
+export async function markBehaviorQualified(
+  leadId: string,
+  behavioral?: BehavioralScores
+): Promise<void> {
+  if (behavioral?.behavioral_score === undefined) return
+
+  const supabase = createAdminClient()
+
+  await supabase
+    .from('behavioral_scores')
+    .update({ qualified_behavioral_score: behavioral.behavioral_score })
+    .eq('lead_id', leadId)
+}
+
+/**
+ * Whether a new behavioral score differs enough from the one the lead was
+ * last qualified with to be worth requalifying
+ */
+export function hasSignificantBehaviorChange(
+  behavioralScore: number,
+  qualifiedBehavioralScore: number | null
+): boolean {
+  const baseline = qualifiedBehavioralScore ?? NEUTRAL_BEHAVIORAL_SCORE
+  return Math.abs(behavioralScore - baseline) >= BEHAVIORAL_REQUALIFY_THRESHOLD
+}
+
+// Numeric columns can come back as strings; drop nulls so feature defaults apply
+function toBehavioralScores(row: Record<string, unknown>): BehavioralScores {
+  const scores: Record<string, number> = {}
+  const keys: (keyof BehavioralScores)[] = [
+    'total_page_views',
+    'unique_pages_viewed',
+    'total_time_on_site',
+    'pricing_page_views',
+    'demo_page_views',
+    'case_study_views',
+    'feature_page_views',
+    'forms_started',
+    'forms_completed',
+    'cta_clicks',
+    'days_since_first_visit',
+    'days_since_last_visit',
+    'visit_frequency',
+    'engagement_score',
+    'intent_score',
+    'recency_score',
+    'frequency_score',
+    'behavioral_score',
+  ]
+
+  for (const key of keys) {
+    const value = row[key]
+    if (value === null || value === undefined || isNaN(Number(value))) continue
+    scores[key] = COMPONENT_SCORES.includes(key) ? Number(value) / 100 : Number(value)
+  }
+
+  return scores as BehavioralScores
+}
@@ -0,0 +1,182 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { PERSONAL_EMAIL_DOMAINS, DISPOSABLE_EMAIL_DOMAINS } from '@/lib/constants'
+import type { CompanyResearch } from '@/lib/enrich'
+import type { Lead } from '@/types'
+
+/**
+ * Company research shared across leads. Leads are grouped by the domain of
+ * their company website, or of their email when it isn't a free mailbox,
+ * and reuse one profile until it expires. Only leads whose email domain
+ * matches their website may write a profile, so a made-up submission can't
+ * set the research every other lead from that domain reads.
+ */
+
+// How long a profile is reused before the company is researched again
+export const COMPANY_PROFILE_TTL_DAYS = 30
+
+export interface CompanyProfile {
+  id: string
+  organizationId: string
+  domain: string
+  companyName: string | null
+  research: CompanyResearch
+  confidence: number | null
+  source: string
+  refreshedAt: string
+  expiresAt: string
+}
+
+/**
+ * Bare lowercase host of a URL, hostname or email address, without "www."
+ */
+export function normalizeDomain(value: string | null | undefined): string | null {
+  if (!value) return null
+
+  let host = value.trim().toLowerCase()
+  if (host.includes('@')) {
+    host = host.slice(host.lastIndexOf('@') + 1)
+  }
+  host = host
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .split(/[/?#]/)[0]
+    .replace(/:\d+$/, '')
+    .replace(/^www\./, '')
+    .replace(/\.$/, '')
+
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host) ? host : null
+}
+
+/**
+ * The domain a lead's company is known by, or null when there is none
+ */
+export function getCompanyDomain(lead: Pick<Lead, 'company_website' | 'email'>): string | null {
+  const website = normalizeDomain(lead.company_website)
+  if (website) return website
+
+  const emailDomain = normalizeDomain(lead.email)
+  if (
+    !emailDomain ||
+    PERSONAL_EMAIL_DOMAINS.includes(emailDomain) ||
+    DISPOSABLE_EMAIL_DOMAINS.includes(emailDomain)
+  ) {
+    return null
+  }
+  return emailDomain
+}
+
+/**
+ * The lead's company domain (as getCompanyDomain finds it, so profiles are
+ * saved under the key they're looked up by) when its email domain and
+ * website agree, either being a subdomain of the other; else null. Only these
+ * leads may create or refresh a shared profile.
+ */
+export function getVerifiedCompanyDomain(lead: Pick<Lead, 'company_website' | 'email'>): string | null {
+  const website = normalizeDomain(lead.company_website)
+  const emailDomain = normalizeDomain(lead.email)
+  if (!website || !emailDomain) return null
+
+  const agree = website === emailDomain
+    || website.endsWith(`.${emailDomain}`)
+    || emailDomain.endsWith(`.${website}`)
+  return agree ? getCompanyDomain(lead) : null
+}
+
+/**
+ * The organization's profile for a domain, if it hasn't expired
+ */
+export async function getFreshCompanyProfile(
+  organizationId: string,
+  domain: string
+): Promise<CompanyProfile | null> {
+  const supabase = createAdminClient()
+
+  const { data } = await supabase
+    .from('company_profiles')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('domain', domain)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle()
+
+  return data ? mapCompanyProfile(data) : null
+}
+
+/**
+ * Create or refresh the profile for a domain with new research
+ */
+export async function saveCompanyProfile(
+  organizationId: string,
+  domain: string,
+  companyName: string | null,
+  research: CompanyResearch,
+  source = 'claude'
+): Promise<CompanyProfile> {
+  const supabase = createAdminClient()
+  const now = new Date()
+
+  const { data, error } = await supabase
+    .from('company_profiles')
+    .upsert(
+      {
+        organization_id: organizationId,
+        domain,
+        company_name: companyName,
+        research,
+        confidence: research.confidence,
+        source,
+        refreshed_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + COMPANY_PROFILE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      },
+      { onConflict: 'organization_id,domain' }
+    )
+    .select()
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to save company profile: ${error?.message || 'Unknown error'}`)
+  }
+
+  return mapCompanyProfile(data)
+}
+
+/**
+ * Point a lead at its company's profile
+ */
+export async function linkLeadToCompanyProfile(leadId: string, profileId: string): Promise<void> {
+  const supabase = createAdminClient()
+
+  await supabase
+    .from('leads')
+    .update({ company_profile_id: profileId })
+    .eq('id', leadId)
+}
+
+/**
+ * A company_profiles row as PostgREST returns it; numeric columns may
+ * arrive as strings
+ */
+interface CompanyProfileRow {
+  id: string
+  organization_id: string
+  domain: string
+  company_name: string | null
+  research: CompanyResearch
+  confidence: number | string | null
+  source: string
+  refreshed_at: string
+  expires_at: string
+}
+
+function mapCompanyProfile(data: CompanyProfileRow): CompanyProfile {
+  return {
+    id: data.id,
+    organizationId: data.organization_id,
+    domain: data.domain,
+    companyName: data.company_name,
+    research: data.research,
+    confidence: data.confidence !== null ? Number(data.confidence) : null,
+    source: data.source,
+    refreshedAt: data.refreshed_at,
+    expiresAt: data.expires_at,
+  }
+}
@@ -45,7 +45,37 @@ export const LEAD_STATUSES = [
   'archived',
 ] as const
 
-export const QUALIFICATION_LABELS = ['hot', 'warm', 'cold'] as const
+// Default score tiers, highest first. Organizations can replace these in
+// settings; the tier id is what gets stored as the lead label.
+export const DEFAULT_SCORE_TIERS = [
+  { id: 'hot', name: 'Hot', min_score: 80, color: '#16a34a' },
+  { id: 'warm', name: 'Warm', min_score: 50, color: '#f59e0b' },
+  { id: 'cold', name: 'Cold', min_score: 0, color: '#ef4444' },
+]
+
+// How a lead's score was produced: validated model output, output that needed
+// a repair round-trip, or the learned-weights fallback when the model failed
+export const SCORE_SOURCES = ['llm', 'llm_repaired', 'ml_fallback'] as const
+
+export const QUALIFICATION_JOB_STATUSES = [
+  'queued',
+  'running',
+  'completed',
+  'failed',
+  'cancelled',
+] as const
+
+export const REQUALIFICATION_BATCH_STATUSES = ['running', 'completed', 'cancelled'] as const
+
+export const LLM_PROVIDERS = ['anthropic', 'stub'] as const
+
+export const LLM_MODELS = [
+  { value: 'claude-sonnet-4-20250514', label: 'Claude Sonnet 4' },
+  { value: 'claude-opus-4-20250514', label: 'Claude Opus 4' },
+  { value: 'claude-3-5-haiku-20241022', label: 'Claude 3.5 Haiku' },
+] as const
+
+export const DEFAULT_LLM_MODEL = 'claude-sonnet-4-20250514'
 
 export const USER_ROLES = ['admin', 'manager', 'viewer'] as const
 
@@ -58,6 +88,423 @@ export const CRITERION_TYPES = [
   'custom',
 ] as const
 
+// Where a custom criterion's feature reads its value from; unset searches all of them
+export const FEATURE_SOURCE_TYPES = ['lead_field', 'custom_field', 'enrichment'] as const
+
+// Lead columns a custom criterion can read
+export const CUSTOM_FEATURE_LEAD_FIELDS = [
+  'job_title',
+  'company_name',
+  'company_website',
+  'company_size',
+  'industry',
+  'budget_range',
+  'timeline',
+  'challenge',
+] as const
+
+// Enrichment values a custom criterion can read; all of them are searched
+// when it has no explicit source
+export const CUSTOM_FEATURE_ENRICHMENT_PATHS = [
+  'company.technology_indicators',
+  'company.growth_signals',
+  'company.pain_points',
+  'company.detected_technologies',
+  'company.summary',
+  'intent.urgency_indicators',
+  'intent.summary',
+  'authority.buying_role',
+  'contact.email_type',
+] as const
+
+// Free mailbox providers; their domains say nothing about the lead's company
+export const PERSONAL_EMAIL_DOMAINS = [
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'yahoo.co.uk', 'yahoo.fr', 'yahoo.de', 'ymail.com',
+  'hotmail.com', 'hotmail.co.uk', 'hotmail.fr', 'hotmail.de', 'outlook.com', 'live.com', 'msn.com',
+  'aol.com', 'icloud.com', 'me.com', 'mac.com', 'protonmail.com', 'proton.me', 'zoho.com', 'gmx.com',
+  'gmx.de', 'gmx.net', 'web.de', 't-online.de', 'orange.fr', 'free.fr', 'laposte.net', 'libero.it',
+  'mail.ru', 'yandex.ru', 'yandex.com', 'qq.com', '163.com', '126.com', 'naver.com', 'fastmail.com',
+]
+
+// Throwaway mailbox services; subdomains count too
+export const DISPOSABLE_EMAIL_DOMAINS = [
+  'mailinator.com', 'guerrillamail.com', 'guerrillamail.net', 'sharklasers.com', '10minutemail.com',
+  'temp-mail.org', 'tempmail.com', 'tempmailo.com', 'throwawaymail.com', 'yopmail.com', 'yopmail.fr',
+  'trashmail.com', 'getnada.com', 'nada.email', 'dispostable.com', 'maildrop.cc', 'mailnesia.com',
+  'mintemail.com', 'fakeinbox.com', 'spamgourmet.com', 'emailondeck.com', 'mohmal.com', 'moakt.com',
+  'burnermail.io', 'tempr.email', 'discard.email', 'mailcatch.com', 'spambox.us', 'mytemp.email',
+]
+
+// Local parts that reach a team inbox rather than a person
+export const ROLE_EMAIL_PREFIXES = [
+  'info', 'sales', 'admin', 'administrator', 'support', 'contact', 'hello', 'office', 'marketing', 'team',
+  'help', 'billing', 'accounts', 'finance', 'hr', 'jobs', 'careers', 'enquiries', 'inquiries', 'service',
+  'noreply', 'no-reply', 'webmaster', 'postmaster', 'abuse', 'press', 'media', 'kontakt', 'vertrieb',
+  'contacto', 'ventas', 'bonjour', 'hola',
+]
+
+// Technologies recognized in a website's HTML, by markers (lowercase
+// substrings) their scripts, assets or generator tags leave behind
+export const WEBSITE_TECHNOLOGIES = [
+  { name: 'HubSpot', markers: ['js.hs-scripts.com', 'js.hsforms.net', 'js.hs-analytics.net'] },
+  { name: 'Salesforce Pardot', markers: ['pi.pardot.com', 'pardot.com/pd.js'] },
+  { name: 'Marketo', markers: ['munchkin.marketo.net', 'marketo.com/js/forms2'] },
+  { name: 'Google Analytics', markers: ['google-analytics.com/analytics.js', 'googletagmanager.com/gtag/js'] },
+  { name: 'Google Tag Manager', markers: ['googletagmanager.com/gtm.js'] },
+  { name: 'Segment', markers: ['cdn.segment.com'] },
+  { name: 'Mixpanel', markers: ['cdn.mxpnl.com', 'mixpanel.com/libs'] },
+  { name: 'Amplitude', markers: ['cdn.amplitude.com'] },
+  { name: 'Hotjar', markers: ['static.hotjar.com'] },
+  { name: 'Intercom', markers: ['widget.intercom.io', 'js.intercomcdn.com'] },
+  { name: 'Drift', markers: ['js.driftt.com'] },
+  { name: 'Zendesk', markers: ['static.zdassets.com'] },
+  { name: 'LinkedIn Insight Tag', markers: ['snap.licdn.com'] },
+  { name: 'Meta Pixel', markers: ['connect.facebook.net/en_us/fbevents.js', 'fbevents.js'] },
+  { name: 'Stripe', markers: ['js.stripe.com'] },
+  { name: 'Calendly', markers: ['assets.calendly.com'] },
+  { name: 'Optimizely', markers: ['cdn.optimizely.com'] },
+  { name: 'WordPress', markers: ['/wp-content/', '/wp-includes/'] },
+  { name: 'Shopify', markers: ['cdn.shopify.com'] },
+  { name: 'Webflow', markers: ['data-wf-site', 'assets.website-files.com'] },
+  { name: 'Wix', markers: ['static.wixstatic.com'] },
+  { name: 'Squarespace', markers: ['static1.squarespace.com'] },
+  { name: 'Next.js', markers: ['__next_data__', '/_next/static/'] },
+  { name: 'Nuxt', markers: ['__nuxt__', '/_nuxt/'] },
+  { name: 'Gatsby', markers: ['___gatsby'] },
+  { name: 'Angular', markers: ['ng-version='] },
+  { name: 'jQuery', markers: ['jquery.min.js', 'code.jquery.com'] },
+  { name: 'Cloudflare', markers: ['cdn-cgi/'] },
+]
+
+export const EMAIL_TYPES = ['corporate', 'free', 'role_based', 'disposable', 'invalid'] as const
+
+// E.164 country calling codes with the national number lengths each allows.
+// +1 is shared across North America and reported as US.
+export const PHONE_COUNTRY_CODES = [
+  { code: '1', country: 'US', min: 10, max: 10 },
+  { code: '7', country: 'RU', min: 10, max: 10 },
+  { code: '27', country: 'ZA', min: 9, max: 9 },
+  { code: '30', country: 'GR', min: 10, max: 10 },
+  { code: '31', country: 'NL', min: 9, max: 9 },
+  { code: '32', country: 'BE', min: 8, max: 9 },
+  { code: '33', country: 'FR', min: 9, max: 9 },
+  { code: '34', country: 'ES', min: 9, max: 9 },
+  { code: '36', country: 'HU', min: 8, max: 9 },
+  { code: '39', country: 'IT', min: 6, max: 11 },
+  { code: '40', country: 'RO', min: 9, max: 9 },
+  { code: '41', country: 'CH', min: 9, max: 9 },
+  { code: '43', country: 'AT', min: 4, max: 13 },
+  { code: '44', country: 'GB', min: 9, max: 10 },
+  { code: '45', country: 'DK', min: 8, max: 8 },
+  { code: '46', country: 'SE', min: 7, max: 10 },
+  { code: '47', country: 'NO', min: 8, max: 8 },
+  { code: '48', country: 'PL', min: 9, max: 9 },
+  { code: '49', country: 'DE', min: 6, max: 13 },
+  { code: '51', country: 'PE', min: 8, max: 9 },
+  { code: '52', country: 'MX', min: 10, max: 10 },
+  { code: '54', country: 'AR', min: 10, max: 11 },
+  { code: '55', country: 'BR', min: 10, max: 11 },
+  { code: '56', country: 'CL', min: 9, max: 9 },
+  { code: '57', country: 'CO', min: 10, max: 10 },
+  { code: '60', country: 'MY', min: 8, max: 10 },
+  { code: '61', country: 'AU', min: 9, max: 9 },
+  { code: '62', country: 'ID', min: 8, max: 12 },
+  { code: '63', country: 'PH', min: 10, max: 10 },
+  { code: '64', country: 'NZ', min: 8, max: 10 },
+  { code: '65', country: 'SG', min: 8, max: 8 },
+  { code: '66', country: 'TH', min: 8, max: 9 },
+  { code: '81', country: 'JP', min: 9, max: 10 },
+  { code: '82', country: 'KR', min: 8, max: 10 },
+  { code: '84', country: 'VN', min: 9, max: 10 },
+  { code: '86', country: 'CN', min: 10, max: 11 },
+  { code: '90', country: 'TR', min: 10, max: 10 },
+  { code: '91', country: 'IN', min: 10, max: 10 },
+  { code: '92', country: 'PK', min: 10, max: 10 },
+  { code: '234', country: 'NG', min: 8, max: 10 },
+  { code: '254', country: 'KE', min: 9, max: 9 },
+  { code: '351', country: 'PT', min: 9, max: 9 },
+  { code: '352', country: 'LU', min: 6, max: 11 },
+  { code: '353', country: 'IE', min: 7, max: 9 },
+  { code: '358', country: 'FI', min: 6, max: 10 },
+  { code: '370', country: 'LT', min: 8, max: 8 },
+  { code: '371', country: 'LV', min: 8, max: 8 },
+  { code: '372', country: 'EE', min: 7, max: 8 },
+  { code: '380', country: 'UA', min: 9, max: 9 },
+  { code: '420', country: 'CZ', min: 9, max: 9 },
+  { code: '421', country: 'SK', min: 9, max: 9 },
+  { code: '852', country: 'HK', min: 8, max: 8 },
+  { code: '886', country: 'TW', min: 8, max: 9 },
+  { code: '966', country: 'SA', min: 9, max: 9 },
+  { code: '971', country: 'AE', min: 8, max: 9 },
+  { code: '972', country: 'IL', min: 8, max: 9 },
+]
+
+// Enrichment types a provider can fill
+export const ENRICHMENT_TYPES = [
+  'company_research',
+  'intent_analysis',
+  'authority_assessment',
+  'contact_validation',
+] as const
+
+export const ENRICHMENT_PROVIDER_TYPES = ['llm', 'rules', 'csv_lookup', 'http'] as const
+
+// How a field is chosen when several providers return it: the highest
+// priority provider's value, the most confident one, or all list items
+export const ENRICHMENT_MERGE_STRATEGIES = ['priority', 'highest_confidence', 'union'] as const
+
+// Fields of each enrichment type and the shape provider values are coerced to
+export const ENRICHMENT_FIELDS = {
+  company_research: {
+    company_size_estimate: 'text',
+    technology_indicators: 'list',
+    growth_signals: 'list',
+    pain_points: 'list',
+    health_score: 'number',
+    confidence: 'number',
+    summary: 'text',
+    website_title: 'text',
+    website_description: 'text',
+    detected_technologies: 'list',
+    contact_pages: 'list',
+    website_sources: 'list',
+    citations: 'list',
+  },
+  intent_analysis: {
+    problem_awareness: 'number',
+    solution_awareness: 'number',
+    urgency_indicators: 'list',
+    authority_to_purchase: 'number',
+    buying_intent_score: 'number',
+    urgency_score: 'number',
+    summary: 'text',
+  },
+  authority_assessment: {
+    decision_maker_likelihood: 'number',
+    title_seniority: 'text',
+    buying_role: 'text',
+    authority_level: 'number',
+    department: 'text',
+  },
+  contact_validation: {
+    email_type: 'text',
+    email_domain: 'text',
+    email_syntax_valid: 'boolean',
+    email_role_based: 'boolean',
+    email_mx_valid: 'boolean',
+    phone_e164: 'text',
+    phone_country: 'text',
+    phone_valid: 'boolean',
+    contact_quality_score: 'number',
+  },
+} as const
+
+// Providers used when an organization hasn't configured any: the LLM
+// researches the company and intent, rules assess authority and validate
+// contact details
+export const DEFAULT_ENRICHMENT_PROVIDERS = [
+  {
+    id: 'llm',
+    name: 'AI analysis',
+    type: 'llm' as const,
+    enabled: true,
+    enrichment_types: ['company_research' as const, 'intent_analysis' as const],
+    priority: 10,
+  },
+  {
+    id: 'rules',
+    name: 'Title rules',
+    type: 'rules' as const,
+    enabled: true,
+    enrichment_types: ['authority_assessment' as const, 'contact_validation' as const],
+    priority: 20,
+  },
+]
+
+export const BUYING_ROLES = ['decision_maker', 'influencer', 'user'] as const
+
+// Default title taxonomy. Levels are checked in order and the first match
+// wins, so more senior levels come first; aliases match whole words with
+// case and accents ignored, patterns are regexes over that same normalized
+// title. Titles matching nothing are treated as the fallback level.
+export const DEFAULT_TITLE_TAXONOMY = {
+  seniority_levels: [
+    {
+      id: 'executive',
+      name: 'Executive',
+      aliases: [
+        'ceo', 'cto', 'cfo', 'coo', 'cmo', 'cio', 'cro', 'cpo', 'chief', 'president', 'owner', 'founder',
+        'co-founder', 'managing partner', 'general partner', 'founding partner',
+        // German
+        'geschäftsführer', 'geschäftsführerin', 'geschaeftsfuehrer', 'vorstand', 'vorstandsvorsitzender',
+        'inhaber', 'inhaberin', 'gründer', 'gruender',
+        // French
+        'pdg', 'président', 'directeur général', 'directrice générale', 'fondateur', 'fondatrice', 'gérant',
+        // Spanish / Portuguese
+        'director general', 'directora general', 'director ejecutivo', 'consejero delegado', 'gerente general',
+        'fundador', 'fundadora', 'presidente', 'propietario', 'diretor executivo', 'diretor geral',
+        // Italian / Dutch
+        'amministratore delegato', 'titolare', 'fondatore', 'eigenaar', 'oprichter', 'algemeen directeur',
+      ],
+      // Other C-level acronyms: CDO, CSO, CXO, CHRO, CISO, CCO, CAO
+      patterns: ['\\bc(d|s|x|hr|is|c|a)o\\b'],
+      authority_level: 1.0,
+      decision_maker_likelihood: 0.95,
+      buying_role: 'decision_maker' as const,
+      title_score: 1.0,
+    },
+    {
+      id: 'vp',
+      name: 'VP / Head of',
+      aliases: [
+        'vp', 'svp', 'evp', 'avp', 'vice president', 'head of',
+        'vizepräsident', 'bereichsleiter', 'bereichsleiterin',
+        'vice-président', 'vicepresidente', 'vice presidente', 'jefe de área', 'hoofd',
+      ],
+      patterns: [],
+      authority_level: 0.9,
+      decision_maker_likelihood: 0.85,
+      buying_role: 'decision_maker' as const,
+      title_score: 0.9,
+    },
+    {
+      id: 'director',
+      name: 'Director',
+      aliases: [
+        'director', 'directora', 'managing director', 'directeur', 'directrice', 'direktor', 'direktorin',
+        'diretor', 'diretora', 'direttore', 'direttrice', 'abteilungsleiter', 'abteilungsleiterin', 'leiter',
+        'leiterin',
+      ],
+      // German compounds like Vertriebsleiter, except team and project leads
+      patterns: ['(?<!team|gruppen|projekt)leiter(in)?\\b'],
+      authority_level: 0.75,
+      decision_maker_likelihood: 0.7,
+      buying_role: 'influencer' as const,
+      title_score: 0.8,
+    },
+    {
+      id: 'manager',
+      name: 'Manager',
+      aliases: [
+        'manager', 'managerin', 'team lead', 'team leader', 'supervisor', 'teamleiter', 'teamleiterin',
+        'gruppenleiter', 'projektleiter', 'responsable', 'chef de', 'gerente', 'jefe', 'jefa', 'encargado',
+        'responsabile', 'teamleider',
+      ],
+      patterns: [],
+      authority_level: 0.6,
+      decision_maker_likelihood: 0.5,
+      buying_role: 'influencer' as const,
+      title_score: 0.65,
+    },
+    {
+      id: 'senior_contributor',
+      name: 'Senior / lead contributor',
+      aliases: ['senior', 'sr', 'lead', 'principal', 'staff', 'architect', 'leitender', 'sênior'],
+      patterns: [],
+      authority_level: 0.45,
+      decision_maker_likelihood: 0.3,
+      buying_role: 'influencer' as const,
+      title_score: 0.6,
+    },
+    {
+      id: 'individual_contributor',
+      name: 'Individual contributor',
+      aliases: [
+        'analyst', 'associate', 'coordinator', 'specialist', 'assistant', 'intern',
+        'sachbearbeiter', 'referent', 'referentin', 'praktikant', 'werkstudent', 'assistent', 'assistentin',
+        'stagiaire', 'chargé', 'chargée', 'analista', 'asistente', 'becario', 'coordinador',
+        'especialista', 'estagiário', 'assistente', 'stagista', 'medewerker',
+      ],
+      patterns: [],
+      authority_level: 0.3,
+      decision_maker_likelihood: 0.2,
+      buying_role: 'user' as const,
+      title_score: 0.35,
+    },
+  ],
+  departments: [
+    {
+      id: 'sales',
+      name: 'Sales',
+      aliases: [
+        'sales', 'business development', 'account executive', 'account manager', 'revenue', 'bdr', 'sdr', 'cro',
+        'vertrieb', 'verkauf', 'ventes', 'commercial', 'commerciale', 'ventas', 'comercial', 'vendas',
+        'vendite', 'verkoop',
+      ],
+      patterns: ['vertriebs\\w*'],
+    },
+    {
+      id: 'marketing',
+      name: 'Marketing',
+      aliases: [
+        'marketing', 'growth', 'demand generation', 'brand', 'communications', 'cmo',
+        'kommunikation', 'communication', 'comunicación', 'comunicação', 'comunicazione', 'mercadeo',
+      ],
+      patterns: [],
+    },
+    {
+      id: 'engineering',
+      name: 'Engineering',
+      aliases: [
+        'engineering', 'engineer', 'developer', 'software', 'development', 'devops', 'cto',
+        'entwicklung', 'entwickler', 'technik', 'ingenieur', 'ingénieur', 'développement', 'développeur',
+        'ingeniero', 'ingeniería', 'desarrollo', 'desarrollador', 'engenharia', 'sviluppo',
+      ],
+      patterns: [],
+    },
+    {
+      id: 'product',
+      name: 'Product',
+      aliases: ['product', 'ux', 'design', 'cpo', 'produkt', 'produit', 'producto', 'produto', 'prodotto'],
+      patterns: [],
+    },
+    {
+      id: 'it',
+      name: 'IT',
+      aliases: [
+        'it', 'information technology', 'infrastructure', 'security', 'cio', 'ciso',
+        'informatik', 'edv', 'informatique', 'sistemas', 'informática', 'tecnologia', 'informatica',
+      ],
+      patterns: [],
+    },
+    {
+      id: 'finance',
+      name: 'Finance',
+      aliases: [
+        'finance', 'financial', 'accounting', 'controller', 'controlling', 'procurement', 'purchasing', 'cfo',
+        'finanzen', 'buchhaltung', 'einkauf', 'finances', 'comptabilité', 'achats', 'finanzas', 'contabilidad',
+        'compras', 'finanças', 'finanza', 'acquisti',
+      ],
+      patterns: [],
+    },
+    {
+      id: 'operations',
+      name: 'Operations',
+      aliases: [
+        'operations', 'ops', 'supply chain', 'logistics', 'coo',
+        'betrieb', 'logistik', 'opérations', 'logistique', 'operaciones', 'logística', 'operações', 'operazioni',
+      ],
+      patterns: [],
+    },
+    {
+      id: 'hr',
+      name: 'HR / People',
+      aliases: [
+        'hr', 'human resources', 'people', 'talent', 'recruiting', 'recruiter', 'chro',
+        'personalwesen', 'personalabteilung', 'ressources humaines', 'rrhh', 'recursos humanos', 'risorse umane',
+      ],
+      patterns: [],
+    },
+    {
+      id: 'customer_success',
+      name: 'Customer success',
+      aliases: ['customer success', 'customer service', 'support', 'kundenservice', 'service client', 'atención al cliente'],
+      patterns: [],
+    },
+  ],
+  fallback_level: 'individual_contributor',
+}
+
 export const WEBHOOK_EVENTS = [
   'lead.created',
   'lead.qualified',
@@ -0,0 +1,296 @@
+/**
+ * Contact Validation
+ * Offline checks of a lead's email and phone: email type from bundled domain
+ * lists, syntax, a pluggable mail-server check, and E.164 phone numbers
+ */
+
+import {
+  PERSONAL_EMAIL_DOMAINS,
+  DISPOSABLE_EMAIL_DOMAINS,
+  ROLE_EMAIL_PREFIXES,
+  PHONE_COUNTRY_CODES,
+  EMAIL_TYPES,
+} from '@/lib/constants'
+import { normalizeDomain } from '@/lib/company-profiles'
+import type { Lead } from '@/types'
+
+export type EmailType = (typeof EMAIL_TYPES)[number]
+
+/**
+ * Contact validation enrichment data. Mail server and phone fields are null
+ * when there was nothing to check or the check couldn't tell.
+ */
+export interface ContactValidation {
+  email_type: EmailType | null
+  email_domain: string | null
+  email_syntax_valid: boolean
+  email_role_based: boolean
+  email_mx_valid: boolean | null
+  phone_e164: string | null
+  phone_country: string | null // ISO 3166-1 alpha-2
+  phone_valid: boolean | null
+  contact_quality_score: number // 0-1
+}
+
+/**
+ * Answers whether a domain accepts mail: true, false, or null when unknown
+ */
+export interface MxResolver {
+  readonly name: string
+  hasMailServer(domain: string): Promise<boolean | null>
+}
+
+// Reserved by RFC 2606 / 6761; never deliverable
+const RESERVED_DOMAIN = /(^|\.)(example\.(com|net|org)|test|example|invalid|localhost|local)$/
+
+// Pragmatic address syntax: dot-atom local part, hostname labels, alphabetic TLD
+const EMAIL_LOCAL_PART = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/
+const DOMAIN_LABEL = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/
+const TOP_LEVEL_DOMAIN = /^([a-z]{2,24}|xn--[a-z0-9-]{1,59})$/
+
+const DNS_TIMEOUT_MS = 3000
+
+// Country-code TLDs mostly registered as generic names (.co, .io, .me, ...)
+const GENERIC_COUNTRY_TLDS = ['co', 'io', 'ai', 'me', 'tv', 'fm', 'ly', 'gg', 'to', 'so', 'sh', 'cc', 'ws']
+
+/**
+ * Offline resolver: rules out reserved domains and vouches for known mailbox
+ * providers; anything else is unknown
+ */
+export const heuristicMxResolver: MxResolver = {
+  name: 'heuristic',
+  async hasMailServer(domain) {
+    if (RESERVED_DOMAIN.test(domain)) return false
+    if (isListedDomain(domain, PERSONAL_EMAIL_DOMAINS) || isListedDomain(domain, DISPOSABLE_EMAIL_DOMAINS)) {
+      return true
+    }
+    return null
+  },
+}
+
+/**
+ * Resolver backed by live DNS. Domains without MX records fall back to an
+ * address record, as mail delivery does (RFC 5321 implicit MX).
+ */
+export function createDnsMxResolver(timeoutMs: number = DNS_TIMEOUT_MS): MxResolver {
+  return {
+    name: 'dns',
+    async hasMailServer(domain) {
+      const offline = await heuristicMxResolver.hasMailServer(domain)
+      if (offline === false) return false
+
+      const { promises: dns } = await import('dns')
+      const lookup = async (): Promise<boolean | null> => {
+        try {
+          const records = await dns.resolveMx(domain)
+          if (records.some((r) => r.exchange && r.exchange !== '.')) return true
+          // A null MX ("." exchange) explicitly refuses mail
+          if (records.length > 0) return false
+        } catch (error) {
+          const code = (error as NodeJS.ErrnoException).code
+          if (code === 'ENOTFOUND') return false
+          if (code !== 'ENODATA') return null
+        }
+        try {
+          return (await dns.resolve4(domain)).length > 0
+        } catch {
+          return false
+        }
+      }
+
+      let timeoutId: ReturnType<typeof setTimeout> | undefined
+      const timeout = new Promise<null>((resolve) => {
+        timeoutId = setTimeout(() => resolve(null), timeoutMs)
+      })
+      try {
+        return await Promise.race([lookup(), timeout])
+      } finally {
+        clearTimeout(timeoutId)
+      }
+    },
+  }
+}
+
+/**
+ * Validate a lead's email and phone and score how reachable they are
+ */
+export async function validateContact(
+  lead: Lead,
+  resolver: MxResolver = heuristicMxResolver
+): Promise<ContactValidation> {
+  const email = await validateEmail(lead.email, resolver)
+  const phone = normalizePhone(lead.phone, getCountryHint(lead))
+
+  return {
+    ...email,
+    phone_e164: phone?.e164 ?? null,
+    phone_country: phone?.country ?? null,
+    phone_valid: phone ? phone.valid : null,
+    contact_quality_score: scoreContactQuality(lead, email, phone?.valid ?? null),
+  }
+}
+
+/**
+ * Classify and check an email address
+ */
+export async function validateEmail(
+  value: string | null,
+  resolver: MxResolver = heuristicMxResolver
+): Promise<Pick<ContactValidation, 'email_type' | 'email_domain' | 'email_syntax_valid' | 'email_role_based' | 'email_mx_valid'>> {
+  const email = (value || '').trim().toLowerCase()
+  if (!email) {
+    return { email_type: null, email_domain: null, email_syntax_valid: false, email_role_based: false, email_mx_valid: null }
+  }
+
+  const at = email.lastIndexOf('@')
+  const localPart = at > 0 ? email.slice(0, at) : ''
+  const domain = at > 0 ? email.slice(at + 1) : ''
+  const syntaxValid = isValidEmailSyntax(localPart, domain)
+  // Sub-addresses (jane+leads@) belong to the same mailbox
+  const roleBased = ROLE_EMAIL_PREFIXES.includes(localPart.split('+')[0])
+
+  if (!syntaxValid) {
+    return {
+      email_type: 'invalid',
+      email_domain: domain || null,
+      email_syntax_valid: false,
+      email_role_based: roleBased,
+      email_mx_valid: null,
+    }
+  }
+
+  let mxValid: boolean | null = null
+  try {
+    mxValid = await resolver.hasMailServer(domain)
+  } catch (error) {
+    console.error(`Mail server check (${resolver.name}) failed for ${domain}:`, error)
+  }
+
+  // role_based is a shared inbox at a work domain; info@ at a free mailbox
+  // is still a free address (email_role_based records the prefix either way)
+  let emailType: EmailType = 'corporate'
+  if (isListedDomain(domain, DISPOSABLE_EMAIL_DOMAINS)) emailType = 'disposable'
+  else if (PERSONAL_EMAIL_DOMAINS.includes(domain)) emailType = 'free'
+  else if (roleBased) emailType = 'role_based'
+
+  return {
+    email_type: emailType,
+    email_domain: domain,
+    email_syntax_valid: true,
+    email_role_based: roleBased,
+    email_mx_valid: mxValid,
+  }
+}
+
+/**
+ * Normalize a phone number to E.164. Numbers without an international
+ * prefix are read as national numbers of the hinted country; with no hint,
+ * ten-digit numbers are taken as North American.
+ */
+export function normalizePhone(
+  value: string | null,
+  countryHint: string | null = null
+): { e164: string | null; country: string | null; valid: boolean } | null {
+  const raw = (value || '').trim()
+  if (!raw) return null
+
+  // Drop extensions ("x123", "ext. 123", "#123") and the "(0)" in "+44 (0)20 ..."
+  const number = raw
+    .replace(/\s*(?:ext\.?|extension|x|#)\s*\d{1,6}$/i, '')
+    .replace(/\(0\)/, '')
+  const digits = number.replace(/\D/g, '')
+  if (!digits) return { e164: null, country: null, valid: false }
+
+  let international: string | null = null
+  if (number.startsWith('+')) {
+    international = digits
+  } else if (digits.startsWith('00')) {
+    international = digits.slice(2)
+  }
+
+  if (international !== null) {
+    const entry = findCallingCode(international)
+    const national = entry ? international.slice(entry.code.length) : ''
+    const valid = entry
+      ? national.length >= entry.min && national.length <= entry.max
+      : international.length >= 8 && international.length <= 15
+    return { e164: valid ? `+${international}` : null, country: entry?.country ?? null, valid }
+  }
+
+  const hinted = countryHint ? PHONE_COUNTRY_CODES.find((c) => c.country === countryHint) : undefined
+  const entry = hinted
+    ?? (digits.length === 10 && /^[2-9]/.test(digits) ? PHONE_COUNTRY_CODES.find((c) => c.code === '1') : undefined)
+  if (!entry) return { e164: null, country: null, valid: digits.length >= 6 && digits.length <= 15 }
+
+  // National trunk prefix (0 in most countries, 1 in North America)
+  let national = digits
+  if (entry.code === '1' && national.length === 11 && national.startsWith('1')) national = national.slice(1)
+  else if (entry.code !== '1' && national.startsWith('0')) national = national.slice(1)
+
+  const valid = national.length >= entry.min && national.length <= entry.max
+  return { e164: valid ? `+${entry.code}${national}` : null, country: entry.country, valid }
+}
+
+/**
+ * Country suggested by a country-code TLD on the lead's email or website
+ */
+function getCountryHint(lead: Lead): string | null {
+  for (const domain of [normalizeDomain(lead.email), normalizeDomain(lead.company_website)]) {
+    const tld = domain?.split('.').pop()
+    if (!tld || tld.length !== 2 || GENERIC_COUNTRY_TLDS.includes(tld)) continue
+    const country = tld === 'uk' ? 'GB' : tld.toUpperCase()
+    if (PHONE_COUNTRY_CODES.some((c) => c.country === country)) return country
+  }
+  return null
+}
+
+function findCallingCode(digits: string) {
+  // Calling codes are prefix-free, so at most one length matches
+  for (const length of [1, 2, 3]) {
+    const entry = PHONE_COUNTRY_CODES.find((c) => c.code === digits.slice(0, length))
+    if (entry) return entry
+  }
+  return undefined
+}
+
+function isValidEmailSyntax(localPart: string, domain: string): boolean {
+  if (!localPart || !domain || localPart.length > 64 || localPart.length + domain.length > 253) return false
+  if (!EMAIL_LOCAL_PART.test(localPart)) return false
+
+  const labels = domain.split('.')
+  return labels.length >= 2
+    && labels.every((label) => DOMAIN_LABEL.test(label))
+    && TOP_LEVEL_DOMAIN.test(labels[labels.length - 1])
+}
+
+function isListedDomain(domain: string, list: readonly string[]): boolean {
+  return list.some((d) => domain === d || domain.endsWith(`.${d}`))
+}
+
+/**
+ * Reachability score on the same scale as the lead-record heuristic in
+ * lib/features (0.5 base, +0.25 work email, +0.1 personal email, +0.15 phone,
+ * +0.1 website), so trained models read contact_quality the same way whether
+ * or not a lead was validated. Failed checks withhold the increment.
+ */
+function scoreContactQuality(
+  lead: Lead,
+  email: Pick<ContactValidation, 'email_type' | 'email_mx_valid'>,
+  phoneValid: boolean | null
+): number {
+  let score = 0.5
+
+  if (email.email_mx_valid !== false) {
+    if (email.email_type === 'corporate') score += 0.25
+    else if (email.email_type === 'free') score += 0.1
+    // A shared inbox at a work domain reaches the company, not the person
+    else if (email.email_type === 'role_based') score += 0.15
+  }
+
+  // Unchecked phones get the benefit of the doubt, as the heuristic does
+  if (lead.phone && phoneValid !== false) score += 0.15
+
+  if (lead.company_website) score += 0.1
+
+  return Math.round(Math.min(1, score) * 100) / 100
+}
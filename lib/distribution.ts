@@ -0,0 +1,123 @@
+/**
+ * Distribution profiles and divergence measures for drift monitoring.
+ * Pure functions over plain arrays, like lib/logistic.ts.
+ */
+
+// Equal-width bins over a feature's 0-1 range (scores are scaled from 0-100)
+export const PROFILE_BINS = 10
+
+// Empty bins get this share so log ratios stay finite
+const BIN_FLOOR = 1e-4
+
+/**
+ * One scored lead as seen by drift monitoring
+ */
+export interface ProfileSample {
+  features: Record<string, number>
+  score: number
+  label: string
+}
+
+/**
+ * Snapshot of how a set of scored leads is distributed. Histograms and the
+ * label mix hold fractions that sum to 1.
+ */
+export interface DistributionProfile {
+  sampleSize: number
+  meanScore: number
+  labelMix: Record<string, number>
+  scoreHistogram: number[]
+  featureHistograms: Record<string, number[]>
+  featureMeans: Record<string, number>
+}
+
+/**
+ * Build a profile from scored samples. Features are expected on a 0-1 scale;
+ * out-of-range values fall into the first or last bin.
+ */
+export function buildDistributionProfile(samples: ProfileSample[]): DistributionProfile {
+  const featureKeys = Array.from(new Set(samples.flatMap((s) => Object.keys(s.features))))
+  const labelCounts: Record<string, number> = {}
+  for (const sample of samples) {
+    labelCounts[sample.label] = (labelCounts[sample.label] || 0) + 1
+  }
+
+  const featureHistograms: Record<string, number[]> = {}
+  const featureMeans: Record<string, number> = {}
+  for (const key of featureKeys) {
+    const values = samples.map((s) => s.features[key] ?? 0)
+    featureHistograms[key] = histogram(values)
+    featureMeans[key] = mean(values)
+  }
+
+  const labelMix: Record<string, number> = {}
+  for (const [label, count] of Object.entries(labelCounts)) {
+    labelMix[label] = count / samples.length
+  }
+
+  return {
+    sampleSize: samples.length,
+    meanScore: mean(samples.map((s) => s.score)),
+    labelMix,
+    scoreHistogram: histogram(samples.map((s) => s.score / 100)),
+    featureHistograms,
+    featureMeans,
+  }
+}
+
+/**
+ * Population stability index: sum of (actual - expected) * ln(actual / expected).
+ * Under 0.1 is usually read as stable, 0.1-0.25 as a moderate shift and
+ * above 0.25 as a significant one.
+ */
+export function populationStabilityIndex(expected: number[], actual: number[]): number {
+  const [e, a] = alignDistributions(expected, actual)
+  return a.reduce((sum, p, i) => sum + (p - e[i]) * Math.log(p / e[i]), 0)
+}
+
+/**
+ * Kullback-Leibler divergence of the actual distribution from the expected one
+ */
+export function klDivergence(expected: number[], actual: number[]): number {
+  const [e, a] = alignDistributions(expected, actual)
+  return a.reduce((sum, p, i) => sum + p * Math.log(p / e[i]), 0)
+}
+
+/**
+ * Label mixes as aligned arrays over the union of their labels, so tiers
+ * that only appear on one side still count
+ */
+export function labelMixDistributions(
+  expected: Record<string, number>,
+  actual: Record<string, number>
+): [number[], number[]] {
+  const labels = Array.from(new Set([...Object.keys(expected), ...Object.keys(actual)]))
+  return [labels.map((l) => expected[l] ?? 0), labels.map((l) => actual[l] ?? 0)]
+}
+
+function histogram(values: number[]): number[] {
+  const counts = new Array(PROFILE_BINS).fill(0)
+  if (values.length === 0) return counts
+
+  for (const value of values) {
+    const bin = Math.min(PROFILE_BINS - 1, Math.max(0, Math.floor(value * PROFILE_BINS)))
+    counts[bin]++
+  }
+  return counts.map((c) => c / values.length)
+}
+
+function mean(values: number[]): number {
+  if (values.length === 0) return 0
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+// Floor empty bins and renormalize both sides
+function alignDistributions(expected: number[], actual: number[]): [number[], number[]] {
+  const size = Math.max(expected.length, actual.length)
+  const floor = (dist: number[]) => {
+    const floored = Array.from({ length: size }, (_, i) => Math.max(BIN_FLOOR, dist[i] ?? 0))
+    const total = floored.reduce((sum, p) => sum + p, 0)
+    return floored.map((p) => p / total)
+  }
+  return [floor(expected), floor(actual)]
+}
@@ -0,0 +1,409 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getActiveScoringModel, type ScoringModel } from '@/lib/learn'
+import {
+  buildDistributionProfile,
+  populationStabilityIndex,
+  klDivergence,
+  labelMixDistributions,
+  type DistributionProfile,
+  type ProfileSample,
+} from '@/lib/distribution'
+
+// Each report covers the week leading up to the check
+export const DRIFT_PERIOD_DAYS = 7
+
+// PSI above this on the label mix, the score or any feature counts as drift
+export const DRIFT_PSI_THRESHOLD = 0.25
+
+// Fewer scored leads than this in a week is too noisy to judge
+export const MIN_DRIFT_SAMPLES = 30
+
+// PostgREST caps each response at 1000 rows
+const PAGE_SIZE = 1000
+
+export interface FeatureDrift {
+  psi: number
+  kl: number
+  baselineMean: number
+  currentMean: number
+}
+
+/**
+ * A week of scored leads compared with the active model's training data
+ */
+export interface DriftReport {
+  id: string
+  modelVersion: number
+  periodStart: string
+  periodEnd: string
+  sampleSize: number
+  baselineSize: number
+  meanScore: number | null
+  baselineMeanScore: number | null
+  labelMix: Record<string, number>
+  baselineLabelMix: Record<string, number>
+  labelPsi: number | null
+  scorePsi: number | null
+  featureDrift: Record<string, FeatureDrift>
+  maxFeaturePsi: number | null
+  drifted: boolean
+  createdAt: string
+}
+
+export interface DriftMonitoringSummary {
+  checked: number
+  reported: number
+  drifted: number
+  skipped: number
+  failed: number
+}
+
+/**
+ * Label mix, score and per-feature shifts of a current profile against a
+ * baseline. Only features present in the baseline are compared.
+ */
+export function measureDrift(baseline: DistributionProfile, current: DistributionProfile): {
+  labelPsi: number
+  scorePsi: number
+  featureDrift: Record<string, FeatureDrift>
+  maxFeaturePsi: number
+  drifted: boolean
+} {
+  const featureDrift: Record<string, FeatureDrift> = {}
+  for (const [key, expected] of Object.entries(baseline.featureHistograms)) {
+    const actual = current.featureHistograms[key]
+    if (!actual) continue
+    featureDrift[key] = {
+      psi: populationStabilityIndex(expected, actual),
+      kl: klDivergence(expected, actual),
+      baselineMean: baseline.featureMeans[key] ?? 0,
+      currentMean: current.featureMeans[key] ?? 0,
+    }
+  }
+
+  const labelPsi = populationStabilityIndex(...labelMixDistributions(baseline.labelMix, current.labelMix))
+  const scorePsi = populationStabilityIndex(baseline.scoreHistogram, current.scoreHistogram)
+  const maxFeaturePsi = Math.max(0, ...Object.values(featureDrift).map((d) => d.psi))
+
+  return {
+    labelPsi,
+    scorePsi,
+    featureDrift,
+    maxFeaturePsi,
+    drifted: Math.max(labelPsi, scorePsi, maxFeaturePsi) >= DRIFT_PSI_THRESHOLD,
+  }
+}
+
+/**
+ * Compare the last week of leads scored by the active model with the data
+ * it was trained on, and save the report. Admins are notified when drift
+ * first crosses the threshold for a model version.
+ */
+export async function runDriftCheck(
+  organizationId: string,
+  periodEnd: Date = new Date()
+): Promise<{ success: boolean; report?: DriftReport; error?: string }> {
+  const supabase = createAdminClient()
+
+  const model = await getActiveScoringModel(organizationId)
+  if (!model) {
+    return { success: false, error: 'No active scoring model' }
+  }
+
+  const baseline = model.performanceMetrics?.baseline
+  if (!baseline) {
+    return {
+      success: false,
+      error: `Model v${model.modelVersion} has no training baseline. Retrain it to enable drift monitoring.`,
+    }
+  }
+
+  const periodStart = new Date(periodEnd.getTime() - DRIFT_PERIOD_DAYS * 24 * 60 * 60 * 1000)
+  const samples = await getScoredSamples(organizationId, model, periodStart, periodEnd)
+
+  if (samples.length < MIN_DRIFT_SAMPLES) {
+    return {
+      success: false,
+      error: `Not enough scored leads this period. Need at least ${MIN_DRIFT_SAMPLES}, have ${samples.length}.`,
+    }
+  }
+
+  const current = buildDistributionProfile(samples)
+  const drift = measureDrift(baseline, current)
+
+  const { data: previous } = await supabase
+    .from('model_drift_reports')
+    .select('drifted, model_version')
+    .eq('organization_id', organizationId)
+    .order('period_end', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const { data: saved, error } = await supabase
+    .from('model_drift_reports')
+    .insert({
+      organization_id: organizationId,
+      model_version: model.modelVersion,
+      period_start: periodStart.toISOString(),
+      period_end: periodEnd.toISOString(),
+      sample_size: current.sampleSize,
+      baseline_size: baseline.sampleSize,
+      mean_score: round(current.meanScore, 2),
+      baseline_mean_score: round(baseline.meanScore, 2),
+      label_mix: current.labelMix,
+      baseline_label_mix: baseline.labelMix,
+      label_psi: round(drift.labelPsi, 4),
+      score_psi: round(drift.scorePsi, 4),
+      feature_drift: Object.fromEntries(
+        Object.entries(drift.featureDrift).map(([key, d]) => [
+          key,
+          { psi: d.psi, kl: d.kl, baseline_mean: d.baselineMean, current_mean: d.currentMean },
+        ])
+      ),
+      max_feature_psi: round(drift.maxFeaturePsi, 4),
+      drifted: drift.drifted,
+    })
+    .select()
+    .single()
+
+  if (error || !saved) {
+    return { success: false, error: `Failed to save drift report: ${error?.message || 'Unknown error'}` }
+  }
+
+  const report = mapDriftReport(saved)
+  const alreadyDrifted = previous?.drifted && previous.model_version === model.modelVersion
+  if (report.drifted && !alreadyDrifted) {
+    await notifyDrift(organizationId, report)
+  }
+
+  return { success: true, report }
+}
+
+/**
+ * Weekly drift check for every organization with an active model. Those
+ * reported on least recently go first, so organizations a previous run
+ * didn't reach before its deadline are checked next time.
+ */
+export async function runDriftMonitoring(options: {
+  deadline?: number // epoch ms; stop starting new organizations after this
+} = {}): Promise<DriftMonitoringSummary> {
+  const supabase = createAdminClient()
+  const summary: DriftMonitoringSummary = { checked: 0, reported: 0, drifted: 0, skipped: 0, failed: 0 }
+
+  const organizationIds: string[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page } = await supabase
+      .from('scoring_models')
+      .select('organization_id')
+      .eq('is_active', true)
+      .order('organization_id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    organizationIds.push(...(page || []).map((m) => m.organization_id))
+    if (!page || page.length < PAGE_SIZE) break
+  }
+
+  // Latest report period per organization
+  const lastReported: Record<string, string> = {}
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page } = await supabase
+      .from('model_drift_reports')
+      .select('organization_id, period_end')
+      .order('period_end', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1)
+
+    for (const row of page || []) {
+      lastReported[row.organization_id] ??= row.period_end
+    }
+    if (!page || page.length < PAGE_SIZE) break
+  }
+
+  // Never reported first, then oldest report first
+  organizationIds.sort((a, b) => (lastReported[a] || '').localeCompare(lastReported[b] || ''))
+
+  for (const organizationId of organizationIds) {
+    if (options.deadline && Date.now() > options.deadline) break
+    summary.checked++
+
+    try {
+      const result = await runDriftCheck(organizationId)
+      if (!result.report) {
+        summary.skipped++
+        continue
+      }
+      summary.reported++
+      if (result.report.drifted) summary.drifted++
+    } catch (error) {
+      console.error(`Drift check failed for org ${organizationId}:`, error)
+      summary.failed++
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Most recent drift reports for an organization, newest first
+ */
+export async function getDriftReports(organizationId: string, limit = 12): Promise<DriftReport[]> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('model_drift_reports')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('period_end', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load drift reports: ${error.message}`)
+  }
+
+  return (data || []).map(mapDriftReport)
+}
+
+/**
+ * Latest non-shadow score per lead from the given model version in the period
+ */
+async function getScoredSamples(
+  organizationId: string,
+  model: ScoringModel,
+  periodStart: Date,
+  periodEnd: Date
+): Promise<ProfileSample[]> {
+  const supabase = createAdminClient()
+  const byLead: Record<string, ProfileSample> = {}
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page } = await supabase
+      .from('scoring_history')
+      .select('lead_id, score, label, feature_vector, lead:leads!inner(organization_id)')
+      .eq('lead.organization_id', organizationId)
+      .eq('is_shadow', false)
+      .eq('model_version', model.modelVersion)
+      .gte('created_at', periodStart.toISOString())
+      .lt('created_at', periodEnd.toISOString())
+      .order('created_at', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1)
+
+    for (const row of page || []) {
+      if (byLead[row.lead_id]) continue
+      const features: Record<string, number> = {}
+      for (const [key, value] of Object.entries((row.feature_vector || {}) as Record<string, unknown>)) {
+        if (typeof value === 'number') features[key] = value
+      }
+      byLead[row.lead_id] = { features, score: row.score, label: row.label }
+    }
+    if (!page || page.length < PAGE_SIZE) break
+  }
+
+  return Object.values(byLead)
+}
+
+async function notifyDrift(organizationId: string, report: DriftReport) {
+  const supabase = createAdminClient()
+
+  const { data: admins } = await supabase
+    .from('organization_members')
+    .select('user_id')
+    .eq('organization_id', organizationId)
+    .eq('role', 'admin')
+
+  if (!admins || admins.length === 0) return
+
+  const topFeatures = Object.entries(report.featureDrift)
+    .filter(([, d]) => d.psi >= DRIFT_PSI_THRESHOLD)
+    .sort((a, b) => b[1].psi - a[1].psi)
+    .slice(0, 3)
+    .map(([key]) => key.replace(/_/g, ' '))
+
+  const shifts = [
+    (report.labelPsi ?? 0) >= DRIFT_PSI_THRESHOLD && 'label mix',
+    (report.scorePsi ?? 0) >= DRIFT_PSI_THRESHOLD && 'score distribution',
+    ...topFeatures,
+  ].filter(Boolean)
+
+  await supabase.from('notifications').insert(
+    admins.map((a) => ({
+      organization_id: organizationId,
+      user_id: a.user_id,
+      type: 'model_drift',
+      title: `Lead mix has drifted from model v${report.modelVersion}'s training data`,
+      message: `Shifted this week: ${shifts.join(', ')}. Consider reviewing your ICP or retraining.`,
+      data: {
+        report_id: report.id,
+        model_version: report.modelVersion,
+        label_psi: report.labelPsi,
+        score_psi: report.scorePsi,
+        max_feature_psi: report.maxFeaturePsi,
+      },
+    }))
+  )
+}
+
+/**
+ * A model_drift_reports row as PostgREST returns it; numeric columns may
+ * arrive as strings
+ */
+interface DriftReportRow {
+  id: string
+  model_version: number
+  period_start: string
+  period_end: string
+  sample_size: number
+  baseline_size: number
+  mean_score: number | string | null
+  baseline_mean_score: number | string | null
+  label_mix: Record<string, number> | null
+  baseline_label_mix: Record<string, number> | null
+  label_psi: number | string | null
+  score_psi: number | string | null
+  feature_drift: Record<string, StoredFeatureDrift> | null
+  max_feature_psi: number | string | null
+  drifted: boolean
+  created_at: string
+}
+
+interface StoredFeatureDrift {
+  psi: number
+  kl: number
+  baseline_mean: number
+  current_mean: number
+}
+
+function mapDriftReport(data: DriftReportRow): DriftReport {
+  const numberOrNull = (value: unknown) => (value === null || value === undefined ? null : Number(value))
+  const featureDrift: Record<string, FeatureDrift> = {}
+  for (const [key, d] of Object.entries(data.feature_drift || {})) {
+    featureDrift[key] = {
+      psi: Number(d.psi),
+      kl: Number(d.kl),
+      baselineMean: Number(d.baseline_mean),
+      currentMean: Number(d.current_mean),
+    }
+  }
+
+  return {
+    id: data.id,
+    modelVersion: data.model_version,
+    periodStart: data.period_start,
+    periodEnd: data.period_end,
+    sampleSize: data.sample_size,
+    baselineSize: data.baseline_size,
+    meanScore: numberOrNull(data.mean_score),
+    baselineMeanScore: numberOrNull(data.baseline_mean_score),
+    labelMix: data.label_mix || {},
+    baselineLabelMix: data.baseline_label_mix || {},
+    labelPsi: numberOrNull(data.label_psi),
+    scorePsi: numberOrNull(data.score_psi),
+    featureDrift,
+    maxFeaturePsi: numberOrNull(data.max_feature_psi),
+    drifted: data.drifted,
+    createdAt: data.created_at,
+  }
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
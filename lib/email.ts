@@ -19,6 +19,7 @@ function getResendClient(): Resend | null {
 interface HotLeadEmailData {
   lead: Partial<Lead>
   score: number
+  tierName?: string
   reasoning: string
   recommendedAction: string
 }
@@ -74,7 +75,7 @@ export async function sendHotLeadNotification(
       await resend.emails.send({
         from: 'LeadScores <notifications@leadscores.com>',
         to: email,
-        subject: `🔥 Hot Lead Alert: ${leadName} from ${companyName} (Score: ${data.score})`,
+        subject: `🔥 ${data.tierName || 'Hot'} Lead Alert: ${leadName} from ${companyName} (Score: ${data.score})`,
         html: `
           <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
             <div style="text-align: center; margin-bottom: 30px;">
@@ -93,7 +94,7 @@ export async function sendHotLeadNotification(
                   <h2 style="margin: 0; color: #1a1a1a; font-size: 24px;">${leadName}</h2>
                   <p style="margin: 4px 0 0; color: #666; font-size: 16px;">${data.lead.job_title || 'Unknown Role'} at ${companyName}</p>
                 </div>
-                <span style="background: #22c55e; color: white; padding: 4px 12px; border-radius: 16px; font-size: 12px; font-weight: bold; margin-left: auto;">HOT</span>
+                <span style="background: #22c55e; color: white; padding: 4px 12px; border-radius: 16px; font-size: 12px; font-weight: bold; margin-left: auto;">${(data.tierName || 'Hot').toUpperCase()}</span>
               </div>
             </div>
 
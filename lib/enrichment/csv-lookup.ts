@@ -0,0 +1,87 @@
+/**
+ * CSV lookup enrichment provider
+ * Matches the lead against a table the organization uploaded (one row per
+ * company, keyed by domain or company name). Columns named after an
+ * enrichment field fill that field; list fields split on ";" or "|".
+ */
+
+import Papa from 'papaparse'
+import { getCompanyDomain, normalizeDomain } from '@/lib/company-profiles'
+import type { Lead } from '@/types'
+import type { EnrichmentProvider, EnrichmentResult, EnrichmentType } from './types'
+import type { ProviderSettings } from './index'
+
+// Rows without a confidence column
+const DEFAULT_ROW_CONFIDENCE = 0.9
+
+export class CsvLookupEnrichmentProvider implements EnrichmentProvider {
+  readonly type = 'csv_lookup' as const
+  readonly id: string
+  readonly name: string
+  readonly priority: number
+  readonly enrichmentTypes: EnrichmentType[]
+  private csv: string
+  private matchOn: 'domain' | 'company_name'
+  private rows: Map<string, Record<string, string>> | null = null
+
+  /**
+   * @param options.csv The referenced lookup table's CSV; without it nothing matches
+   */
+  constructor(settings: ProviderSettings, options: { csv?: string } = {}) {
+    this.id = settings.id
+    this.name = settings.name
+    this.priority = settings.priority
+    this.enrichmentTypes = settings.enrichment_types
+    this.csv = options.csv || ''
+    this.matchOn = settings.match_on || 'domain'
+  }
+
+  async enrich(lead: Lead, enrichmentType: EnrichmentType): Promise<EnrichmentResult | null> {
+    const key = this.matchOn === 'domain'
+      ? getCompanyDomain(lead)
+      : normalizeCompanyName(lead.company_name)
+    if (!key) return null
+
+    const row = this.getRows().get(key)
+    if (!row) return null
+
+    const data: Record<string, unknown> = {}
+    for (const [column, value] of Object.entries(row)) {
+      if (column === this.matchOn || column === 'confidence' || value.trim() === '') continue
+      data[column] = value
+    }
+    if (Object.keys(data).length === 0) return null
+
+    const confidence = row.confidence?.trim() ? Number(row.confidence) : NaN
+    return {
+      data,
+      confidence: Number.isFinite(confidence) && confidence >= 0 && confidence <= 1
+        ? confidence
+        : DEFAULT_ROW_CONFIDENCE,
+    }
+  }
+
+  // Parsed once per provider instance; later rows for the same key win
+  private getRows(): Map<string, Record<string, string>> {
+    if (this.rows) return this.rows
+
+    const parsed = Papa.parse<Record<string, string>>(this.csv, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (header) => header.trim().toLowerCase(),
+    })
+
+    this.rows = new Map()
+    for (const row of parsed.data) {
+      const raw = row[this.matchOn]
+      const key = this.matchOn === 'domain' ? normalizeDomain(raw) : normalizeCompanyName(raw)
+      if (key) this.rows.set(key, row)
+    }
+    return this.rows
+  }
+}
+
+function normalizeCompanyName(name: string | null | undefined): string | null {
+  const normalized = (name || '').trim().toLowerCase().replace(/\s+/g, ' ')
+  return normalized || null
+}
@@ -0,0 +1,87 @@
+/**
+ * Generic HTTP enrichment provider
+ * POSTs {enrichment_type, lead} as JSON to an organization-configured HTTPS
+ * endpoint and expects {data, confidence?} back. An empty data object or a
+ * 404 means the endpoint has nothing for the lead. The endpoint must resolve
+ * to a public address, and redirects aren't followed.
+ */
+
+import { requestPublicUrl } from '@/lib/website'
+import type { Lead } from '@/types'
+import type { EnrichmentProvider, EnrichmentResult, EnrichmentType } from './types'
+import type { ProviderSettings } from './index'
+
+const DEFAULT_TIMEOUT_MS = 5000
+const MAX_RESPONSE_BYTES = 256 * 1024
+// Responses without a confidence
+const DEFAULT_CONFIDENCE = 0.7
+
+export class HttpEnrichmentProvider implements EnrichmentProvider {
+  readonly type = 'http' as const
+  readonly id: string
+  readonly name: string
+  readonly priority: number
+  readonly enrichmentTypes: EnrichmentType[]
+  private url: string
+  private headers: Record<string, string>
+  private timeoutMs: number
+
+  /**
+   * @param options.headers Request headers saved as the provider's secrets
+   */
+  constructor(settings: ProviderSettings, options: { headers?: Record<string, string> } = {}) {
+    this.id = settings.id
+    this.name = settings.name
+    this.priority = settings.priority
+    this.enrichmentTypes = settings.enrichment_types
+    this.url = settings.url || ''
+    this.headers = options.headers || {}
+    this.timeoutMs = settings.timeout_ms ?? DEFAULT_TIMEOUT_MS
+  }
+
+  async enrich(lead: Lead, enrichmentType: EnrichmentType): Promise<EnrichmentResult | null> {
+    const response = await requestPublicUrl(this.url, {
+      method: 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify({
+        enrichment_type: enrichmentType,
+        // Contact and company fields only; tracking data stays in the app
+        lead: {
+          id: lead.id,
+          email: lead.email,
+          first_name: lead.first_name,
+          last_name: lead.last_name,
+          job_title: lead.job_title,
+          company_name: lead.company_name,
+          company_website: lead.company_website,
+          company_size: lead.company_size,
+          industry: lead.industry,
+        },
+      }),
+      timeoutMs: this.timeoutMs,
+      maxBytes: MAX_RESPONSE_BYTES,
+    })
+
+    if (!response) {
+      throw new Error(`${this.name} URL must be https and resolve to a public address`)
+    }
+    if (response.status === 404) return null
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`${this.name} returned ${response.status}`)
+    }
+
+    const body = JSON.parse(response.body)
+    const data = body?.data
+    if (!data || typeof data !== 'object' || Array.isArray(data) || Object.keys(data).length === 0) {
+      return null
+    }
+
+    const confidence = body.confidence
+    return {
+      data,
+      confidence: typeof confidence === 'number' && confidence >= 0 && confidence <= 1
+        ? confidence
+        : DEFAULT_CONFIDENCE,
+    }
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * Enrichment Pipeline
+ * Runs every enabled provider for each enrichment type, merges their results
+ * field by field and records which provider each field came from
+ */
+
+import { z } from 'zod'
+import { createAdminClient } from '@/lib/supabase/admin'
+import {
+  ENRICHMENT_TYPES,
+  ENRICHMENT_PROVIDER_TYPES,
+  ENRICHMENT_MERGE_STRATEGIES,
+  ENRICHMENT_FIELDS,
+  DEFAULT_ENRICHMENT_PROVIDERS,
+} from '@/lib/constants'
+import { getTitleTaxonomy } from '@/lib/org-settings'
+import { getProviderSecrets } from './secrets'
+import { getLookupTableContents } from './lookup-tables'
+import type { TitleTaxonomy } from '@/lib/title-taxonomy'
+import type { LeadEnrichmentSet, CompanyResearch, IntentAnalysis, AuthorityAssessment } from '@/lib/enrich'
+import type { ContactValidation } from '@/lib/contact-validation'
+import type { WebsiteFetcher } from '@/lib/website'
+import type { Lead } from '@/types'
+import { LLMEnrichmentProvider } from './llm'
+import { RulesEnrichmentProvider } from './rules'
+import { CsvLookupEnrichmentProvider } from './csv-lookup'
+import { HttpEnrichmentProvider } from './http'
+import type {
+  EnrichmentProvider,
+  EnrichmentResult,
+  EnrichmentType,
+  EnrichmentMergeStrategy,
+} from './types'
+
+export type {
+  EnrichmentProvider,
+  EnrichmentProviderType,
+  EnrichmentResult,
+  EnrichmentType,
+  EnrichmentMergeStrategy,
+} from './types'
+export { LLMEnrichmentProvider } from './llm'
+export { RulesEnrichmentProvider } from './rules'
+export { CsvLookupEnrichmentProvider } from './csv-lookup'
+export { HttpEnrichmentProvider } from './http'
+export {
+  providerSecretsUpdateSchema,
+  getProviderSecretHeaderNames,
+  updateProviderSecrets,
+  type ProviderSecretsUpdate,
+} from './secrets'
+export {
+  lookupTableUploadSchema,
+  createLookupTable,
+  getLookupTableSummaries,
+  deleteUnusedLookupTables,
+  type LookupTableSummary,
+} from './lookup-tables'
+
+const providerSettingsSchema = z
+  .object({
+    id: z.string().trim().regex(/^[a-z0-9_-]{1,40}$/, 'Provider ids use lowercase letters, numbers, - and _'),
+    name: z.string().trim().min(1, 'Provider name is required').max(80),
+    type: z.enum(ENRICHMENT_PROVIDER_TYPES),
+    enabled: z.boolean().default(true),
+    enrichment_types: z.array(z.enum(ENRICHMENT_TYPES)).min(1, 'Pick at least one enrichment type'),
+    // Lower runs first and wins fields under the priority merge rule
+    priority: z.number().int().min(0).max(100).default(50),
+    // csv_lookup: the table lives in enrichment_lookup_tables
+    lookup_table_id: z.string().uuid().optional(),
+    match_on: z.enum(['domain', 'company_name']).optional(),
+    // http
+    url: z.string().url().refine((u) => u.startsWith('https://'), 'Provider URL must use https').optional(),
+    timeout_ms: z.number().int().min(500).max(15000).optional(),
+    // llm: read the company website before researching the company
+    fetch_website: z.boolean().optional(),
+    // rules: how contact validation checks mail servers
+    mx_lookup: z.enum(['heuristic', 'dns']).optional(),
+  })
+  .refine((p) => p.type !== 'csv_lookup' || !!p.lookup_table_id, 'CSV lookup providers need a CSV table')
+  .refine((p) => p.type !== 'http' || !!p.url, 'HTTP providers need a URL')
+
+export type ProviderSettings = z.infer<typeof providerSettingsSchema>
+
+/**
+ * Per-organization enrichment settings, stored at organizations.settings.enrichment
+ */
+export const enrichmentSettingsSchema = z
+  .object({
+    providers: z.array(providerSettingsSchema).max(10).default(DEFAULT_ENRICHMENT_PROVIDERS),
+    // enrichment type -> field -> strategy; unlisted fields use 'priority'
+    merge_rules: z
+      .partialRecord(z.enum(ENRICHMENT_TYPES), z.record(z.string(), z.enum(ENRICHMENT_MERGE_STRATEGIES)))
+      .default({}),
+  })
+  .refine(
+    (s) => new Set(s.providers.map((p) => p.id)).size === s.providers.length,
+    'Provider ids must be unique'
+  )
+
+export type EnrichmentSettings = z.infer<typeof enrichmentSettingsSchema>
+
+/**
+ * A merged enrichment with the providers behind each field
+ */
+export interface MergedEnrichment {
+  data: Record<string, unknown>
+  confidence: number
+  source: string
+  fieldSources: Record<string, string[]>
+  companyProfileId: string | null
+}
+
+/**
+ * Load enrichment settings for an organization, falling back to defaults
+ */
+export async function getEnrichmentSettings(organizationId: string): Promise<EnrichmentSettings> {
+  const supabase = createAdminClient()
+
+  const { data: org } = await supabase
+    .from('organizations')
+    .select('settings')
+    .eq('id', organizationId)
+    .single()
+
+  const parsed = enrichmentSettingsSchema.safeParse(org?.settings?.enrichment ?? {})
+  return parsed.success ? parsed.data : enrichmentSettingsSchema.parse({})
+}
+
+/**
+ * Lookup tables the given providers reference
+ */
+export function getLookupTableIds(providers: ProviderSettings[]): string[] {
+  return providers.flatMap((p) => (p.type === 'csv_lookup' && p.lookup_table_id ? [p.lookup_table_id] : []))
+}
+
+/**
+ * Provider instances for the enabled providers, highest priority first
+ */
+export function createEnrichmentProviders(
+  settings: EnrichmentSettings,
+  options: {
+    refreshCompany?: boolean
+    taxonomy?: TitleTaxonomy
+    websiteFetcher?: WebsiteFetcher
+    secrets?: Record<string, Record<string, string>> // Request headers by provider id
+    lookupTables?: Record<string, string> // CSV text by lookup table id
+  } = {}
+): EnrichmentProvider[] {
+  return settings.providers
+    .filter((p) => p.enabled)
+    .sort((a, b) => a.priority - b.priority)
+    .map((p) => {
+      switch (p.type) {
+        case 'llm':
+          return new LLMEnrichmentProvider(p, options)
+        case 'rules':
+          return new RulesEnrichmentProvider(p, options)
+        case 'csv_lookup':
+          return new CsvLookupEnrichmentProvider(p, {
+            csv: p.lookup_table_id ? options.lookupTables?.[p.lookup_table_id] : undefined,
+          })
+        case 'http':
+          return new HttpEnrichmentProvider(p, { headers: options.secrets?.[p.id] })
+      }
+    })
+}
+
+/**
+ * Merge provider results for one enrichment type. Results are in priority
+ * order; values are coerced to each field's shape and unknown fields dropped.
+ */
+export function mergeEnrichmentResults(
+  enrichmentType: EnrichmentType,
+  results: Array<{ provider: EnrichmentProvider; result: EnrichmentResult }>,
+  rules: Partial<Record<string, EnrichmentMergeStrategy>> = {}
+): MergedEnrichment | null {
+  if (results.length === 0) return null
+
+  const data: Record<string, unknown> = {}
+  const fieldSources: Record<string, string[]> = {}
+
+  for (const [field, kind] of Object.entries(ENRICHMENT_FIELDS[enrichmentType])) {
+    const candidates = results
+      .map(({ provider, result }) => ({
+        provider,
+        confidence: result.confidence,
+        value: coerceFieldValue(kind, result.data[field]),
+      }))
+      .filter((c) => c.value !== undefined)
+
+    if (candidates.length === 0) {
+      if (kind === 'list') data[field] = []
+      continue
+    }
+
+    const strategy = rules[field] ?? 'priority'
+    if (strategy === 'union' && kind === 'list') {
+      const items = new Map<string, string>()
+      const sources: string[] = []
+      for (const c of candidates) {
+        const values = c.value as string[]
+        if (values.length > 0) sources.push(c.provider.id)
+        for (const v of values) {
+          if (!items.has(v.toLowerCase())) items.set(v.toLowerCase(), v)
+        }
+      }
+      data[field] = Array.from(items.values())
+      fieldSources[field] = sources
+      continue
+    }
+
+    // Ties on confidence go to the higher priority provider
+    const chosen = strategy === 'highest_confidence'
+      ? candidates.reduce((best, c) => (c.confidence > best.confidence ? c : best))
+      : candidates[0]
+    data[field] = chosen.value
+    fieldSources[field] = [chosen.provider.id]
+  }
+
+  const contributors = results.filter(({ provider }) =>
+    Object.values(fieldSources).some((ids) => ids.includes(provider.id))
+  )
+  if (contributors.length === 0) return null
+
+  const primary = contributors[0]
+  return {
+    data,
+    confidence: primary.result.confidence,
+    source: contributors.length === 1 ? primary.result.source || primary.provider.id : 'merged',
+    fieldSources,
+    companyProfileId: contributors.find(({ result }) => result.companyProfileId)?.result.companyProfileId ?? null,
+  }
+}
+
+/**
+ * Orchestrate all enrichments for a lead: every enabled provider runs for
+ * the types it covers, and each type's results are merged and stored. Company
+ * research comes from the shared company profile unless refreshCompany is set.
+ */
+export async function enrichLead(
+  lead: Lead,
+  options: { refreshCompany?: boolean; websiteFetcher?: WebsiteFetcher } = {}
+): Promise<LeadEnrichmentSet> {
+  const [settings, taxonomy, secrets] = await Promise.all([
+    getEnrichmentSettings(lead.organization_id),
+    getTitleTaxonomy(lead.organization_id),
+    getProviderSecrets(lead.organization_id),
+  ])
+  const lookupTables = await getLookupTableContents(
+    lead.organization_id,
+    getLookupTableIds(settings.providers.filter((p) => p.enabled))
+  )
+  const providers = createEnrichmentProviders(settings, { ...options, taxonomy, secrets, lookupTables })
+
+  const merged = await Promise.all(
+    ENRICHMENT_TYPES.map(async (enrichmentType) => {
+      const results = await Promise.all(
+        providers
+          .filter((provider) => provider.enrichmentTypes.includes(enrichmentType))
+          .map(async (provider) => {
+            try {
+              const result = await provider.enrich(lead, enrichmentType)
+              return result ? { provider, result } : null
+            } catch (error) {
+              // One failing provider shouldn't cost the lead the others' data
+              console.error(`Enrichment provider ${provider.id} failed for ${enrichmentType}:`, error)
+              return null
+            }
+          })
+      )
+
+      const enrichment = mergeEnrichmentResults(
+        enrichmentType,
+        results.filter((r): r is { provider: EnrichmentProvider; result: EnrichmentResult } => r !== null),
+        settings.merge_rules[enrichmentType]
+      )
+      if (enrichment) {
+        await storeEnrichment(lead.id, enrichmentType, enrichment)
+      }
+      return [enrichmentType, enrichment] as const
+    })
+  )
+
+  const byType = Object.fromEntries(merged) as Record<EnrichmentType, MergedEnrichment | null>
+  return {
+    company: byType.company_research?.data as unknown as CompanyResearch | undefined,
+    intent: byType.intent_analysis?.data as unknown as IntentAnalysis | undefined,
+    authority: byType.authority_assessment?.data as unknown as AuthorityAssessment | undefined,
+    contact: byType.contact_validation?.data as unknown as ContactValidation | undefined,
+  }
+}
+
+/**
+ * Store enrichment data in database
+ */
+async function storeEnrichment(
+  leadId: string,
+  enrichmentType: EnrichmentType,
+  enrichment: MergedEnrichment
+): Promise<void> {
+  const supabase = createAdminClient()
+
+  await supabase.from('lead_enrichments').insert({
+    lead_id: leadId,
+    enrichment_type: enrichmentType,
+    data: enrichment.data,
+    confidence: enrichment.confidence,
+    source: enrichment.source,
+    field_sources: enrichment.fieldSources,
+    company_profile_id: enrichment.companyProfileId,
+  })
+}
+
+function coerceFieldValue(kind: 'text' | 'list' | 'number' | 'boolean', value: unknown): unknown {
+  if (value === null || value === undefined) return undefined
+
+  if (kind === 'list') {
+    const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[;|]/) : []
+    const strings = items
+      .filter((v) => typeof v === 'string' || typeof v === 'number')
+      .map((v) => String(v).trim())
+      .filter(Boolean)
+    return strings.length > 0 ? strings : undefined
+  }
+
+  if (kind === 'number') {
+    const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN
+    return Number.isFinite(number) ? number : undefined
+  }
+
+  if (kind === 'boolean') {
+    if (typeof value === 'boolean') return value
+    // CSV cells and loosely typed endpoints
+    const text = String(value).trim().toLowerCase()
+    if (['true', 'yes', '1'].includes(text)) return true
+    if (['false', 'no', '0'].includes(text)) return false
+    return undefined
+  }
+
+  const text = typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : ''
+  return text || undefined
+}
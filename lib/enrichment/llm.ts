@@ -0,0 +1,65 @@
+/**
+ * LLM enrichment provider
+ */
+
+import { getCompanyResearch, analyzeIntentSignals } from '@/lib/enrich'
+import type { WebsiteFetcher } from '@/lib/website'
+import type { Lead } from '@/types'
+import type { EnrichmentProvider, EnrichmentResult, EnrichmentType } from './types'
+import type { ProviderSettings } from './index'
+
+/**
+ * Company research (through the shared company profile cache, grounded in
+ * the company website) and intent analysis from the organization's LLM
+ */
+export class LLMEnrichmentProvider implements EnrichmentProvider {
+  readonly type = 'llm' as const
+  readonly id: string
+  readonly name: string
+  readonly priority: number
+  readonly enrichmentTypes: EnrichmentType[]
+  private refreshCompany: boolean
+  private fetchWebsite: boolean
+  private websiteFetcher?: WebsiteFetcher
+
+  /**
+   * @param options.refreshCompany Research the company again even when its profile is fresh
+   * @param options.websiteFetcher Loads the company website (fixtures in tests); defaults to HTTP
+   */
+  constructor(
+    settings: ProviderSettings,
+    options: { refreshCompany?: boolean; websiteFetcher?: WebsiteFetcher } = {}
+  ) {
+    this.id = settings.id
+    this.name = settings.name
+    this.priority = settings.priority
+    this.enrichmentTypes = settings.enrichment_types
+    this.refreshCompany = !!options.refreshCompany
+    this.fetchWebsite = settings.fetch_website ?? true
+    this.websiteFetcher = options.websiteFetcher
+  }
+
+  async enrich(lead: Lead, enrichmentType: EnrichmentType): Promise<EnrichmentResult | null> {
+    if (enrichmentType === 'company_research') {
+      const company = await getCompanyResearch(lead, {
+        refresh: this.refreshCompany,
+        fetchWebsite: this.fetchWebsite,
+        fetcher: this.websiteFetcher,
+      })
+      if (!company) return null
+      return {
+        data: { ...company.research },
+        confidence: company.research.confidence,
+        source: company.cached ? 'company_profile' : 'claude',
+        companyProfileId: company.profileId,
+      }
+    }
+
+    if (enrichmentType === 'intent_analysis') {
+      const intent = await analyzeIntentSignals(lead)
+      return intent ? { data: { ...intent }, confidence: 0.8, source: 'claude' } : null
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Enrichment lookup tables
+ * CSV tables for csv_lookup providers, kept in enrichment_lookup_tables and
+ * referenced from provider settings by lookup_table_id. The settings page
+ * only sees each table's columns and row count.
+ */
+
+import Papa from 'papaparse'
+import { z } from 'zod'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+// Unreferenced uploads are kept this long, so a table uploaded before its
+// settings are saved isn't dropped by someone else's save
+const UNSAVED_UPLOAD_GRACE_MS = 24 * 60 * 60 * 1000
+
+export const lookupTableUploadSchema = z.object({
+  csv: z.string().trim().min(1, 'The CSV table is empty').max(500_000, 'CSV tables are limited to 500KB'),
+})
+
+export interface LookupTableSummary {
+  id: string
+  columns: string[] | null // Null for tables moved from settings before columns were recorded
+  rowCount: number | null
+  updatedAt: string
+}
+
+interface LookupTableRow {
+  id: string
+  columns: string[] | null
+  row_count: number | null
+  updated_at: string
+}
+
+/**
+ * Save an uploaded CSV table. Headers are matched case-insensitively, as the
+ * provider reads them.
+ */
+export async function createLookupTable(organizationId: string, csv: string): Promise<LookupTableSummary> {
+  const supabase = createAdminClient()
+
+  const parsed = Papa.parse<Record<string, string>>(csv, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim().toLowerCase(),
+  })
+
+  const { data, error } = await supabase
+    .from('enrichment_lookup_tables')
+    .insert({
+      organization_id: organizationId,
+      csv,
+      columns: (parsed.meta.fields || []).filter(Boolean),
+      row_count: parsed.data.length,
+    })
+    .select('id, columns, row_count, updated_at')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to save lookup table: ${error.message}`)
+  }
+
+  return mapLookupTable(data as LookupTableRow)
+}
+
+/**
+ * Columns and row counts of an organization's lookup tables, by id
+ */
+export async function getLookupTableSummaries(organizationId: string): Promise<Record<string, LookupTableSummary>> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('enrichment_lookup_tables')
+    .select('id, columns, row_count, updated_at')
+    .eq('organization_id', organizationId)
+
+  if (error) {
+    throw new Error(`Failed to load lookup tables: ${error.message}`)
+  }
+
+  return Object.fromEntries(((data || []) as LookupTableRow[]).map((row) => [row.id, mapLookupTable(row)]))
+}
+
+/**
+ * CSV text of the given lookup tables, by id. Ids from another organization
+ * are ignored.
+ */
+export async function getLookupTableContents(
+  organizationId: string,
+  tableIds: string[]
+): Promise<Record<string, string>> {
+  if (tableIds.length === 0) return {}
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('enrichment_lookup_tables')
+    .select('id, csv')
+    .eq('organization_id', organizationId)
+    .in('id', tableIds)
+
+  if (error) {
+    throw new Error(`Failed to load lookup tables: ${error.message}`)
+  }
+
+  return Object.fromEntries((data || []).map((row) => [row.id as string, row.csv as string]))
+}
+
+/**
+ * Drop lookup tables no provider references any more, including uploads
+ * whose settings were never saved, once they're past the grace period
+ */
+export async function deleteUnusedLookupTables(organizationId: string, tableIds: string[]): Promise<void> {
+  const supabase = createAdminClient()
+
+  let query = supabase
+    .from('enrichment_lookup_tables')
+    .delete()
+    .eq('organization_id', organizationId)
+    .lt('created_at', new Date(Date.now() - UNSAVED_UPLOAD_GRACE_MS).toISOString())
+  if (tableIds.length > 0) {
+    query = query.not('id', 'in', `(${tableIds.join(',')})`)
+  }
+  const { error } = await query
+
+  if (error) {
+    throw new Error(`Failed to remove lookup tables: ${error.message}`)
+  }
+}
+
+function mapLookupTable(row: LookupTableRow): LookupTableSummary {
+  return {
+    id: row.id,
+    columns: row.columns,
+    rowCount: row.row_count,
+    updatedAt: row.updated_at,
+  }
+}
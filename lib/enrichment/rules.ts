@@ -0,0 +1,64 @@
+/**
+ * Rule-based enrichment provider
+ */
+
+import { assessAuthority } from '@/lib/enrich'
+import { validateContact, heuristicMxResolver, createDnsMxResolver, type MxResolver } from '@/lib/contact-validation'
+import type { TitleTaxonomy } from '@/lib/title-taxonomy'
+import type { Lead } from '@/types'
+import type { EnrichmentProvider, EnrichmentResult, EnrichmentType } from './types'
+import type { ProviderSettings } from './index'
+
+/**
+ * Deterministic enrichment from the lead's own answers: authority from the
+ * job title via the organization's title taxonomy, contact validation, and
+ * the company size the lead gave
+ */
+export class RulesEnrichmentProvider implements EnrichmentProvider {
+  readonly type = 'rules' as const
+  readonly id: string
+  readonly name: string
+  readonly priority: number
+  readonly enrichmentTypes: EnrichmentType[]
+  private taxonomy?: TitleTaxonomy
+  private mxResolver: MxResolver
+
+  /**
+   * @param options.mxResolver Mail server check for contact validation; defaults to the mx_lookup setting
+   */
+  constructor(
+    settings: ProviderSettings,
+    options: { taxonomy?: TitleTaxonomy; mxResolver?: MxResolver } = {}
+  ) {
+    this.id = settings.id
+    this.name = settings.name
+    this.priority = settings.priority
+    this.enrichmentTypes = settings.enrichment_types
+    this.taxonomy = options.taxonomy
+    this.mxResolver = options.mxResolver
+      ?? (settings.mx_lookup === 'dns' ? createDnsMxResolver() : heuristicMxResolver)
+  }
+
+  async enrich(lead: Lead, enrichmentType: EnrichmentType): Promise<EnrichmentResult | null> {
+    if (enrichmentType === 'authority_assessment') {
+      return { data: { ...assessAuthority(lead, this.taxonomy) }, confidence: 0.9, source: 'rule_based' }
+    }
+
+    if (enrichmentType === 'contact_validation') {
+      const contact = await validateContact(lead, this.mxResolver)
+      // Offline heuristics can't confirm most mail servers
+      const confidence = this.mxResolver === heuristicMxResolver ? 0.8 : 0.9
+      return { data: { ...contact }, confidence, source: `rule_based:${this.mxResolver.name}` }
+    }
+
+    if (enrichmentType === 'company_research' && lead.company_size) {
+      return {
+        data: { company_size_estimate: `${lead.company_size} employees` },
+        confidence: 0.9,
+        source: 'rule_based',
+      }
+    }
+
+    return null
+  }
+}
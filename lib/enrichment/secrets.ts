@@ -0,0 +1,102 @@
+/**
+ * Enrichment provider secrets
+ * Request headers for HTTP providers, kept in enrichment_provider_secrets
+ * (admin-only) instead of organizations.settings, which every member can
+ * read. Values are only ever read server-side; the settings page sees which
+ * header names are set.
+ */
+
+import { z } from 'zod'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+/**
+ * Header changes per provider id: a string sets the header, null removes it.
+ * Headers that aren't listed keep their saved value.
+ */
+export const providerSecretsUpdateSchema = z.record(
+  z.string().regex(/^[a-z0-9_-]{1,40}$/, 'Unknown provider id'),
+  z.record(
+    z.string().regex(/^[A-Za-z0-9-]{1,64}$/, 'Header names may only contain letters, numbers and -'),
+    z.string().trim().min(1).max(4000).nullable()
+  )
+)
+
+export type ProviderSecretsUpdate = z.infer<typeof providerSecretsUpdateSchema>
+
+/**
+ * Saved headers for each provider of an organization
+ */
+export async function getProviderSecrets(
+  organizationId: string
+): Promise<Record<string, Record<string, string>>> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('enrichment_provider_secrets')
+    .select('provider_id, headers')
+    .eq('organization_id', organizationId)
+
+  if (error) {
+    throw new Error(`Failed to load enrichment provider secrets: ${error.message}`)
+  }
+
+  const secrets: Record<string, Record<string, string>> = {}
+  for (const row of data || []) {
+    secrets[row.provider_id] = (row.headers || {}) as Record<string, string>
+  }
+  return secrets
+}
+
+/**
+ * Names of the saved headers for each provider, without their values
+ */
+export async function getProviderSecretHeaderNames(organizationId: string): Promise<Record<string, string[]>> {
+  const secrets = await getProviderSecrets(organizationId)
+  return Object.fromEntries(Object.entries(secrets).map(([providerId, headers]) => [providerId, Object.keys(headers)]))
+}
+
+/**
+ * Apply header changes and drop the secrets of providers that no longer exist
+ */
+export async function updateProviderSecrets(
+  organizationId: string,
+  updates: ProviderSecretsUpdate,
+  providerIds: string[]
+): Promise<void> {
+  const supabase = createAdminClient()
+  const current = await getProviderSecrets(organizationId)
+
+  const rows = Object.entries(updates)
+    .filter(([providerId]) => providerIds.includes(providerId))
+    .map(([providerId, changes]) => {
+      const headers = { ...(current[providerId] || {}) }
+      for (const [name, value] of Object.entries(changes)) {
+        if (value === null) delete headers[name]
+        else headers[name] = value
+      }
+      return { organization_id: organizationId, provider_id: providerId, headers }
+    })
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from('enrichment_provider_secrets')
+      .upsert(rows, { onConflict: 'organization_id,provider_id' })
+
+    if (error) {
+      throw new Error(`Failed to save enrichment provider secrets: ${error.message}`)
+    }
+  }
+
+  const removed = Object.keys(current).filter((providerId) => !providerIds.includes(providerId))
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from('enrichment_provider_secrets')
+      .delete()
+      .eq('organization_id', organizationId)
+      .in('provider_id', removed)
+
+    if (error) {
+      throw new Error(`Failed to remove enrichment provider secrets: ${error.message}`)
+    }
+  }
+}
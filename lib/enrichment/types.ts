@@ -0,0 +1,39 @@
+/**
+ * Enrichment provider types
+ */
+
+import type {
+  ENRICHMENT_TYPES,
+  ENRICHMENT_PROVIDER_TYPES,
+  ENRICHMENT_MERGE_STRATEGIES,
+} from '@/lib/constants'
+import type { Lead } from '@/types'
+
+export type EnrichmentType = (typeof ENRICHMENT_TYPES)[number]
+export type EnrichmentProviderType = (typeof ENRICHMENT_PROVIDER_TYPES)[number]
+export type EnrichmentMergeStrategy = (typeof ENRICHMENT_MERGE_STRATEGIES)[number]
+
+/**
+ * What one provider found for one enrichment type. Data may hold only some
+ * of the type's fields; the pipeline merges it with other providers.
+ */
+export interface EnrichmentResult {
+  data: Record<string, unknown>
+  confidence: number // 0-1
+  // Recorded source when it differs from the provider, e.g. a shared company profile
+  source?: string
+  companyProfileId?: string | null
+}
+
+/**
+ * A source of enrichment data. Implementations return null for types they
+ * have nothing for, and throw only on unexpected failures.
+ */
+export interface EnrichmentProvider {
+  readonly id: string
+  readonly name: string
+  readonly type: EnrichmentProviderType
+  readonly priority: number // lower wins
+  readonly enrichmentTypes: EnrichmentType[]
+  enrich(lead: Lead, enrichmentType: EnrichmentType): Promise<EnrichmentResult | null>
+}
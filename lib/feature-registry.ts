@@ -0,0 +1,214 @@
+import { z } from 'zod'
+import { createAdminClient } from '@/lib/supabase/admin'
+import {
+  FEATURE_SOURCE_TYPES,
+  CUSTOM_FEATURE_LEAD_FIELDS,
+  CUSTOM_FEATURE_ENRICHMENT_PATHS,
+} from '@/lib/constants'
+import type { FeatureVector, CustomFeatureKey } from '@/lib/features'
+import type { LeadEnrichmentSet } from '@/lib/enrich'
+import type { Lead, ICPCriterion, CustomFeatureSource } from '@/types'
+
+/**
+ * Custom ICP criteria as learned features. Each criterion with type
+ * 'custom' becomes a custom_<criterion id> feature scored 0-1 on how well
+ * the lead's data matches its ideal values, with its own weight that
+ * retraining learns like any other feature.
+ */
+
+export const customFeatureSourceSchema = z
+  .object({
+    type: z.enum(FEATURE_SOURCE_TYPES),
+    key: z.string().trim().min(1, 'Feature source key is required').max(100),
+  })
+  // Lead fields and enrichment values are fixed lists; custom field names are free-form
+  .refine(
+    (source) => source.type !== 'lead_field' || (CUSTOM_FEATURE_LEAD_FIELDS as readonly string[]).includes(source.key),
+    { message: 'Unknown lead field', path: ['key'] }
+  )
+  .refine(
+    (source) => source.type !== 'enrichment' || (CUSTOM_FEATURE_ENRICHMENT_PATHS as readonly string[]).includes(source.key),
+    { message: 'Unknown enrichment value', path: ['key'] }
+  )
+  .nullable()
+
+// No data at all for the criterion: neither evidence for nor against
+const NO_DATA_VALUE = 0.5
+
+export interface CustomFeatureDefinition {
+  key: CustomFeatureKey
+  criterionId: string
+  label: string
+  source: CustomFeatureSource | null
+  defaultWeight: number
+}
+
+export function customFeatureKey(criterion: Pick<ICPCriterion, 'id'>): CustomFeatureKey {
+  return `custom_${criterion.id}`
+}
+
+/**
+ * Feature definitions for an organization's custom criteria
+ */
+export function getCustomFeatureDefinitions(criteria: ICPCriterion[]): CustomFeatureDefinition[] {
+  return criteria
+    .filter((c) => c.data_type === 'custom')
+    .map((c) => ({
+      key: customFeatureKey(c),
+      criterionId: c.id,
+      label: c.name,
+      source: c.feature_source ?? null,
+      // Stored criterion weights are 1-10; the built-in ICP features sit at 0.05-0.10
+      defaultWeight: Math.max(1, Math.min(10, c.weight)) / 100,
+    }))
+}
+
+/**
+ * Load the custom feature definitions for an organization
+ */
+export async function loadCustomFeatureDefinitions(
+  organizationId: string
+): Promise<CustomFeatureDefinition[]> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('icp_criteria')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('type', 'custom')
+
+  if (error) {
+    throw new Error(`Failed to fetch ICP criteria: ${error.message}`)
+  }
+
+  return getCustomFeatureDefinitions(
+    (data || []).map((c) => ({ ...c, data_type: c.data_type ?? c.type }) as ICPCriterion)
+  )
+}
+
+/**
+ * Extract a 0-1 value per custom criterion from lead fields, custom form
+ * answers or enrichment data
+ */
+export function extractCustomFeatures(
+  lead: Lead,
+  criteria: ICPCriterion[],
+  enrichments: LeadEnrichmentSet = {}
+): Record<CustomFeatureKey, number> {
+  const features: Record<CustomFeatureKey, number> = {}
+
+  for (const criterion of criteria) {
+    if (criterion.data_type !== 'custom') continue
+    const source = criterion.feature_source ?? null
+    const idealValues = criterion.ideal_values || []
+
+    // Without a source or ideal values, nearly every lead has some data
+    // somewhere, so the feature would be constant; keep it neutral instead
+    if (!source && idealValues.every((i) => i.trim() === '')) {
+      features[customFeatureKey(criterion)] = NO_DATA_VALUE
+      continue
+    }
+
+    const values = collectSourceValues(lead, enrichments, source)
+    features[customFeatureKey(criterion)] = matchCustomValues(values, idealValues)
+  }
+
+  return features
+}
+
+/**
+ * Weights with a default for every custom criterion the model hasn't
+ * learned a weight for yet (e.g. criteria added since the last training)
+ */
+export function withCustomFeatureWeights(
+  weights: FeatureVector,
+  definitions: CustomFeatureDefinition[]
+): FeatureVector {
+  const merged = { ...weights }
+  for (const definition of definitions) {
+    if (merged[definition.key] === undefined) {
+      merged[definition.key] = definition.defaultWeight
+    }
+  }
+  return merged
+}
+
+/**
+ * Display names for custom features, keyed by feature key
+ */
+export function customFeatureLabels(definitions: CustomFeatureDefinition[]): Record<string, string> {
+  return Object.fromEntries(definitions.map((d) => [d.key, d.label]))
+}
+
+/**
+ * Score how well any of the collected values matches the ideal values:
+ * 1 for an exact match, 0.8 when an ideal value appears as whole words
+ * within a value (so "ai" doesn't match "email"), 0.3 for no match. Yes/no answers count on their own when there are no
+ * ideal values.
+ */
+export function matchCustomValues(values: string[], idealValues: string[]): number {
+  const normalized = values.map((v) => v.toLowerCase().trim()).filter((v) => v !== '')
+  if (normalized.length === 0) return NO_DATA_VALUE
+
+  if (idealValues.length === 0) {
+    if (normalized.some((v) => ['yes', 'true', '1'].includes(v))) return 1.0
+    if (normalized.every((v) => ['no', 'false', '0'].includes(v))) return 0.0
+    return 0.6 // Slightly positive if data exists but no ideals
+  }
+
+  const ideals = idealValues.map((i) => i.toLowerCase().trim()).filter((i) => i !== '')
+  if (normalized.some((v) => ideals.includes(v))) return 1.0
+  const paddedWords = normalized.map((v) => ` ${toWords(v)} `)
+  const idealWords = ideals.map(toWords).filter((i) => i !== '')
+  if (paddedWords.some((v) => idealWords.some((i) => v.includes(` ${i} `)))) return 0.8
+
+  return 0.3
+}
+
+function collectSourceValues(
+  lead: Lead,
+  enrichments: LeadEnrichmentSet,
+  source: CustomFeatureSource | null
+): string[] {
+  if (source?.type === 'lead_field') {
+    // Criteria saved before the field list was enforced may name other columns
+    const field = CUSTOM_FEATURE_LEAD_FIELDS.find((f) => f === source.key)
+    return field ? toStrings(lead[field]) : []
+  }
+  if (source?.type === 'custom_field') {
+    return toStrings(lead.custom_fields?.[source.key])
+  }
+  if (source?.type === 'enrichment') {
+    return toStrings(readPath(enrichments, source.key))
+  }
+
+  // No explicit source: look everywhere the criterion could plausibly be answered
+  return [
+    ...CUSTOM_FEATURE_LEAD_FIELDS.flatMap((field) => toStrings(lead[field])),
+    ...Object.values(lead.custom_fields || {}).flatMap(toStrings),
+    ...CUSTOM_FEATURE_ENRICHMENT_PATHS.flatMap((path) => toStrings(readPath(enrichments, path))),
+  ]
+}
+
+// Lowercase words separated by single spaces; ASCII punctuation splits words
+function toWords(value: string): string {
+  return value.toLowerCase().replace(/[\s!-/:-@[-`{-~]+/g, ' ').trim()
+}
+
+function readPath(enrichments: LeadEnrichmentSet, path: string): unknown {
+  let value: unknown = enrichments
+  for (const part of path.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined
+    value = (value as Record<string, unknown>)[part]
+  }
+  return value
+}
+
+function toStrings(value: unknown): string[] {
+  if (value === null || value === undefined) return []
+  if (Array.isArray(value)) return value.flatMap(toStrings)
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return [String(value)]
+  }
+  return []
+}
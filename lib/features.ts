@@ -1,10 +1,21 @@
-import type { Lead, ICPCriterion } from '@/types'
+import { getScoreTier } from '@/lib/tiers'
+import { PERSONAL_EMAIL_DOMAINS } from '@/lib/constants'
+import { classifyTitle, type TitleTaxonomy } from '@/lib/title-taxonomy'
+import type { Lead, ICPCriterion, ScoreTier } from '@/types'
+
+/**
+ * Key of a feature derived from a custom ICP criterion (see lib/feature-registry.ts)
+ */
+export type CustomFeatureKey = `custom_${string}`
 
 /**
  * Feature vector for ML-based lead scoring
  * All features are normalized to 0-1 scale
  */
 export interface FeatureVector {
+  // Custom ICP criteria, one learned feature per criterion
+  [key: CustomFeatureKey]: number
+
   // ICP alignment features (from criteria matching)
   company_size_match: number
   industry_match: number
@@ -112,9 +123,11 @@ export function extractFeatures(
     intent?: { buying_intent_score?: number; urgency_score?: number }
     authority?: { authority_level?: number }
     company?: { health_score?: number }
+    contact?: { contact_quality_score?: number }
   },
   behavioral?: BehavioralScores,
-  tracking?: TrackingParams
+  tracking?: TrackingParams,
+  taxonomy?: TitleTaxonomy
 ): FeatureVector {
   // Build criteria lookup by type/name
   const criteriaByType: Record<string, ICPCriterion> = {}
@@ -143,7 +156,8 @@ export function extractFeatures(
     ),
     job_title_match: calculateTitleMatch(
       lead.job_title,
-      findCriterion(criteriaByType, ['job_title', 'title', 'role', 'position'])
+      findCriterion(criteriaByType, ['job_title', 'title', 'role', 'position']),
+      taxonomy
     ),
 
     // AI-derived features (from enrichment, default to 0.5 if not available)
@@ -161,7 +175,10 @@ export function extractFeatures(
 
     // Data quality features
     data_completeness: calculateDataCompleteness(lead),
-    contact_quality: calculateContactQuality(lead),
+    // Validated contact details when available, otherwise what the lead record shows
+    contact_quality: typeof enrichments?.contact?.contact_quality_score === 'number'
+      ? normalizeScore(enrichments.contact.contact_quality_score, 0.5)
+      : calculateContactQuality(lead),
   }
 }
 
@@ -271,12 +288,123 @@ export function calculateWeightedScore(
 }
 
 /**
- * Get score label from numeric score
+ * Display names for each feature
+ */
+export const FEATURE_LABELS: Record<keyof FeatureVector, string> = {
+  company_size_match: 'Company Size',
+  industry_match: 'Industry',
+  budget_match: 'Budget',
+  timeline_match: 'Timeline',
+  job_title_match: 'Job Title',
+  buying_intent_score: 'Buying Intent',
+  authority_level: 'Authority',
+  company_health_score: 'Company Health',
+  urgency_indicators: 'Urgency',
+  engagement_score: 'Engagement',
+  behavioral_intent_score: 'Behavioral Intent',
+  recency_score: 'Recency',
+  frequency_score: 'Visit Frequency',
+  channel_quality_score: 'Channel Quality',
+  data_completeness: 'Data Completeness',
+  contact_quality: 'Contact Quality',
+}
+
+/**
+ * One feature's share of the weighted model score
+ */
+export interface FeatureContribution {
+  feature: keyof FeatureVector
+  label: string
+  value: number
+  weight: number
+  contribution: number // Points added to the 0-100 model score
+  baseline_value: number | null
+  delta: number | null // Contribution minus the baseline lead's contribution
+}
+
+/**
+ * Break a weighted score down into per-feature contributions.
+ * Contributions sum to the unrounded score from calculateWeightedScore.
+ * When a baseline vector is given (e.g. the average converted lead), each
+ * feature also reports how far its contribution sits from the baseline's.
+ * Custom criterion features take their display names from labels.
  */
-export function getScoreLabel(score: number): 'hot' | 'warm' | 'cold' {
-  if (score >= 80) return 'hot'
-  if (score >= 50) return 'warm'
-  return 'cold'
+export function explainWeightedScore(
+  features: FeatureVector,
+  weights: FeatureVector = DEFAULT_FEATURE_WEIGHTS,
+  baseline?: FeatureVector | null,
+  labels: Record<string, string> = {}
+): FeatureContribution[] {
+  const keys = Object.keys(features) as Array<keyof FeatureVector>
+  const totalWeight = keys.reduce((sum, key) => sum + (weights[key] || 0), 0)
+  const points = (value: number, weight: number) =>
+    totalWeight > 0 ? (value * weight / totalWeight) * 100 : 0
+  const round = (n: number, digits = 2) => Number(n.toFixed(digits))
+
+  return keys
+    .map((key) => {
+      const weight = weights[key] || 0
+      const contribution = points(features[key], weight)
+      const baselineValue = baseline ? baseline[key] ?? null : null
+      return {
+        feature: key,
+        label: labels[key] || FEATURE_LABELS[key] || key,
+        value: round(features[key], 3),
+        weight: round(weight, 4),
+        contribution: round(contribution),
+        baseline_value: baselineValue !== null ? round(baselineValue, 3) : null,
+        delta: baselineValue !== null ? round(contribution - points(baselineValue, weight)) : null,
+      }
+    })
+    .sort((a, b) => b.contribution - a.contribution)
+}
+
+/**
+ * Blend the LLM score with the learned model score.
+ * llmRatio is the share given to the LLM (1 = LLM only, 0 = model only).
+ */
+export function blendScores(llmScore: number, modelScore: number, llmRatio: number): number {
+  const ratio = Math.min(1, Math.max(0, llmRatio))
+  return Math.round(llmScore * ratio + modelScore * (1 - ratio))
+}
+
+/**
+ * Get score label (tier id) from numeric score
+ */
+export function getScoreLabel(score: number, tiers?: ScoreTier[]): string {
+  return getScoreTier(score, tiers).id
+}
+
+/**
+ * Match score (0-1) of a lead against a single criterion, or null when the
+ * criterion does not map onto a lead field (e.g. custom criteria)
+ */
+export function calculateSingleCriterionMatch(
+  lead: Lead,
+  criterion: ICPCriterion,
+  taxonomy?: TitleTaxonomy
+): number | null {
+  const key = criterion.name.toLowerCase().replace(/[^a-z_]/g, '_')
+  const matches = (names: string[]) =>
+    names.includes(key) || names.includes(criterion.data_type)
+
+  if (matches(['company_size', 'size', 'employees'])) {
+    return calculateCriterionMatch(lead.company_size, criterion)
+  }
+  if (matches(['industry', 'vertical', 'sector'])) {
+    return calculateCriterionMatch(lead.industry, criterion)
+  }
+  if (matches(['budget', 'budget_range', 'price'])) {
+    return calculateBudgetMatch(lead.budget_range, criterion)
+  }
+  if (matches(['timeline', 'timeframe', 'urgency'])) {
+    return calculateTimelineMatch(lead.timeline, criterion)
+  }
+  if (matches(['job_title', 'title', 'role', 'position'])) {
+    return calculateTitleMatch(lead.job_title, criterion, taxonomy)
+  }
+
+  return null
 }
 
 /**
@@ -397,34 +525,30 @@ function calculateTimelineMatch(
 }
 
 /**
- * Calculate job title match with seniority awareness
+ * Calculate job title match with seniority awareness. Seniority comes from
+ * the organization's title taxonomy; titles it can't place are scored by
+ * department, then by the criterion's ideal values.
  */
 function calculateTitleMatch(
   title: string | null,
-  criterion?: ICPCriterion
+  criterion?: ICPCriterion,
+  taxonomy?: TitleTaxonomy
 ): number {
   if (!title) return 0.4
 
-  const titleLower = title.toLowerCase()
-
-  // Decision-maker titles
-  const executiveKeywords = ['ceo', 'cto', 'cfo', 'coo', 'cmo', 'cio', 'chief', 'president', 'owner', 'founder', 'partner']
-  const vpKeywords = ['vp', 'vice president', 'svp', 'evp', 'head of']
-  const directorKeywords = ['director', 'senior director', 'managing director']
-  const managerKeywords = ['manager', 'lead', 'senior', 'principal']
-  const icKeywords = ['analyst', 'associate', 'coordinator', 'specialist', 'assistant', 'intern']
-
-  // Score based on seniority
-  if (executiveKeywords.some(k => titleLower.includes(k))) return 1.0
-  if (vpKeywords.some(k => titleLower.includes(k))) return 0.9
-  if (directorKeywords.some(k => titleLower.includes(k))) return 0.8
-  if (managerKeywords.some(k => titleLower.includes(k))) return 0.65
+  const classification = classifyTitle(title, taxonomy)
+  if (classification.level) return classification.level.title_score
 
-  // Individual contributors typically have less buying power
-  if (icKeywords.some(k => titleLower.includes(k))) return 0.35
-
-  // Fall back to criterion matching if available
   if (criterion) {
+    // An ideal value like "Marketing" or "VP Marketing" counts a
+    // "Growth Hacker" as a department match
+    const department = classification.department?.id
+    if (
+      department &&
+      (criterion.ideal_values || []).some((ideal) => classifyTitle(ideal, taxonomy).department?.id === department)
+    ) {
+      return 0.8
+    }
     return calculateCriterionMatch(title, criterion)
   }
 
@@ -461,17 +585,18 @@ function calculateDataCompleteness(lead: Lead): number {
 }
 
 /**
- * Calculate contact quality score
+ * Calculate contact quality score from the lead record alone, for leads
+ * without a contact validation enrichment. Validated scores use the same
+ * scale, so keep the increments in step with lib/contact-validation.
  */
 function calculateContactQuality(lead: Lead): number {
   let score = 0.5
 
   // Email quality
   if (lead.email) {
-    const email = lead.email.toLowerCase()
+    const domain = lead.email.toLowerCase().split('@').pop() || ''
     // Business email domains are higher quality
-    const personalDomains = ['gmail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'aol.com']
-    const isPersonal = personalDomains.some(d => email.endsWith(d))
+    const isPersonal = PERSONAL_EMAIL_DOMAINS.includes(domain)
     score += isPersonal ? 0.1 : 0.25
   }
 
@@ -537,5 +662,23 @@ export function deserializeFeatures(data: Record<string, number>): FeatureVector
     channel_quality_score: data.channel_quality_score ?? 0.5,
     data_completeness: data.data_completeness ?? 0.5,
     contact_quality: data.contact_quality ?? 0.5,
+    ...pickCustomFeatures(data),
   }
 }
+
+/**
+ * Custom criterion features of a stored vector
+ */
+export function pickCustomFeatures(data: Record<string, number>): Record<CustomFeatureKey, number> {
+  const custom: Record<CustomFeatureKey, number> = {}
+  for (const [key, value] of Object.entries(data)) {
+    if (isCustomFeatureKey(key) && typeof value === 'number') {
+      custom[key] = value
+    }
+  }
+  return custom
+}
+
+export function isCustomFeatureKey(key: string): key is CustomFeatureKey {
+  return key.startsWith('custom_')
+}
@@ -1,4 +1,3 @@
-import Anthropic from '@anthropic-ai/sdk'
 import {
   COMPANY_SIZES,
   INDUSTRIES,
@@ -6,12 +5,9 @@ import {
   TIMELINES,
   CRITERION_TYPES,
 } from '@/lib/constants'
+import { generateValidated, icpGenerationSchema } from '@/lib/llm'
 import type { CriterionType } from '@/types'
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-})
-
 // Core interfaces for ICP generation
 export interface GeneratedCriterion {
   name: string
@@ -70,41 +66,28 @@ const JOB_TITLE_CATEGORIES = [
 /**
  * Generate ICP criteria from a company domain using AI research
  */
-export async function generateICPFromDomain(domain: string): Promise<ICPGenerationResult> {
+export async function generateICPFromDomain(
+  domain: string,
+  organizationId?: string
+): Promise<ICPGenerationResult> {
   const prompt = buildDomainAnalysisPrompt(domain)
 
-  const message = await anthropic.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 2048,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
-  })
-
-  const textContent = message.content.find((c) => c.type === 'text')
-  if (!textContent || textContent.type !== 'text') {
-    throw new Error('No text response from Claude')
-  }
-
-  const jsonMatch = textContent.text.match(/\{[\s\S]*\}/)
-  if (!jsonMatch) {
-    throw new Error('No JSON found in response')
-  }
-
-  const parsed = JSON.parse(jsonMatch[0])
+  const { data } = await generateValidated(
+    { purpose: 'icp_generation', prompt, maxTokens: 2048 },
+    icpGenerationSchema,
+    { organizationId }
+  )
 
-  // Validate and normalize the response
-  return normalizeGenerationResult(parsed)
+  // Map values onto the standard options and balance weights
+  return normalizeGenerationResult(data)
 }
 
 /**
  * Generate ICP criteria from CSV customer data
  */
 export async function generateICPFromCSV(
-  customers: CustomerRecord[]
+  customers: CustomerRecord[],
+  organizationId?: string
 ): Promise<ICPGenerationResult> {
   // First, analyze patterns statistically
   const patterns = analyzeCustomerPatterns(customers)
@@ -112,30 +95,13 @@ export async function generateICPFromCSV(
   // Then use AI to interpret patterns and generate recommendations
   const prompt = buildCSVAnalysisPrompt(patterns)
 
-  const message = await anthropic.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 2048,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
-  })
-
-  const textContent = message.content.find((c) => c.type === 'text')
-  if (!textContent || textContent.type !== 'text') {
-    throw new Error('No text response from Claude')
-  }
-
-  const jsonMatch = textContent.text.match(/\{[\s\S]*\}/)
-  if (!jsonMatch) {
-    throw new Error('No JSON found in response')
-  }
-
-  const parsed = JSON.parse(jsonMatch[0])
+  const { data } = await generateValidated(
+    { purpose: 'icp_generation', prompt, maxTokens: 2048 },
+    icpGenerationSchema,
+    { organizationId }
+  )
 
-  return normalizeGenerationResult(parsed)
+  return normalizeGenerationResult(data)
 }
 
 /**
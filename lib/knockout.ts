@@ -0,0 +1,155 @@
+/**
+ * Knockout Rules
+ * Deterministic disqualification applied after either scoring path, so
+ * required criteria and blocked values hold regardless of what the model says
+ */
+
+import { z } from 'zod'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { calculateSingleCriterionMatch } from '@/lib/features'
+import { getBottomTier } from '@/lib/tiers'
+import type { TitleTaxonomy } from '@/lib/title-taxonomy'
+import type { Lead, ICPCriterion, QualificationResult, ScoreTier } from '@/types'
+
+// Academic domains (.edu, .edu.au, .ac.uk, ...) and student mail subdomains
+const STUDENT_DOMAIN_PATTERNS = [
+  /\.edu(\.[a-z]{2})?$/,
+  /\.ac\.[a-z]{2}$/,
+  /(^|\.)students?\./,
+]
+
+/**
+ * Per-organization knockout settings, stored at organizations.settings.knockout
+ */
+export const knockoutSettingsSchema = z.object({
+  // Required criteria scoring below this (0-100) force a cold label
+  required_min_score: z.number().min(0).max(100).default(30),
+  competitor_domains: z.array(z.string().min(1)).default([]),
+  blocked_email_domains: z.array(z.string().min(1)).default([]),
+  block_student_emails: z.boolean().default(false),
+})
+
+export type KnockoutSettings = z.infer<typeof knockoutSettingsSchema>
+
+export interface KnockoutOutcome {
+  result: QualificationResult
+  reasons: string[]
+}
+
+/**
+ * Load knockout settings for an organization, falling back to defaults
+ */
+export async function getKnockoutSettings(organizationId: string): Promise<KnockoutSettings> {
+  const supabase = createAdminClient()
+
+  const { data: org } = await supabase
+    .from('organizations')
+    .select('settings')
+    .eq('id', organizationId)
+    .single()
+
+  const parsed = knockoutSettingsSchema.safeParse(org?.settings?.knockout ?? {})
+  return parsed.success ? parsed.data : knockoutSettingsSchema.parse({})
+}
+
+/**
+ * Apply knockout rules to a scoring result. Any hit forces the lead into the
+ * bottom tier and writes the reason into the breakdown and reasoning.
+ */
+export function applyKnockoutRules(
+  result: QualificationResult,
+  lead: Lead,
+  criteria: ICPCriterion[],
+  settings: KnockoutSettings,
+  tiers: ScoreTier[],
+  taxonomy?: TitleTaxonomy
+): KnockoutOutcome {
+  const breakdown = { ...result.breakdown }
+  const reasons: string[] = []
+  let disqualified = false
+
+  // Required criteria are scored deterministically; the model's own breakdown
+  // is only used for criteria that don't map onto a lead field
+  for (const criterion of criteria) {
+    if (!criterion.is_required) continue
+
+    const match = calculateSingleCriterionMatch(lead, criterion, taxonomy)
+    const score = match !== null
+      ? Math.round(match * 100)
+      : breakdown[criterion.name]?.score
+
+    if (score === undefined || score >= settings.required_min_score) continue
+
+    const reason = `Required criterion "${criterion.name}" not met (${score}/100, minimum ${settings.required_min_score})`
+    breakdown[criterion.name] = { score, note: reason }
+    reasons.push(reason)
+  }
+
+  const domain = getEmailDomain(lead.email)
+  const websiteDomain = normalizeDomain(lead.company_website)
+
+  const competitor = settings.competitor_domains
+    .map(normalizeDomain)
+    .find((d) => d && (matchesDomain(domain, d) || matchesDomain(websiteDomain, d)))
+  if (competitor) {
+    reasons.push(`Lead is from competitor domain ${competitor}`)
+    disqualified = true
+  }
+
+  const blocked = settings.blocked_email_domains
+    .map(normalizeDomain)
+    .find((d) => d && matchesDomain(domain, d))
+  if (blocked) {
+    reasons.push(`Email domain ${blocked} is blocked`)
+    disqualified = true
+  }
+
+  if (settings.block_student_emails && domain && STUDENT_DOMAIN_PATTERNS.some((p) => p.test(domain))) {
+    reasons.push(`Student or academic email address (${domain})`)
+    disqualified = true
+  }
+
+  if (reasons.length === 0) {
+    return { result, reasons }
+  }
+
+  breakdown['Knockout'] = { score: 0, note: reasons.join('; ') }
+
+  // Knocked-out leads drop to the bottom tier, capped just below the next one
+  const bottomTier = getBottomTier(tiers)
+  const scoreCap = tiers.length > 1 ? tiers[tiers.length - 2].min_score - 1 : 100
+
+  return {
+    result: {
+      score: Math.min(result.score, scoreCap),
+      label: bottomTier.id,
+      reasoning: `Knocked out: ${reasons.join('; ')}. ${result.reasoning}`,
+      breakdown,
+      recommended_action: disqualified
+        ? 'Do not pursue; lead matches a disqualifying rule'
+        : 'Add to automated nurture sequence until required criteria are met',
+    },
+    reasons,
+  }
+}
+
+function getEmailDomain(email: string | null): string | null {
+  if (!email || !email.includes('@')) return null
+  return normalizeDomain(email.slice(email.lastIndexOf('@') + 1))
+}
+
+function normalizeDomain(value: string | null): string | null {
+  if (!value) return null
+  const domain = value
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .split(/[/?#:]/)[0]
+  return domain || null
+}
+
+// Exact domain or any subdomain of it
+function matchesDomain(domain: string | null, target: string): boolean {
+  return !!domain && (domain === target || domain.endsWith(`.${target}`))
+}
@@ -1,11 +1,26 @@
+import { z } from 'zod'
 import { createAdminClient } from '@/lib/supabase/admin'
 import {
   FeatureVector,
   DEFAULT_FEATURE_WEIGHTS,
   deserializeFeatures,
+  isCustomFeatureKey,
   calculateWeightedScore,
-  getScoreLabel,
+  blendScores,
 } from '@/lib/features'
+import {
+  fitLogisticRegression,
+  fitCalibration,
+  calibrateProbability,
+  rocAuc,
+  logLoss,
+  brierScore,
+  type ProbabilityCalibration,
+} from '@/lib/logistic'
+import { buildDistributionProfile, type DistributionProfile } from '@/lib/distribution'
+import { customFeatureLabels, loadCustomFeatureDefinitions } from '@/lib/feature-registry'
+import { getScoreTier, getTopTier } from '@/lib/tiers'
+import { getScoreTiers } from '@/lib/org-settings'
 
 /**
  * Outcome types for learning
@@ -16,10 +31,172 @@ export type OutcomeType = 'converted' | 'rejected' | 'no_response' | 'qualified_
  * Training data point
  */
 interface TrainingExample {
+  leadId: string
   features: FeatureVector
   outcome: OutcomeType
   outcomeValue: number | null // For converted: deal value
   daysToOutcome: number | null
+  llmScore: number | null // LLM component at scoring time, if any
+}
+
+/**
+ * Result of tuning the LLM/model blend ratio against outcomes
+ */
+export interface BlendTuning {
+  ratio: number
+  sampleSize: number
+  llmBrier: number
+  modelBrier: number
+  blendedBrier: number
+}
+
+/**
+ * Per-organization blend settings, stored at organizations.settings.blend.
+ * llm_ratio is the share of the final score taken from the LLM; with
+ * auto_tune on, the ratio tuned at training time takes precedence.
+ */
+export const blendSettingsSchema = z.object({
+  llm_ratio: z.number().min(0).max(1).default(0.7),
+  auto_tune: z.boolean().default(true),
+})
+
+export type BlendSettings = z.infer<typeof blendSettingsSchema>
+
+// Minimum holdout examples with an LLM score before the ratio is tuned
+const MIN_BLEND_TUNING_SAMPLES = 10
+
+// Ridge penalty for the logistic regression trainer
+const L2_PENALTY = 0.01
+
+// Holdout share and default seed for the train/test split. A fixed default
+// makes retraining on unchanged data reproduce the same metrics.
+const TEST_FRACTION = 0.2
+const DEFAULT_SPLIT_SEED = 42
+const MAX_CV_FOLDS = 10
+
+// PostgREST caps each response at 1000 rows
+const PAGE_SIZE = 1000
+
+// Value weighting caps how far one deal can outweigh an average one
+const MIN_VALUE_WEIGHT = 0.2
+const MAX_VALUE_WEIGHT = 5
+
+// Converted leads with a value a tier needs before it gets its own average
+const MIN_TIER_VALUE_SAMPLES = 5
+
+// Shuffles per feature for permutation importance, and bootstrap resamples
+// of the holdout for its confidence interval
+const PERMUTATION_REPEATS = 5
+const BOOTSTRAP_SAMPLES = 200
+const MIN_BOOTSTRAP_SAMPLES = 30
+
+// Examples scored for AUC across all features, shuffles and resamples. Large
+// holdouts get fewer of both so scheduled retraining stays within its budget.
+const PERMUTATION_WORK_BUDGET = 5_000_000
+
+/**
+ * Options for a retraining run
+ */
+export interface TrainingOptions {
+  seed?: number
+  folds?: number // k-fold cross-validation on the training split; omit or < 2 to skip
+  challenger?: boolean // Save as a shadow challenger instead of activating
+  minAucImprovement?: number // Keep the current model unless holdout AUC improves by this much
+  valueWeighted?: boolean // Weight converted examples by deal value
+}
+
+/**
+ * Average deal value of converted training leads, overall and per score
+ * tier, for turning a conversion probability into expected revenue, with
+ * how long those deals took to close
+ */
+export interface DealValueModel {
+  averageValue: number
+  sampleSize: number
+  averageDaysToClose?: number | null // Null when no conversion recorded its time to close
+  byTier: Record<string, { averageValue: number; sampleSize: number; averageDaysToClose?: number | null }>
+}
+
+/**
+ * Expected and realized deal value for leads scored with expected revenue
+ */
+export interface PipelineSummary {
+  closedLeads: number
+  predictedValue: number // Expected revenue of leads that have since closed
+  actualValue: number // Deal value those leads actually converted for
+  openLeads: number
+  openPredictedValue: number // Expected revenue still in the open pipeline
+}
+
+/**
+ * How examples were divided between training and holdout
+ */
+export interface SplitSummary {
+  seed: number
+  stratified: boolean
+  testFraction: number
+  trainSize: number
+  testSize: number
+}
+
+/**
+ * Holdout metrics for one cross-validation fold
+ */
+export interface FoldMetrics {
+  fold: number
+  trainSize: number
+  testSize: number
+  accuracy: number
+  f1Score: number
+  auc: number
+  logLoss: number
+  brierScore: number
+}
+
+/**
+ * Drop in holdout AUC when one feature's values are shuffled across leads,
+ * with a 95% bootstrap confidence interval
+ */
+export interface FeaturePermutationImportance {
+  importance: number
+  lower: number
+  upper: number
+  // The interval excludes zero
+  significant: boolean
+}
+
+export interface PermutationImportanceSummary {
+  sampleSize: number
+  repeats: number
+  bootstrapSamples: number
+  baselineAuc: number
+  features: Record<string, FeaturePermutationImportance>
+}
+
+/**
+ * k-fold cross-validation results with mean and standard deviation across folds
+ */
+export interface CrossValidationSummary {
+  folds: number
+  seed: number
+  foldMetrics: FoldMetrics[]
+  mean: { auc: number; logLoss: number; brierScore: number; accuracy: number }
+  std: { auc: number; logLoss: number; brierScore: number; accuracy: number }
+}
+
+/**
+ * How the feature weights were fit
+ */
+export interface TrainingSummary {
+  method: 'logistic_regression'
+  iterations: number
+  converged: boolean
+  l2: number
+  loss: number
+  intercept: number
+  coefficients: Record<string, number>
+  trainSize: number
+  valueWeighted?: boolean
 }
 
 /**
@@ -31,6 +208,9 @@ export interface ModelMetrics {
   recall: number
   f1Score: number
   auc: number
+  // Probability metrics, on calibrated holdout predictions (absent on older models)
+  logLoss?: number
+  brierScore?: number
   confusionMatrix: {
     truePositives: number
     falsePositives: number
@@ -38,6 +218,16 @@ export interface ModelMetrics {
     falseNegatives: number
   }
   featureImportance: Record<string, number>
+  permutationImportance?: PermutationImportanceSummary
+  blend?: BlendTuning
+  training?: TrainingSummary
+  split?: SplitSummary
+  crossValidation?: CrossValidationSummary
+  // Training data as this model scores it, the reference for drift monitoring
+  baseline?: DistributionProfile
+  // Criterion names for custom features at training time
+  featureLabels?: Record<string, string>
+  dealValue?: DealValueModel
 }
 
 /**
@@ -50,7 +240,11 @@ export interface ScoringModel {
   featureWeights: FeatureVector
   performanceMetrics: ModelMetrics | null
   trainedOnCount: number
+  blendRatio: number | null
+  calibration: ProbabilityCalibration | null
   isActive: boolean
+  isChallenger: boolean
+  activatedAt: string | null
   createdAt: string
 }
 
@@ -73,18 +267,127 @@ export async function getActiveScoringModel(organizationId: string): Promise<Sco
     return null
   }
 
+  return mapScoringModel(data)
+}
+
+/**
+ * Get a specific model version for an organization, active or not
+ */
+export async function getScoringModelByVersion(
+  organizationId: string,
+  modelVersion: number
+): Promise<ScoringModel | null> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('scoring_models')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('model_version', modelVersion)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .single()
+
+  if (error || !data) {
+    return null
+  }
+
+  return mapScoringModel(data)
+}
+
+/**
+ * Get the shadow challenger model for an organization, if one is running
+ */
+export async function getChallengerModel(organizationId: string): Promise<ScoringModel | null> {
+  const supabase = createAdminClient()
+
+  const { data } = await supabase
+    .from('scoring_models')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('is_challenger', true)
+    .limit(1)
+    .maybeSingle()
+
+  return data ? mapScoringModel(data) : null
+}
+
+/**
+ * Every model version for an organization, newest first
+ */
+export async function listScoringModels(organizationId: string): Promise<ScoringModel[]> {
+  const supabase = createAdminClient()
+
+  const { data } = await supabase
+    .from('scoring_models')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('model_version', { ascending: false })
+
+  return (data || []).map(mapScoringModel)
+}
+
+/**
+ * A scoring_models row as PostgREST returns it; numeric columns may arrive
+ * as strings
+ */
+interface ScoringModelRow {
+  id: string
+  organization_id: string
+  model_version: number
+  feature_weights: Record<string, number>
+  performance_metrics: ModelMetrics | null
+  trained_on_count: number
+  blend_ratio: number | string | null
+  calibration: ProbabilityCalibration | null
+  is_active: boolean
+  is_challenger: boolean | null
+  activated_at: string | null
+  created_at: string
+}
+
+// Map a scoring_models row to a ScoringModel
+export function mapScoringModel(data: ScoringModelRow): ScoringModel {
   return {
     id: data.id,
     organizationId: data.organization_id,
     modelVersion: data.model_version,
     featureWeights: deserializeFeatures(data.feature_weights),
-    performanceMetrics: data.performance_metrics as ModelMetrics | null,
+    performanceMetrics: data.performance_metrics,
     trainedOnCount: data.trained_on_count,
+    blendRatio: data.blend_ratio !== null ? Number(data.blend_ratio) : null,
+    calibration: data.calibration ?? null,
     isActive: data.is_active,
+    isChallenger: data.is_challenger ?? false,
+    activatedAt: data.activated_at ?? null,
     createdAt: data.created_at,
   }
 }
 
+/**
+ * Resolve the LLM share of the blended score for an organization
+ */
+export async function getBlendRatio(
+  organizationId: string,
+  model: ScoringModel | null
+): Promise<number> {
+  const supabase = createAdminClient()
+
+  const { data: org } = await supabase
+    .from('organizations')
+    .select('settings')
+    .eq('id', organizationId)
+    .single()
+
+  const parsed = blendSettingsSchema.safeParse(org?.settings?.blend ?? {})
+  const settings = parsed.success ? parsed.data : blendSettingsSchema.parse({})
+
+  if (settings.auto_tune && model && model.blendRatio !== null) {
+    return model.blendRatio
+  }
+  return settings.llm_ratio
+}
+
 /**
  * Get training data for an organization
  */
@@ -114,14 +417,17 @@ async function getTrainingData(organizationId: string): Promise<TrainingExample[
     .from('scoring_history')
     .select('*')
     .in('lead_id', leadIds)
+    .eq('is_shadow', false)
     .order('created_at', { ascending: false })
 
-  // Build lookup for latest feature vector per lead
+  // Build lookup for latest feature vector (and LLM score) per lead
   const featuresByLead: Record<string, FeatureVector> = {}
+  const llmScoreByLead: Record<string, number | null> = {}
   if (scoringHistory) {
     for (const sh of scoringHistory) {
       if (!featuresByLead[sh.lead_id] && sh.feature_vector) {
         featuresByLead[sh.lead_id] = deserializeFeatures(sh.feature_vector)
+        llmScoreByLead[sh.lead_id] = sh.llm_score ?? null
       }
     }
   }
@@ -132,10 +438,12 @@ async function getTrainingData(organizationId: string): Promise<TrainingExample[
     const features = featuresByLead[outcome.lead_id]
     if (features) {
       examples.push({
+        leadId: outcome.lead_id,
         features,
         outcome: outcome.outcome_type as OutcomeType,
         outcomeValue: outcome.outcome_value,
         daysToOutcome: outcome.days_to_outcome,
+        llmScore: llmScoreByLead[outcome.lead_id] ?? null,
       })
     }
   }
@@ -143,11 +451,32 @@ async function getTrainingData(organizationId: string): Promise<TrainingExample[
   return examples
 }
 
+/**
+ * Average feature vector of an organization's converted leads, used as the
+ * reference point when explaining a lead's score
+ */
+export async function getConvertedFeatureBaseline(
+  organizationId: string
+): Promise<{ features: FeatureVector; sampleSize: number } | null> {
+  const converted = (await getTrainingData(organizationId)).filter(e => e.outcome === 'converted')
+  if (converted.length === 0) {
+    return null
+  }
+
+  const featureKeys = getFeatureKeys(converted)
+  const features = { ...DEFAULT_FEATURE_WEIGHTS }
+  for (const key of featureKeys) {
+    features[key] = converted.reduce((sum, e) => sum + featureValue(e, key), 0) / converted.length
+  }
+
+  return { features, sampleSize: converted.length }
+}
+
 /**
  * Calculate feature importance based on correlation with positive outcomes
  */
 export function calculateFeatureImportance(examples: TrainingExample[]): Record<keyof FeatureVector, number> {
-  const featureKeys = Object.keys(DEFAULT_FEATURE_WEIGHTS) as Array<keyof FeatureVector>
+  const featureKeys = getFeatureKeys(examples)
   const importance: Record<string, number> = {}
 
   // Separate positive (converted) and negative (rejected, no_response) outcomes
@@ -161,8 +490,8 @@ export function calculateFeatureImportance(examples: TrainingExample[]): Record<
 
   // Calculate average feature values for positive and negative outcomes
   for (const key of featureKeys) {
-    const posAvg = positiveExamples.reduce((sum, e) => sum + e.features[key], 0) / positiveExamples.length
-    const negAvg = negativeExamples.reduce((sum, e) => sum + e.features[key], 0) / negativeExamples.length
+    const posAvg = positiveExamples.reduce((sum, e) => sum + featureValue(e, key), 0) / positiveExamples.length
+    const negAvg = negativeExamples.reduce((sum, e) => sum + featureValue(e, key), 0) / negativeExamples.length
 
     // Importance is the difference in averages (normalized)
     // Higher values in positive examples = more important
@@ -173,100 +502,239 @@ export function calculateFeatureImportance(examples: TrainingExample[]): Record<
   // Normalize importance to sum to 1
   const total = Object.values(importance).reduce((sum, v) => sum + v, 0)
   for (const key of featureKeys) {
-    importance[key] = total > 0 ? importance[key] / total : DEFAULT_FEATURE_WEIGHTS[key]
+    importance[key] = total > 0 ? importance[key] / total : DEFAULT_FEATURE_WEIGHTS[key] ?? 0
   }
 
   return importance as Record<keyof FeatureVector, number>
 }
 
 /**
- * Adjust feature weights based on outcomes using gradient-like updates
+ * Built-in features plus every custom criterion feature seen in the examples
  */
-export function adjustWeights(
-  currentWeights: FeatureVector,
-  examples: TrainingExample[],
-  learningRate = 0.1
-): FeatureVector {
-  const featureKeys = Object.keys(currentWeights) as Array<keyof FeatureVector>
-  const newWeights = { ...currentWeights }
+function getFeatureKeys(examples: TrainingExample[]): Array<keyof FeatureVector> {
+  const customKeys = new Set<keyof FeatureVector>()
+  for (const example of examples) {
+    for (const key of Object.keys(example.features)) {
+      if (isCustomFeatureKey(key)) customKeys.add(key)
+    }
+  }
+  return [...(Object.keys(DEFAULT_FEATURE_WEIGHTS) as Array<keyof FeatureVector>), ...Array.from(customKeys)]
+}
 
-  // Calculate gradients based on prediction errors
-  for (const key of featureKeys) {
-    let gradient = 0
+// Leads scored before a custom criterion existed count as neutral on it
+function featureValue(example: TrainingExample, key: keyof FeatureVector): number {
+  return example.features[key] ?? 0.5
+}
 
-    for (const example of examples) {
-      // Calculate predicted score with current weights
-      const predictedScore = calculateWeightedScore(example.features, currentWeights)
-      const predictedLabel = getScoreLabel(predictedScore)
+/**
+ * 1 for converted, 0 for other closed outcomes, null while still open
+ */
+function outcomeLabel(outcome: OutcomeType): number | null {
+  if (outcome === 'in_progress') return null
+  return outcome === 'converted' ? 1 : 0
+}
 
-      // Target score based on outcome
-      const targetScore =
-        example.outcome === 'converted' ? 85 :
-        example.outcome === 'rejected' ? 30 :
-        example.outcome === 'no_response' ? 40 :
-        50
+/**
+ * Fit feature weights with L2-regularized logistic regression on conversion.
+ * Scores stay a weighted average of features, so positive coefficients
+ * become the weights (normalized to sum to 1) and features with no positive
+ * association get zero weight. Falls back to the given weights if none do.
+ */
+export function trainLogisticModel(
+  examples: TrainingExample[],
+  fallbackWeights: FeatureVector = DEFAULT_FEATURE_WEIGHTS,
+  options: { valueWeighted?: boolean } = {}
+): { weights: FeatureVector; training: TrainingSummary } {
+  const featureKeys = getFeatureKeys(examples)
+  const labeled = examples.filter((e) => outcomeLabel(e.outcome) !== null)
 
-      // Error signal
-      const error = targetScore - predictedScore
+  const fit = fitLogisticRegression(
+    labeled.map((e) => featureKeys.map((key) => featureValue(e, key))),
+    labeled.map((e) => outcomeLabel(e.outcome) as number),
+    {
+      l2: L2_PENALTY,
+      sampleWeights: options.valueWeighted ? dealValueWeights(labeled) : undefined,
+    }
+  )
 
-      // Gradient: how much this feature contributed to the error
-      gradient += error * example.features[key]
+  const coefficients: Record<string, number> = {}
+  featureKeys.forEach((key, i) => {
+    coefficients[key] = fit.coefficients[i]
+  })
+
+  const positiveTotal = fit.coefficients.reduce((sum, c) => sum + Math.max(0, c), 0)
+  const weights = { ...fallbackWeights }
+  if (positiveTotal > 0) {
+    for (const key of featureKeys) {
+      weights[key] = Math.max(0, coefficients[key]) / positiveTotal
     }
+  }
+
+  return {
+    weights,
+    training: {
+      method: 'logistic_regression',
+      iterations: fit.iterations,
+      converged: fit.converged,
+      l2: L2_PENALTY,
+      loss: fit.loss,
+      intercept: fit.intercept,
+      coefficients,
+      trainSize: labeled.length,
+      valueWeighted: !!options.valueWeighted,
+    },
+  }
+}
+
+/**
+ * Per-example weights for value-weighted training: converted examples count
+ * in proportion to their deal value relative to the average deal, within
+ * MIN_VALUE_WEIGHT-MAX_VALUE_WEIGHT. Examples without a value count once.
+ */
+function dealValueWeights(examples: TrainingExample[]): number[] {
+  const values = examples
+    .filter((e) => e.outcome === 'converted' && (e.outcomeValue ?? 0) > 0)
+    .map((e) => Number(e.outcomeValue))
+  const average = values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+
+  return examples.map((e) => {
+    if (e.outcome !== 'converted' || !e.outcomeValue || average <= 0) return 1
+    return Math.min(MAX_VALUE_WEIGHT, Math.max(MIN_VALUE_WEIGHT, Number(e.outcomeValue) / average))
+  })
+}
+
+/**
+ * Average converted deal value overall and per tier of the example's score
+ * under the new weights. Null without any valued conversions.
+ */
+export function buildDealValueModel(
+  examples: TrainingExample[],
+  scoreTier: (example: TrainingExample) => string
+): DealValueModel | null {
+  const valued = examples.filter((e) => e.outcome === 'converted' && (e.outcomeValue ?? 0) > 0)
+  if (valued.length === 0) {
+    return null
+  }
+
+  const average = (items: TrainingExample[]) =>
+    items.reduce((sum, e) => sum + Number(e.outcomeValue), 0) / items.length
+  const averageDays = (items: TrainingExample[]) => {
+    const days = items
+      .filter((e) => e.daysToOutcome !== null && e.daysToOutcome >= 0)
+      .map((e) => Number(e.daysToOutcome))
+    return days.length > 0 ? Math.round(days.reduce((sum, d) => sum + d, 0) / days.length) : null
+  }
 
-    // Average gradient
-    gradient /= examples.length
+  const byTierExamples: Record<string, TrainingExample[]> = {}
+  for (const example of valued) {
+    (byTierExamples[scoreTier(example)] ||= []).push(example)
+  }
 
-    // Update weight
-    newWeights[key] = Math.max(0.01, Math.min(0.5, currentWeights[key] + learningRate * gradient * 0.01))
+  const byTier: DealValueModel['byTier'] = {}
+  for (const [tier, items] of Object.entries(byTierExamples)) {
+    if (items.length >= MIN_TIER_VALUE_SAMPLES) {
+      byTier[tier] = { averageValue: average(items), sampleSize: items.length, averageDaysToClose: averageDays(items) }
+    }
   }
 
-  // Normalize weights to sum to 1
-  const total = Object.values(newWeights).reduce((sum, v) => sum + v, 0)
-  for (const key of featureKeys) {
-    newWeights[key] = newWeights[key] / total
+  return {
+    averageValue: average(valued),
+    sampleSize: valued.length,
+    averageDaysToClose: averageDays(valued),
+    byTier,
   }
+}
+
+/**
+ * Conversion probability times the expected deal value for the lead's tier,
+ * falling back to the overall average for tiers with too few deals
+ */
+export function expectedRevenue(
+  probability: number,
+  label: string,
+  dealValue: DealValueModel
+): number {
+  const value = dealValue.byTier[label]?.averageValue ?? dealValue.averageValue
+  return Math.round(probability * value * 100) / 100
+}
+
+/**
+ * The 0-100 score an example would get: blended with its LLM score when it
+ * had one, otherwise the model score alone (the fallback path)
+ */
+function exampleScore(example: TrainingExample, weights: FeatureVector, blendRatio: number): number {
+  const modelScore = calculateWeightedScore(example.features, weights)
+  return example.llmScore !== null ? blendScores(example.llmScore, modelScore, blendRatio) : modelScore
+}
 
-  return newWeights
+/**
+ * Fit a score-to-probability calibration on training examples
+ */
+export function calibrateModel(
+  weights: FeatureVector,
+  trainExamples: TrainingExample[],
+  blendRatio: number
+): ProbabilityCalibration {
+  const labeled = trainExamples.filter((e) => outcomeLabel(e.outcome) !== null)
+  return fitCalibration(
+    labeled.map((e) => exampleScore(e, weights, blendRatio)),
+    labeled.map((e) => outcomeLabel(e.outcome) as number)
+  )
 }
 
 /**
- * Validate model performance using holdout data
+ * Validate model performance using holdout data. Open (in progress)
+ * outcomes are skipped since they have no label yet.
  */
 export function validateModel(
   weights: FeatureVector,
-  testExamples: TrainingExample[]
+  testExamples: TrainingExample[],
+  positiveThreshold = getTopTier().min_score, // "likely to convert" cutoff
+  options: { blendRatio?: number; calibration?: ProbabilityCalibration | null } = {}
 ): ModelMetrics {
   let truePositives = 0
   let falsePositives = 0
   let trueNegatives = 0
   let falseNegatives = 0
 
-  for (const example of testExamples) {
-    const predictedScore = calculateWeightedScore(example.features, weights)
-    const predictedPositive = predictedScore >= 70 // Threshold for "likely to convert"
+  const labeled = testExamples.filter((e) => outcomeLabel(e.outcome) !== null)
+  const scores: number[] = []
+  const labels: number[] = []
+
+  for (const example of labeled) {
+    const predictedScore = exampleScore(example, weights, options.blendRatio ?? 0)
+    const predictedPositive = predictedScore >= positiveThreshold
     const actualPositive = example.outcome === 'converted'
 
+    scores.push(predictedScore)
+    labels.push(actualPositive ? 1 : 0)
+
     if (predictedPositive && actualPositive) truePositives++
     else if (predictedPositive && !actualPositive) falsePositives++
     else if (!predictedPositive && !actualPositive) trueNegatives++
     else falseNegatives++
   }
 
-  const total = testExamples.length
+  const total = labeled.length
   const accuracy = total > 0 ? (truePositives + trueNegatives) / total : 0
   const precision = (truePositives + falsePositives) > 0 ? truePositives / (truePositives + falsePositives) : 0
   const recall = (truePositives + falseNegatives) > 0 ? truePositives / (truePositives + falseNegatives) : 0
   const f1Score = (precision + recall) > 0 ? 2 * (precision * recall) / (precision + recall) : 0
 
-  // Simple AUC approximation
-  const auc = (recall + (trueNegatives / (trueNegatives + falsePositives || 1))) / 2
+  // Without a calibration, score / 100 is the best available probability
+  const calibration = options.calibration
+  const probabilities = scores.map((score) =>
+    calibration ? calibrateProbability(score, calibration) : score / 100
+  )
 
   return {
     accuracy,
     precision,
     recall,
     f1Score,
-    auc,
+    auc: rocAuc(scores, labels),
+    logLoss: logLoss(probabilities, labels),
+    brierScore: brierScore(probabilities, labels),
     confusionMatrix: {
       truePositives,
       falsePositives,
@@ -277,13 +745,297 @@ export function validateModel(
   }
 }
 
+/**
+ * Permutation importance on the holdout: how much AUC falls when a feature's
+ * values are shuffled, averaged over several shuffles. The same shuffles are
+ * re-scored on bootstrap resamples of the holdout for a confidence interval;
+ * large holdouts use fewer of both. Returns null unless the holdout has both
+ * outcomes.
+ */
+export function calculatePermutationImportance(
+  weights: FeatureVector,
+  testExamples: TrainingExample[],
+  blendRatio: number,
+  seed: number
+): PermutationImportanceSummary | null {
+  const labeled = testExamples.filter((e) => outcomeLabel(e.outcome) !== null)
+  const labels = labeled.map((e) => outcomeLabel(e.outcome) as number)
+  if (!labels.includes(1) || !labels.includes(0)) {
+    return null
+  }
+
+  const random = createSeededRandom(seed)
+  const baseScores = labeled.map((e) => exampleScore(e, weights, blendRatio))
+  const baselineAuc = rocAuc(baseScores, labels)
+
+  const featureKeys = getFeatureKeys(labeled)
+  const pass = Math.max(1, featureKeys.length * labeled.length)
+  const repeats = Math.max(
+    1,
+    Math.min(PERMUTATION_REPEATS, Math.floor(PERMUTATION_WORK_BUDGET / (pass * (BOOTSTRAP_SAMPLES + 1))))
+  )
+  const bootstrapSamples = Math.max(
+    MIN_BOOTSTRAP_SAMPLES,
+    Math.min(BOOTSTRAP_SAMPLES, Math.floor(PERMUTATION_WORK_BUDGET / (pass * repeats)) - 1)
+  )
+
+  // One set of resamples for every feature so their intervals are comparable;
+  // a resample with a single outcome has no AUC and is drawn again
+  const resamples: number[][] = []
+  for (let attempt = 0; attempt < bootstrapSamples * 5 && resamples.length < bootstrapSamples; attempt++) {
+    const indices = labeled.map(() => Math.floor(random() * labeled.length))
+    const sampled = indices.map((i) => labels[i])
+    if (sampled.includes(1) && sampled.includes(0)) resamples.push(indices)
+  }
+  const aucOn = (scores: number[], indices: number[]) =>
+    rocAuc(indices.map((i) => scores[i]), indices.map((i) => labels[i]))
+  const baseResampleAuc = resamples.map((indices) => aucOn(baseScores, indices))
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length
+
+  const features: Record<string, FeaturePermutationImportance> = {}
+  for (const key of featureKeys) {
+    const values = labeled.map((e) => featureValue(e, key))
+    const permutedScores = Array.from({ length: repeats }, () => {
+      const shuffled = shuffleInPlace([...values], random)
+      return labeled.map((e, i) =>
+        exampleScore({ ...e, features: { ...e.features, [key]: shuffled[i] } }, weights, blendRatio)
+      )
+    })
+
+    const drops = resamples
+      .map((indices, b) => baseResampleAuc[b] - mean(permutedScores.map((scores) => aucOn(scores, indices))))
+      .sort((a, b) => a - b)
+    const lower = drops.length > 0 ? drops[Math.floor(drops.length * 0.025)] : 0
+    const upper = drops.length > 0 ? drops[Math.min(drops.length - 1, Math.floor(drops.length * 0.975))] : 0
+
+    features[key] = {
+      importance: baselineAuc - mean(permutedScores.map((scores) => rocAuc(scores, labels))),
+      lower,
+      upper,
+      significant: drops.length > 0 && (lower > 0 || upper < 0),
+    }
+  }
+
+  return {
+    sampleSize: labeled.length,
+    repeats,
+    bootstrapSamples: resamples.length,
+    baselineAuc,
+    features,
+  }
+}
+
+/**
+ * Pick the LLM/model blend ratio that best predicts conversion on holdout
+ * examples, scoring each candidate by Brier score (score / 100 as probability).
+ * Returns null when too few examples carry an LLM score.
+ */
+export function tuneBlendRatio(
+  weights: FeatureVector,
+  testExamples: TrainingExample[]
+): BlendTuning | null {
+  const samples = testExamples
+    .filter((e) => e.llmScore !== null && e.outcome !== 'in_progress')
+    .map((e) => ({
+      llmScore: e.llmScore as number,
+      modelScore: calculateWeightedScore(e.features, weights),
+      actual: e.outcome === 'converted' ? 1 : 0,
+    }))
+
+  if (samples.length < MIN_BLEND_TUNING_SAMPLES) {
+    return null
+  }
+
+  const brier = (ratio: number) =>
+    samples.reduce((sum, s) => {
+      const p = blendScores(s.llmScore, s.modelScore, ratio) / 100
+      return sum + (p - s.actual) ** 2
+    }, 0) / samples.length
+
+  // Grid search in steps of 0.1; ties keep the higher LLM share
+  let best = { ratio: 1, brier: brier(1) }
+  for (let step = 9; step >= 0; step--) {
+    const ratio = step / 10
+    const score = brier(ratio)
+    if (score < best.brier) {
+      best = { ratio, brier: score }
+    }
+  }
+
+  return {
+    ratio: best.ratio,
+    sampleSize: samples.length,
+    llmBrier: brier(1),
+    modelBrier: brier(0),
+    blendedBrier: best.brier,
+  }
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32) returning values in [0, 1)
+ */
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Group examples by outcome and shuffle each group with the seed. Examples
+ * are sorted by lead first so the result doesn't depend on query order.
+ */
+function shuffledStrata(examples: TrainingExample[], seed: number): TrainingExample[][] {
+  const random = createSeededRandom(seed)
+  const strata: Record<string, TrainingExample[]> = {}
+
+  const ordered = [...examples].sort((a, b) =>
+    a.leadId === b.leadId ? a.outcome.localeCompare(b.outcome) : a.leadId.localeCompare(b.leadId)
+  )
+  for (const example of ordered) {
+    (strata[example.outcome] ||= []).push(example)
+  }
+
+  return Object.keys(strata).sort().map((outcome) => shuffleInPlace(strata[outcome], random))
+}
+
+// Fisher-Yates
+function shuffleInPlace<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    const swap = items[i]
+    items[i] = items[j]
+    items[j] = swap
+  }
+  return items
+}
+
+/**
+ * Stratified train/test split: each outcome keeps the same share in both
+ * sets, and every outcome with at least two examples lands in the test set
+ */
+export function stratifiedSplit(
+  examples: TrainingExample[],
+  testFraction: number,
+  seed: number
+): { train: TrainingExample[]; test: TrainingExample[] } {
+  const train: TrainingExample[] = []
+  const test: TrainingExample[] = []
+
+  for (const group of shuffledStrata(examples, seed)) {
+    const testCount = group.length < 2 ? 0 : Math.max(1, Math.round(group.length * testFraction))
+    test.push(...group.slice(0, testCount))
+    train.push(...group.slice(testCount))
+  }
+
+  return { train, test }
+}
+
+/**
+ * Stratified k-fold assignment: outcomes are dealt round-robin so each fold
+ * gets a proportional share of every outcome
+ */
+export function stratifiedFolds(
+  examples: TrainingExample[],
+  folds: number,
+  seed: number
+): TrainingExample[][] {
+  const result: TrainingExample[][] = Array.from({ length: folds }, () => [])
+  let next = 0
+  for (const group of shuffledStrata(examples, seed)) {
+    for (const example of group) {
+      result[next % folds].push(example)
+      next++
+    }
+  }
+  return result
+}
+
+/**
+ * Run k-fold cross-validation of the full training pipeline (fit, calibrate,
+ * validate) and summarize the holdout metrics of each fold
+ */
+export function crossValidate(
+  examples: TrainingExample[],
+  folds: number,
+  seed: number,
+  options: {
+    fallbackWeights: FeatureVector
+    blendRatio: number
+    positiveThreshold: number
+    valueWeighted?: boolean
+  }
+): CrossValidationSummary {
+  const foldMetrics: FoldMetrics[] = []
+  const assignments = stratifiedFolds(examples, folds, seed)
+
+  assignments.forEach((test, index) => {
+    const train = assignments.filter((_, i) => i !== index).flat()
+    const labels = train.map((e) => outcomeLabel(e.outcome))
+    // A fold without both outcomes can't be fit; skip it rather than fail the run
+    if (test.length === 0 || !labels.includes(1) || !labels.includes(0)) return
+
+    const { weights } = trainLogisticModel(train, options.fallbackWeights, {
+      valueWeighted: options.valueWeighted,
+    })
+    const calibration = calibrateModel(weights, train, options.blendRatio)
+    const metrics = validateModel(weights, test, options.positiveThreshold, {
+      blendRatio: options.blendRatio,
+      calibration,
+    })
+
+    foldMetrics.push({
+      fold: index + 1,
+      trainSize: train.length,
+      testSize: test.length,
+      accuracy: metrics.accuracy,
+      f1Score: metrics.f1Score,
+      auc: metrics.auc,
+      logLoss: metrics.logLoss ?? 0,
+      brierScore: metrics.brierScore ?? 0,
+    })
+  })
+
+  const summarize = (key: 'auc' | 'logLoss' | 'brierScore' | 'accuracy') => {
+    const values = foldMetrics.map((m) => m[key])
+    const mean = values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+    const variance = values.length > 1
+      ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1)
+      : 0
+    return { mean, std: Math.sqrt(variance) }
+  }
+
+  const auc = summarize('auc')
+  const logLossSummary = summarize('logLoss')
+  const brier = summarize('brierScore')
+  const accuracy = summarize('accuracy')
+
+  return {
+    folds,
+    seed,
+    foldMetrics,
+    mean: { auc: auc.mean, logLoss: logLossSummary.mean, brierScore: brier.mean, accuracy: accuracy.mean },
+    std: { auc: auc.std, logLoss: logLossSummary.std, brierScore: brier.std, accuracy: accuracy.std },
+  }
+}
+
 /**
  * Main retraining function - updates the scoring model for an organization
  */
-export async function updateScoringModel(organizationId: string): Promise<{
+export async function updateScoringModel(
+  organizationId: string,
+  options: TrainingOptions = {}
+): Promise<{
   success: boolean
   model?: ScoringModel
   error?: string
+  // Current model and new model on the same holdout, when both exist
+  before?: ModelMetrics | null
+  after?: ModelMetrics
 }> {
   const supabase = createAdminClient()
 
@@ -298,40 +1050,130 @@ export async function updateScoringModel(organizationId: string): Promise<{
       }
     }
 
-    // Split into train (80%) and test (20%)
-    const shuffled = [...examples].sort(() => Math.random() - 0.5)
-    const splitIdx = Math.floor(shuffled.length * 0.8)
-    const trainExamples = shuffled.slice(0, splitIdx)
-    const testExamples = shuffled.slice(splitIdx)
+    // Seeded, stratified 80/20 split so every outcome is represented in the
+    // holdout and the same data and seed reproduce the same metrics
+    const seed = options.seed ?? DEFAULT_SPLIT_SEED
+    const { train: trainExamples, test: testExamples } = stratifiedSplit(examples, TEST_FRACTION, seed)
+
+    // Both outcomes are needed to fit a conversion model
+    const trainLabels = trainExamples.map((e) => outcomeLabel(e.outcome))
+    if (!trainLabels.includes(1) || !trainLabels.includes(0)) {
+      return {
+        success: false,
+        error: 'Training data needs both converted and non-converted outcomes.',
+      }
+    }
 
     // Get current model or use defaults
     const currentModel = await getActiveScoringModel(organizationId)
     const currentWeights = currentModel?.featureWeights || DEFAULT_FEATURE_WEIGHTS
 
     // Train new weights
-    let newWeights = adjustWeights(currentWeights, trainExamples)
+    const { weights: newWeights, training } = trainLogisticModel(trainExamples, currentWeights, {
+      valueWeighted: options.valueWeighted,
+    })
+
+    // Tune how much the LLM and the new weights each contribute; keep the
+    // previous ratio when there isn't enough blended history yet
+    const blend = tuneBlendRatio(newWeights, testExamples)
+    const blendRatio = blend?.ratio ?? await getBlendRatio(organizationId, currentModel)
 
-    // Multiple training iterations for convergence
-    for (let i = 0; i < 10; i++) {
-      newWeights = adjustWeights(newWeights, trainExamples, 0.1 / (i + 1))
+    // Calibrate on the training split so the holdout metrics stay honest
+    const calibration = calibrateModel(newWeights, trainExamples, blendRatio)
+
+    // Validate on test set; a lead predicted into the top tier counts as "likely to convert"
+    const tiers = await getScoreTiers(organizationId)
+    const positiveThreshold = getTopTier(tiers).min_score
+    const metrics = validateModel(newWeights, testExamples, positiveThreshold, {
+      blendRatio,
+      calibration,
+    })
+    metrics.training = training
+    metrics.split = {
+      seed,
+      stratified: true,
+      testFraction: TEST_FRACTION,
+      trainSize: trainExamples.length,
+      testSize: testExamples.length,
+    }
+
+    // Optional k-fold cross-validation on the training split for a steadier estimate
+    const folds = Math.min(MAX_CV_FOLDS, Math.floor(options.folds ?? 0))
+    if (folds >= 2) {
+      metrics.crossValidation = crossValidate(trainExamples, folds, seed, {
+        fallbackWeights: currentWeights,
+        blendRatio,
+        positiveThreshold,
+        valueWeighted: options.valueWeighted,
+      })
+    }
+    if (blend) {
+      metrics.blend = blend
+    }
+    const permutationImportance = calculatePermutationImportance(newWeights, testExamples, blendRatio, seed)
+    if (permutationImportance) {
+      metrics.permutationImportance = permutationImportance
+    }
+    metrics.featureLabels = customFeatureLabels(await loadCustomFeatureDefinitions(organizationId))
+    const exampleTier = (e: TrainingExample) => getScoreTier(exampleScore(e, newWeights, blendRatio), tiers).id
+    metrics.baseline = buildDistributionProfile(
+      examples.map((e) => ({
+        features: { ...e.features },
+        score: exampleScore(e, newWeights, blendRatio),
+        label: exampleTier(e),
+      }))
+    )
+    const dealValue = buildDealValueModel(examples, exampleTier)
+    if (dealValue) {
+      metrics.dealValue = dealValue
     }
 
-    // Validate on test set
-    const metrics = validateModel(newWeights, testExamples)
+    // Score the current model on the same holdout for a like-for-like comparison
+    const before = currentModel
+      ? validateModel(currentWeights, testExamples, positiveThreshold, {
+          blendRatio,
+          calibration: currentModel.calibration,
+        })
+      : null
 
     // Only save if model performs reasonably well
     if (metrics.accuracy < 0.5 && currentModel) {
       return {
         success: false,
         error: `New model accuracy (${(metrics.accuracy * 100).toFixed(1)}%) is too low. Keeping current model.`,
+        before,
+        after: metrics,
       }
     }
 
-    // Determine new model version
-    const newVersion = (currentModel?.modelVersion || 0) + 1
+    if (before && options.minAucImprovement !== undefined && metrics.auc < before.auc + options.minAucImprovement) {
+      return {
+        success: false,
+        error: `New model AUC (${metrics.auc.toFixed(3)}) does not beat the current model (${before.auc.toFixed(3)}) by ${options.minAucImprovement}. Keeping current model.`,
+        before,
+        after: metrics,
+      }
+    }
+
+    // Versions keep counting up across challengers and rollbacks
+    const { data: latest } = await supabase
+      .from('scoring_models')
+      .select('model_version')
+      .eq('organization_id', organizationId)
+      .order('model_version', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    const newVersion = (latest?.model_version || 0) + 1
 
-    // Deactivate current active model
-    if (currentModel) {
+    if (options.challenger) {
+      // Replace any running challenger; the champion stays active
+      await supabase
+        .from('scoring_models')
+        .update({ is_challenger: false })
+        .eq('organization_id', organizationId)
+        .eq('is_challenger', true)
+    } else if (currentModel) {
+      // Deactivate current active model
       await supabase
         .from('scoring_models')
         .update({ is_active: false })
@@ -347,7 +1189,11 @@ export async function updateScoringModel(organizationId: string): Promise<{
         feature_weights: newWeights,
         performance_metrics: metrics,
         trained_on_count: examples.length,
-        is_active: true,
+        blend_ratio: blend?.ratio ?? currentModel?.blendRatio ?? null,
+        calibration,
+        is_active: !options.challenger,
+        is_challenger: !!options.challenger,
+        activated_at: options.challenger ? null : new Date().toISOString(),
       })
       .select()
       .single()
@@ -361,16 +1207,9 @@ export async function updateScoringModel(organizationId: string): Promise<{
 
     return {
       success: true,
-      model: {
-        id: newModel.id,
-        organizationId: newModel.organization_id,
-        modelVersion: newModel.model_version,
-        featureWeights: deserializeFeatures(newModel.feature_weights),
-        performanceMetrics: newModel.performance_metrics as ModelMetrics,
-        trainedOnCount: newModel.trained_on_count,
-        isActive: newModel.is_active,
-        createdAt: newModel.created_at,
-      },
+      model: mapScoringModel(newModel),
+      before,
+      after: metrics,
     }
   } catch (error) {
     console.error('Model training failed:', error)
@@ -407,6 +1246,7 @@ export async function getModelStats(organizationId: string): Promise<{
   totalOutcomes: number
   outcomeBreakdown: Record<OutcomeType, number>
   retrainingRecommended: boolean
+  pipeline: PipelineSummary
 }> {
   const supabase = createAdminClient()
 
@@ -415,14 +1255,24 @@ export async function getModelStats(organizationId: string): Promise<{
     shouldRetrainModel(organizationId),
   ])
 
-  // Get outcome counts
-  const { data: outcomes } = await supabase
-    .from('lead_outcomes')
-    .select(`
-      outcome_type,
-      lead:leads!inner(organization_id)
-    `)
-    .eq('lead.organization_id', organizationId)
+  // Get outcomes, newest first so the latest per lead wins for the pipeline
+  const outcomes: Array<{ lead_id: string; outcome_type: string; outcome_value: number | string | null }> = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page } = await supabase
+      .from('lead_outcomes')
+      .select(`
+        lead_id,
+        outcome_type,
+        outcome_value,
+        lead:leads!inner(organization_id)
+      `)
+      .eq('lead.organization_id', organizationId)
+      .order('created_at', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1)
+
+    outcomes.push(...(page || []))
+    if (!page || page.length < PAGE_SIZE) break
+  }
 
   const outcomeBreakdown: Record<OutcomeType, number> = {
     converted: 0,
@@ -446,5 +1296,59 @@ export async function getModelStats(organizationId: string): Promise<{
     totalOutcomes,
     outcomeBreakdown,
     retrainingRecommended: shouldRetrain,
+    pipeline: await getPipelineSummary(organizationId, outcomes),
+  }
+}
+
+/**
+ * Expected revenue of scored leads against what closed leads actually brought
+ * in. Outcomes are newest first; a lead's latest outcome decides whether it
+ * has closed.
+ */
+async function getPipelineSummary(
+  organizationId: string,
+  outcomes: Array<{ lead_id: string; outcome_type: string; outcome_value: number | string | null }>
+): Promise<PipelineSummary> {
+  const supabase = createAdminClient()
+
+  const latestOutcome: Record<string, { type: string; value: number }> = {}
+  for (const o of outcomes) {
+    if (!latestOutcome[o.lead_id]) {
+      latestOutcome[o.lead_id] = { type: o.outcome_type, value: Number(o.outcome_value) || 0 }
+    }
+  }
+
+  const summary: PipelineSummary = {
+    closedLeads: 0,
+    predictedValue: 0,
+    actualValue: 0,
+    openLeads: 0,
+    openPredictedValue: 0,
   }
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page } = await supabase
+      .from('leads')
+      .select('id, expected_revenue')
+      .eq('organization_id', organizationId)
+      .not('expected_revenue', 'is', null)
+      .order('created_at')
+      .range(from, from + PAGE_SIZE - 1)
+
+    for (const lead of page || []) {
+      const expected = Number(lead.expected_revenue)
+      const outcome = latestOutcome[lead.id]
+      if (outcome && outcome.type !== 'in_progress') {
+        summary.closedLeads++
+        summary.predictedValue += expected
+        if (outcome.type === 'converted') summary.actualValue += outcome.value
+      } else {
+        summary.openLeads++
+        summary.openPredictedValue += expected
+      }
+    }
+    if (!page || page.length < PAGE_SIZE) break
+  }
+
+  return summary
 }
@@ -0,0 +1,50 @@
+/**
+ * Anthropic Claude provider
+ */
+
+import Anthropic from '@anthropic-ai/sdk'
+import type { LLMProvider, LLMRequest, LLMResponse } from './types'
+
+let anthropicClient: Anthropic | null = null
+
+function getAnthropicClient(): Anthropic {
+  if (anthropicClient) return anthropicClient
+
+  anthropicClient = new Anthropic({
+    apiKey: process.env.ANTHROPIC_API_KEY,
+  })
+  return anthropicClient
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const
+  readonly model: string
+
+  constructor(model: string) {
+    this.model = model
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const startedAt = Date.now()
+
+    const message = await getAnthropicClient().messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens ?? 1024,
+      messages: [{ role: 'user', content: request.prompt }],
+    })
+
+    const textContent = message.content.find((c) => c.type === 'text')
+    if (!textContent || textContent.type !== 'text') {
+      throw new Error('No text response from Claude')
+    }
+
+    return {
+      text: textContent.text,
+      provider: this.name,
+      model: message.model,
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens,
+      latencyMs: Date.now() - startedAt,
+    }
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * LLM Provider Service
+ * Resolves the provider/model configured for an organization and records
+ * token and latency usage for every completion
+ */
+
+import { z } from 'zod'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { DEFAULT_LLM_MODEL, LLM_PROVIDERS } from '@/lib/constants'
+import { AnthropicProvider } from './anthropic'
+import { StubProvider } from './stub'
+import type { LLMProvider, LLMProviderName, LLMRequest, LLMResponse } from './types'
+
+export type { LLMProvider, LLMProviderName, LLMPurpose, LLMRequest, LLMResponse } from './types'
+export { AnthropicProvider } from './anthropic'
+export { StubProvider } from './stub'
+export {
+  qualificationResultSchema,
+  companyResearchSchema,
+  intentAnalysisSchema,
+  icpGenerationSchema,
+} from './schemas'
+
+/**
+ * Per-organization LLM settings, stored at organizations.settings.llm
+ */
+export const llmSettingsSchema = z.object({
+  provider: z.enum(LLM_PROVIDERS).optional(),
+  model: z.string().min(1).optional(),
+})
+
+export type LLMSettings = z.infer<typeof llmSettingsSchema>
+
+export interface LLMCallContext {
+  organizationId?: string
+  leadId?: string
+  // Injected provider (tests); skips organization lookup
+  provider?: LLMProvider
+}
+
+/**
+ * Build a provider instance from settings.
+ * LLM_PROVIDER in the environment overrides organization settings so a test
+ * or offline environment can force the stub provider everywhere.
+ */
+export function createLLMProvider(settings: LLMSettings = {}): LLMProvider {
+  const envProvider = process.env.LLM_PROVIDER as LLMProviderName | undefined
+  const providerName = envProvider || settings.provider || 'anthropic'
+
+  if (providerName === 'stub') {
+    return new StubProvider()
+  }
+
+  return new AnthropicProvider(settings.model || process.env.LLM_MODEL || DEFAULT_LLM_MODEL)
+}
+
+/**
+ * Get the provider configured for an organization
+ */
+export async function getLLMProvider(organizationId?: string): Promise<LLMProvider> {
+  if (!organizationId) {
+    return createLLMProvider()
+  }
+
+  const supabase = createAdminClient()
+  const { data: org } = await supabase
+    .from('organizations')
+    .select('settings')
+    .eq('id', organizationId)
+    .single()
+
+  const parsed = llmSettingsSchema.safeParse(
+    (org?.settings as Record<string, unknown> | null)?.llm ?? {}
+  )
+
+  return createLLMProvider(parsed.success ? parsed.data : {})
+}
+
+/**
+ * Run a completion and record its usage
+ */
+export async function generate(
+  request: LLMRequest,
+  context: LLMCallContext = {}
+): Promise<LLMResponse> {
+  const provider = context.provider || await getLLMProvider(context.organizationId)
+  const startedAt = Date.now()
+
+  try {
+    const response = await provider.complete(request)
+    await recordUsage(request, context, {
+      provider: response.provider,
+      model: response.model,
+      inputTokens: response.inputTokens,
+      outputTokens: response.outputTokens,
+      latencyMs: response.latencyMs,
+      error: null,
+    })
+    return response
+  } catch (error) {
+    await recordUsage(request, context, {
+      provider: provider.name,
+      model: provider.model,
+      inputTokens: 0,
+      outputTokens: 0,
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    throw error
+  }
+}
+
+/**
+ * Run a completion and parse the first JSON object out of the response text
+ */
+export async function generateJSON(
+  request: LLMRequest,
+  context: LLMCallContext = {}
+): Promise<{ data: unknown; response: LLMResponse }> {
+  const response = await generate(request, context)
+  return { data: extractJSON(response.text), response }
+}
+
+/**
+ * Run a completion and validate the JSON against a schema. Invalid output
+ * gets one repair round-trip that shows the model its errors; if that also
+ * fails the error is thrown so callers can fall back explicitly.
+ */
+export async function generateValidated<T>(
+  request: LLMRequest,
+  schema: z.ZodType<T>,
+  context: LLMCallContext = {}
+): Promise<{ data: T; repaired: boolean; response: LLMResponse }> {
+  // Resolve once so the repair call uses the same provider and model
+  const provider = context.provider || await getLLMProvider(context.organizationId)
+  const callContext = { ...context, provider }
+
+  const response = await generate(request, callContext)
+  const first = parseWithSchema(response.text, schema)
+  if (first.success) {
+    return { data: first.data, repaired: false, response }
+  }
+
+  const repairResponse = await generate(
+    { ...request, prompt: buildRepairPrompt(request.prompt, response.text, first.error) },
+    callContext
+  )
+  const repaired = parseWithSchema(repairResponse.text, schema)
+  if (repaired.success) {
+    return { data: repaired.data, repaired: true, response: repairResponse }
+  }
+
+  throw new Error(`Invalid ${request.purpose} response after repair: ${repaired.error}`)
+}
+
+/**
+ * Extract and parse the outermost JSON object from model output
+ */
+export function extractJSON(text: string): unknown {
+  const jsonMatch = text.match(/\{[\s\S]*\}/)
+  if (!jsonMatch) {
+    throw new Error('No JSON found in response')
+  }
+
+  return JSON.parse(jsonMatch[0])
+}
+
+function parseWithSchema<T>(
+  text: string,
+  schema: z.ZodType<T>
+): { success: true; data: T } | { success: false; error: string } {
+  let json: unknown
+  try {
+    json = extractJSON(text)
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Invalid JSON' }
+  }
+
+  const parsed = schema.safeParse(json)
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; '),
+    }
+  }
+
+  return { success: true, data: parsed.data }
+}
+
+function buildRepairPrompt(originalPrompt: string, previousText: string, error: string): string {
+  return `${originalPrompt}
+
+---
+Your previous response could not be used because it failed validation:
+${error}
+
+Previous response:
+${previousText}
+
+Respond again with ONLY the corrected JSON object, in the exact format requested above.`
+}
+
+/**
+ * Persist token and latency accounting (never fails the calling request)
+ */
+async function recordUsage(
+  request: LLMRequest,
+  context: LLMCallContext,
+  usage: {
+    provider: string
+    model: string
+    inputTokens: number
+    outputTokens: number
+    latencyMs: number
+    error: string | null
+  }
+): Promise<void> {
+  try {
+    const supabase = createAdminClient()
+
+    await supabase.from('llm_usage').insert({
+      organization_id: context.organizationId || null,
+      lead_id: context.leadId || null,
+      purpose: request.purpose,
+      provider: usage.provider,
+      model: usage.model,
+      input_tokens: usage.inputTokens,
+      output_tokens: usage.outputTokens,
+      latency_ms: usage.latencyMs,
+      success: usage.error === null,
+      error_message: usage.error,
+    })
+  } catch (error) {
+    console.warn('Failed to record LLM usage:', error)
+  }
+}
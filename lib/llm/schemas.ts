@@ -0,0 +1,65 @@
+/**
+ * Response schemas for structured LLM output
+ * Model output is validated against these before it is trusted or stored
+ */
+
+import { z } from 'zod'
+
+const score100 = z.number().min(0).max(100)
+
+export const qualificationResultSchema = z.object({
+  score: score100.transform(Math.round),
+  label: z.string().min(1),
+  reasoning: z.string().min(1),
+  breakdown: z.record(
+    z.string(),
+    z.object({
+      score: score100.transform(Math.round),
+      note: z.string(),
+    })
+  ),
+  recommended_action: z.string().min(1),
+})
+
+export const companyResearchSchema = z.object({
+  company_size_estimate: z.string().nullable().default(null),
+  technology_indicators: z.array(z.string()).default([]),
+  growth_signals: z.array(z.string()).default([]),
+  pain_points: z.array(z.string()).default([]),
+  health_score: z.number().min(1).max(10),
+  confidence: z.number().min(0).max(1),
+  summary: z.string().default(''),
+  // Claims backed by numbered website sources given in the prompt
+  citations: z.array(z.object({ claim: z.string(), source: z.number().int() })).default([]),
+})
+
+export const intentAnalysisSchema = z.object({
+  problem_awareness: z.number().min(1).max(5),
+  solution_awareness: z.number().min(1).max(5),
+  urgency_indicators: z.array(z.string()).default([]),
+  authority_to_purchase: z.number().min(1).max(5),
+  buying_intent_score: z.number().min(1).max(100),
+  urgency_score: z.number().min(0).max(1),
+  summary: z.string().default(''),
+})
+
+// Raw generator output; values are mapped onto the standard option lists afterwards
+export const icpGenerationSchema = z.object({
+  criteria: z.array(
+    z.object({
+      name: z.string().min(1),
+      type: z.string(),
+      weight: score100,
+      ideal_values: z.array(z.string()),
+      reasoning: z.string().default(''),
+    })
+  ).min(1),
+  summary: z.string().default(''),
+  confidence: score100,
+  reasoning: z.string().default(''),
+  company: z.object({
+    name: z.string(),
+    description: z.string(),
+    target_market: z.string(),
+  }).optional(),
+})
@@ -0,0 +1,114 @@
+/**
+ * Deterministic local provider
+ * Returns canned, schema-shaped JSON derived from a hash of the prompt so the
+ * full qualification pipeline can run offline (tests, local development).
+ */
+
+import crypto from 'crypto'
+import { DEFAULT_ICP_CRITERIA } from '@/lib/constants'
+import type { LLMProvider, LLMPurpose, LLMRequest, LLMResponse } from './types'
+
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub' as const
+  readonly model: string
+  private fixtures: Partial<Record<LLMPurpose, unknown>>
+
+  /**
+   * @param fixtures Optional per-purpose responses that replace the generated ones
+   */
+  constructor(model = 'stub-1', fixtures: Partial<Record<LLMPurpose, unknown>> = {}) {
+    this.model = model
+    this.fixtures = fixtures
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const fixture = this.fixtures[request.purpose]
+    const body = fixture !== undefined ? fixture : buildStubResponse(request)
+    const text = typeof body === 'string' ? body : JSON.stringify(body)
+
+    return {
+      text,
+      provider: this.name,
+      model: this.model,
+      inputTokens: Math.ceil(request.prompt.length / 4),
+      outputTokens: Math.ceil(text.length / 4),
+      latencyMs: 0,
+    }
+  }
+}
+
+/**
+ * Stable 32-bit seed from the prompt text
+ */
+function promptSeed(prompt: string): number {
+  return crypto.createHash('sha256').update(prompt).digest().readUInt32BE(0)
+}
+
+function buildStubResponse(request: LLMRequest): Record<string, unknown> {
+  const seed = promptSeed(request.prompt)
+
+  switch (request.purpose) {
+    case 'qualification': {
+      const score = 20 + (seed % 76)
+      // Criterion lines in the qualification prompt look like "- Budget (Weight: 90%)"
+      const criterionNames = Array.from(request.prompt.matchAll(/^- (.+?) \(Weight: /gm)).map((m) => m[1])
+      const breakdown: Record<string, { score: number; note: string }> = {}
+      criterionNames.forEach((name, i) => {
+        breakdown[name] = {
+          score: (score + i * 17) % 101,
+          note: 'Stub assessment',
+        }
+      })
+
+      return {
+        score,
+        label: score >= 80 ? 'hot' : score >= 50 ? 'warm' : 'cold',
+        reasoning: `Deterministic stub assessment (seed ${seed % 1000}).`,
+        breakdown,
+        recommended_action: score >= 80
+          ? 'Schedule a discovery call'
+          : score >= 50
+            ? 'Send a personalized follow-up'
+            : 'Add to automated nurture sequence',
+      }
+    }
+
+    case 'company_research':
+      return {
+        company_size_estimate: null,
+        technology_indicators: [],
+        growth_signals: [],
+        pain_points: [],
+        health_score: 1 + (seed % 10),
+        confidence: 0.5,
+        summary: 'Deterministic stub company research.',
+      }
+
+    case 'intent_analysis':
+      return {
+        problem_awareness: 1 + (seed % 5),
+        solution_awareness: 1 + ((seed >> 3) % 5),
+        urgency_indicators: [],
+        authority_to_purchase: 1 + ((seed >> 6) % 5),
+        buying_intent_score: 1 + (seed % 100),
+        urgency_score: (seed % 101) / 100,
+        summary: 'Deterministic stub intent analysis.',
+      }
+
+    case 'icp_generation': {
+      const totalWeight = DEFAULT_ICP_CRITERIA.reduce((sum, c) => sum + c.weight, 0)
+      return {
+        criteria: DEFAULT_ICP_CRITERIA.map((c) => ({
+          name: c.name,
+          type: c.type,
+          weight: Math.round((c.weight / totalWeight) * 100),
+          ideal_values: c.acceptable_values,
+          reasoning: 'Stub default criterion',
+        })),
+        summary: 'Deterministic stub ICP based on the default criteria.',
+        confidence: 50,
+        reasoning: 'Generated by the local stub provider.',
+      }
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import type { LLM_PROVIDERS } from '@/lib/constants'
+
+export type LLMProviderName = (typeof LLM_PROVIDERS)[number]
+
+/**
+ * What a completion is used for (recorded with usage for cost reporting)
+ */
+export type LLMPurpose =
+  | 'qualification'
+  | 'company_research'
+  | 'intent_analysis'
+  | 'icp_generation'
+
+export interface LLMRequest {
+  purpose: LLMPurpose
+  prompt: string
+  maxTokens?: number
+}
+
+export interface LLMResponse {
+  text: string
+  provider: LLMProviderName
+  model: string
+  inputTokens: number
+  outputTokens: number
+  latencyMs: number
+}
+
+/**
+ * A text-completion backend. Implementations must be stateless per call so
+ * one instance can serve concurrent requests.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  readonly model: string
+  complete(request: LLMRequest): Promise<LLMResponse>
+}
@@ -0,0 +1,261 @@
+/**
+ * Logistic regression and probability metrics for model training.
+ * Pure functions over plain arrays so they can run on any example set.
+ */
+
+export interface LogisticFitOptions {
+  l2?: number // Ridge penalty on the coefficients; the intercept is not penalized
+  maxIterations?: number
+  tolerance?: number // Converged once no parameter moves more than this
+  sampleWeights?: number[] // Relative weight of each row in the loss; defaults to 1 each
+}
+
+export interface LogisticFit {
+  coefficients: number[]
+  intercept: number
+  iterations: number
+  converged: boolean
+  loss: number // Penalized mean log-loss on the fitted data
+}
+
+/**
+ * Maps a 0-100 score to a conversion probability: sigmoid(intercept + slope * score / 100)
+ */
+export interface ProbabilityCalibration {
+  slope: number
+  intercept: number
+  sampleSize: number
+}
+
+// Keeps log() finite for probabilities of exactly 0 or 1
+const EPSILON = 1e-12
+
+/**
+ * Fit an L2-regularized logistic regression with Newton's method.
+ * Each step is halved until the loss stops increasing, so poorly
+ * conditioned data slows convergence instead of diverging.
+ */
+export function fitLogisticRegression(
+  rows: number[][],
+  labels: number[],
+  options: LogisticFitOptions = {}
+): LogisticFit {
+  const l2 = options.l2 ?? 0.01
+  const maxIterations = options.maxIterations ?? 50
+  const tolerance = options.tolerance ?? 1e-6
+  const n = rows.length
+  const dims = (rows[0]?.length ?? 0) + 1
+  const weights = normalizeSampleWeights(options.sampleWeights, n)
+
+  // theta[0] is the intercept
+  let theta = new Array(dims).fill(0)
+  let loss = penalizedLoss(rows, labels, theta, l2, weights)
+  let iterations = 0
+  let converged = false
+
+  while (iterations < maxIterations && n > 0) {
+    iterations++
+
+    const gradient = new Array(dims).fill(0)
+    const hessian = Array.from({ length: dims }, () => new Array(dims).fill(0))
+
+    for (let i = 0; i < n; i++) {
+      const x = [1, ...rows[i]]
+      const p = sigmoid(dot(theta, x))
+      const w = p * (1 - p)
+      for (let j = 0; j < dims; j++) {
+        gradient[j] += (weights[i] * (p - labels[i]) * x[j]) / n
+        for (let k = j; k < dims; k++) {
+          hessian[j][k] += (weights[i] * w * x[j] * x[k]) / n
+        }
+      }
+    }
+
+    for (let j = 0; j < dims; j++) {
+      if (j > 0) {
+        gradient[j] += l2 * theta[j]
+        hessian[j][j] += l2
+      }
+      // Tiny ridge keeps the system solvable when a feature never varies
+      hessian[j][j] += 1e-9
+      for (let k = 0; k < j; k++) {
+        hessian[j][k] = hessian[k][j]
+      }
+    }
+
+    const step = solveLinearSystem(hessian, gradient)
+    if (!step) break
+
+    let scale = 1
+    let candidate = theta.map((t, j) => t - step[j])
+    let candidateLoss = penalizedLoss(rows, labels, candidate, l2, weights)
+    while (candidateLoss > loss && scale > 1e-4) {
+      scale /= 2
+      candidate = theta.map((t, j) => t - scale * step[j])
+      candidateLoss = penalizedLoss(rows, labels, candidate, l2, weights)
+    }
+    // No step size lowers the loss: keep the last good fit, unconverged
+    if (candidateLoss > loss) break
+
+    const maxChange = Math.max(...step.map((s) => Math.abs(s * scale)))
+    theta = candidate
+    loss = candidateLoss
+
+    if (maxChange < tolerance) {
+      converged = true
+      break
+    }
+  }
+
+  return {
+    coefficients: theta.slice(1),
+    intercept: theta[0],
+    iterations,
+    converged,
+    loss,
+  }
+}
+
+/**
+ * Platt scaling: fit a one-feature logistic regression from score to outcome
+ */
+export function fitCalibration(scores: number[], labels: number[]): ProbabilityCalibration {
+  const fit = fitLogisticRegression(
+    scores.map((s) => [s / 100]),
+    labels,
+    { l2: 0.001 }
+  )
+
+  return {
+    slope: fit.coefficients[0],
+    intercept: fit.intercept,
+    sampleSize: scores.length,
+  }
+}
+
+/**
+ * Conversion probability for a 0-100 score
+ */
+export function calibrateProbability(score: number, calibration: ProbabilityCalibration): number {
+  return sigmoid(calibration.intercept + calibration.slope * (score / 100))
+}
+
+/**
+ * Area under the ROC curve via the rank-sum (Mann-Whitney) statistic.
+ * Tied scores share their average rank. Returns 0.5 when either class is empty.
+ */
+export function rocAuc(scores: number[], labels: number[]): number {
+  const positives = labels.filter((l) => l === 1).length
+  const negatives = labels.length - positives
+  if (positives === 0 || negatives === 0) {
+    return 0.5
+  }
+
+  const order = scores
+    .map((score, i) => ({ score, label: labels[i] }))
+    .sort((a, b) => a.score - b.score)
+
+  let positiveRankSum = 0
+  for (let i = 0; i < order.length; ) {
+    let j = i
+    while (j < order.length && order[j].score === order[i].score) j++
+    // Ranks are 1-based; i..j-1 share the average of ranks i+1..j
+    const averageRank = (i + 1 + j) / 2
+    for (let k = i; k < j; k++) {
+      if (order[k].label === 1) positiveRankSum += averageRank
+    }
+    i = j
+  }
+
+  return (positiveRankSum - (positives * (positives + 1)) / 2) / (positives * negatives)
+}
+
+/**
+ * Mean negative log-likelihood of the outcomes
+ */
+export function logLoss(probabilities: number[], labels: number[]): number {
+  if (probabilities.length === 0) return 0
+  return probabilities.reduce((sum, p, i) => {
+    const clipped = Math.min(1 - EPSILON, Math.max(EPSILON, p))
+    return sum - (labels[i] * Math.log(clipped) + (1 - labels[i]) * Math.log(1 - clipped))
+  }, 0) / probabilities.length
+}
+
+/**
+ * Mean squared error of the probabilities
+ */
+export function brierScore(probabilities: number[], labels: number[]): number {
+  if (probabilities.length === 0) return 0
+  return probabilities.reduce((sum, p, i) => sum + (p - labels[i]) ** 2, 0) / probabilities.length
+}
+
+export function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z))
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i]
+  return sum
+}
+
+function penalizedLoss(
+  rows: number[][],
+  labels: number[],
+  theta: number[],
+  l2: number,
+  weights: number[]
+): number {
+  if (rows.length === 0) return 0
+  const weightedLoss = rows.reduce((sum, x, i) => {
+    const p = Math.min(1 - EPSILON, Math.max(EPSILON, sigmoid(dot(theta, [1, ...x]))))
+    return sum - weights[i] * (labels[i] * Math.log(p) + (1 - labels[i]) * Math.log(1 - p))
+  }, 0) / rows.length
+  const penalty = theta.slice(1).reduce((sum, t) => sum + t * t, 0) * (l2 / 2)
+  return weightedLoss + penalty
+}
+
+// Scale sample weights to average 1 so the L2 penalty keeps the same strength
+function normalizeSampleWeights(sampleWeights: number[] | undefined, n: number): number[] {
+  if (!sampleWeights || sampleWeights.length !== n) {
+    return new Array(n).fill(1)
+  }
+  const total = sampleWeights.reduce((sum, w) => sum + Math.max(0, w), 0)
+  if (total <= 0) {
+    return new Array(n).fill(1)
+  }
+  return sampleWeights.map((w) => (Math.max(0, w) * n) / total)
+}
+
+// Gaussian elimination with partial pivoting; null when the system is singular
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] | null {
+  const size = vector.length
+  const a = matrix.map((row, i) => [...row, vector[i]])
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null
+    const swap = a[col]
+    a[col] = a[pivot]
+    a[pivot] = swap
+
+    for (let row = col + 1; row < size; row++) {
+      const factor = a[row][col] / a[col][col]
+      for (let k = col; k <= size; k++) {
+        a[row][k] -= factor * a[col][k]
+      }
+    }
+  }
+
+  const solution = new Array(size).fill(0)
+  for (let row = size - 1; row >= 0; row--) {
+    let sum = a[row][size]
+    for (let k = row + 1; k < size; k++) sum -= a[row][k] * solution[k]
+    solution[row] = sum / a[row][row]
+  }
+
+  return solution
+}
@@ -0,0 +1,403 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { rocAuc, brierScore } from '@/lib/logistic'
+import {
+  getActiveScoringModel,
+  getChallengerModel,
+  listScoringModels,
+  mapScoringModel,
+  type ScoringModel,
+} from '@/lib/learn'
+import { getTopTier } from '@/lib/tiers'
+import { getScoreTiers } from '@/lib/org-settings'
+
+// Closed outcomes a challenger needs before it can be judged against the champion
+export const MIN_COMPARISON_SAMPLES = 20
+
+// Closed outcomes a model version needs before its realized accuracy is shown
+export const MIN_REALIZED_SAMPLES = 10
+
+// Chunk size for .in() filters
+const CHUNK_SIZE = 100
+// PostgREST caps each response at 1000 rows
+const PAGE_SIZE = 1000
+
+export interface ModelOutcomeMetrics {
+  auc: number
+  brierScore: number
+}
+
+/**
+ * Champion vs challenger on leads both scored and that have since closed
+ */
+export interface ChallengerComparison {
+  championVersion: number | null
+  challengerVersion: number
+  sampleSize: number
+  conversions: number
+  champion: ModelOutcomeMetrics | null
+  challenger: ModelOutcomeMetrics | null
+  challengerWins: boolean
+}
+
+/**
+ * How a model version's scores held up against outcomes recorded while it
+ * was the active model
+ */
+export interface RealizedMetrics {
+  sampleSize: number
+  conversions: number
+  accuracy: number
+  precision: number
+  recall: number
+  auc: number | null // needs both conversions and non-conversions
+  brierScore: number
+}
+
+/**
+ * One model version's holdout metrics from training next to its realized ones
+ */
+export interface ModelHistoryEntry {
+  modelVersion: number
+  createdAt: string
+  activatedAt: string | null
+  isActive: boolean
+  isChallenger: boolean
+  trainedOnCount: number
+  holdout: {
+    accuracy: number
+    f1Score: number
+    auc: number
+    brierScore: number | null
+  } | null
+  realized: RealizedMetrics | null
+}
+
+/**
+ * Make a model version the active one. Used both to promote a challenger
+ * and to roll back to any earlier version.
+ */
+export async function activateScoringModel(
+  organizationId: string,
+  modelId: string
+): Promise<{
+  success: boolean
+  model?: ScoringModel
+  previous?: ScoringModel | null
+  error?: string
+}> {
+  const supabase = createAdminClient()
+
+  const { data: target } = await supabase
+    .from('scoring_models')
+    .select('*')
+    .eq('id', modelId)
+    .eq('organization_id', organizationId)
+    .single()
+
+  if (!target) {
+    return { success: false, error: 'Model not found' }
+  }
+  if (target.is_active) {
+    return { success: false, error: `Version ${target.model_version} is already active` }
+  }
+
+  const previous = await getActiveScoringModel(organizationId)
+  if (previous) {
+    await supabase
+      .from('scoring_models')
+      .update({ is_active: false })
+      .eq('id', previous.id)
+  }
+
+  const { data: activated, error } = await supabase
+    .from('scoring_models')
+    .update({ is_active: true, is_challenger: false, activated_at: new Date().toISOString() })
+    .eq('id', modelId)
+    .select()
+    .single()
+
+  if (error || !activated) {
+    // Put the previous champion back rather than leave no active model
+    if (previous) {
+      await supabase
+        .from('scoring_models')
+        .update({ is_active: true })
+        .eq('id', previous.id)
+    }
+    return { success: false, error: `Failed to activate model: ${error?.message || 'Unknown error'}` }
+  }
+
+  return { success: true, model: mapScoringModel(activated), previous }
+}
+
+/**
+ * Stop shadow scoring with a challenger. Its version stays in the registry.
+ */
+export async function stopChallenger(
+  organizationId: string,
+  modelId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = createAdminClient()
+
+  const { data } = await supabase
+    .from('scoring_models')
+    .update({ is_challenger: false })
+    .eq('id', modelId)
+    .eq('organization_id', organizationId)
+    .eq('is_challenger', true)
+    .select('id')
+
+  if (!data || data.length === 0) {
+    return { success: false, error: 'Model is not the current challenger' }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Compare the challenger's shadow scores with the champion's live scores
+ * on the same leads, each the last recorded before the lead's outcome. Probabilities use
+ * each row's calibrated conversion probability, or score / 100 without one.
+ */
+export async function compareChallenger(
+  organizationId: string,
+  challenger?: ScoringModel | null
+): Promise<ChallengerComparison | null> {
+  const supabase = createAdminClient()
+
+  const model = challenger === undefined ? await getChallengerModel(organizationId) : challenger
+  if (!model) {
+    return null
+  }
+  const champion = await getActiveScoringModel(organizationId)
+
+  // Latest closed outcome per lead
+  const outcomeByLead: Record<string, { label: number; recordedAt: string }> = {}
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page } = await supabase
+      .from('lead_outcomes')
+      .select('lead_id, outcome_type, created_at, lead:leads!inner(organization_id)')
+      .eq('lead.organization_id', organizationId)
+      .neq('outcome_type', 'in_progress')
+      .order('created_at', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1)
+
+    for (const row of page || []) {
+      if (!outcomeByLead[row.lead_id]) {
+        outcomeByLead[row.lead_id] = {
+          label: row.outcome_type === 'converted' ? 1 : 0,
+          recordedAt: row.created_at,
+        }
+      }
+    }
+    if (!page || page.length < PAGE_SIZE) break
+  }
+
+  // The last challenger shadow score and champion live score before each
+  // outcome; scores from requalifying after the outcome don't count
+  const leadIds = Object.keys(outcomeByLead)
+  const shadowByLead: Record<string, { score: number; probability: number }> = {}
+  const championByLead: Record<string, { score: number; probability: number }> = {}
+
+  const collectScoresBeforeOutcome = async (
+    chunk: string[],
+    isShadow: boolean,
+    modelVersion: number | null,
+    into: Record<string, { score: number; probability: number }>
+  ) => {
+    // A chunk of leads can carry more than a page of scores
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('scoring_history')
+        .select('lead_id, score, conversion_probability, created_at')
+        .in('lead_id', chunk)
+        .eq('is_shadow', isShadow)
+      query = modelVersion === null ? query.is('model_version', null) : query.eq('model_version', modelVersion)
+
+      const { data: history } = await query
+        .order('created_at', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1)
+
+      for (const row of history || []) {
+        if (!into[row.lead_id] && row.created_at <= outcomeByLead[row.lead_id].recordedAt) {
+          into[row.lead_id] = toPrediction(row)
+        }
+      }
+      if (!history || history.length < PAGE_SIZE) break
+    }
+  }
+
+  for (let i = 0; i < leadIds.length; i += CHUNK_SIZE) {
+    const chunk = leadIds.slice(i, i + CHUNK_SIZE)
+    await Promise.all([
+      collectScoresBeforeOutcome(chunk, true, model.modelVersion, shadowByLead),
+      // Without an active model, live scores come from the rule-based scorer
+      collectScoresBeforeOutcome(chunk, false, champion?.modelVersion ?? null, championByLead),
+    ])
+  }
+
+  // Only leads scored by both models before a closed outcome count
+  const paired = leadIds.filter((id) => shadowByLead[id] && championByLead[id])
+  const labels = paired.map((id) => outcomeByLead[id].label)
+  const conversions = labels.filter((l) => l === 1).length
+
+  const evaluate = (predictions: Record<string, { score: number; probability: number }>) =>
+    paired.length > 0
+      ? {
+          auc: rocAuc(paired.map((id) => predictions[id].score), labels),
+          brierScore: brierScore(paired.map((id) => predictions[id].probability), labels),
+        }
+      : null
+
+  const championMetrics = evaluate(championByLead)
+  const challengerMetrics = evaluate(shadowByLead)
+
+  // Needs enough closed leads of both kinds, a better AUC and no worse calibration
+  const challengerWins =
+    paired.length >= MIN_COMPARISON_SAMPLES &&
+    conversions > 0 &&
+    conversions < paired.length &&
+    !!championMetrics &&
+    !!challengerMetrics &&
+    challengerMetrics.auc > championMetrics.auc &&
+    challengerMetrics.brierScore <= championMetrics.brierScore
+
+  return {
+    championVersion: champion?.modelVersion ?? null,
+    challengerVersion: model.modelVersion,
+    sampleSize: paired.length,
+    conversions,
+    champion: championMetrics,
+    challenger: challengerMetrics,
+    challengerWins,
+  }
+}
+
+/**
+ * Metrics for every model version, oldest first, with realized accuracy from
+ * closed outcomes. Each outcome counts against the model version whose score
+ * the lead carried when the outcome was recorded.
+ */
+export async function getModelHistory(organizationId: string): Promise<ModelHistoryEntry[]> {
+  const supabase = createAdminClient()
+
+  const [models, tiers] = await Promise.all([
+    listScoringModels(organizationId),
+    getScoreTiers(organizationId),
+  ])
+  const positiveThreshold = getTopTier(tiers).min_score
+
+  // Latest closed outcome per lead
+  const outcomeByLead: Record<string, { label: number; recordedAt: string }> = {}
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page } = await supabase
+      .from('lead_outcomes')
+      .select('lead_id, outcome_type, created_at, lead:leads!inner(organization_id)')
+      .eq('lead.organization_id', organizationId)
+      .neq('outcome_type', 'in_progress')
+      .order('created_at', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1)
+
+    for (const row of page || []) {
+      if (!outcomeByLead[row.lead_id]) {
+        outcomeByLead[row.lead_id] = {
+          label: row.outcome_type === 'converted' ? 1 : 0,
+          recordedAt: row.created_at,
+        }
+      }
+    }
+    if (!page || page.length < PAGE_SIZE) break
+  }
+
+  // The last score before each outcome, grouped by the model version behind it
+  const byVersion: Record<number, Array<{ label: number; score: number; probability: number }>> = {}
+  const leadIds = Object.keys(outcomeByLead)
+
+  for (let i = 0; i < leadIds.length; i += CHUNK_SIZE) {
+    const chunk = leadIds.slice(i, i + CHUNK_SIZE)
+    const seen = new Set<string>()
+
+    // A chunk of leads can carry more than a page of scores
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: history } = await supabase
+        .from('scoring_history')
+        .select('lead_id, score, conversion_probability, model_version, created_at')
+        .in('lead_id', chunk)
+        .eq('is_shadow', false)
+        .not('model_version', 'is', null)
+        .order('created_at', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1)
+
+      for (const row of history || []) {
+        const outcome = outcomeByLead[row.lead_id]
+        if (seen.has(row.lead_id) || row.created_at > outcome.recordedAt) continue
+        seen.add(row.lead_id)
+        if (!byVersion[row.model_version]) byVersion[row.model_version] = []
+        byVersion[row.model_version].push({ label: outcome.label, ...toPrediction(row) })
+      }
+      if (!history || history.length < PAGE_SIZE) break
+    }
+  }
+
+  return [...models].reverse().map((model) => {
+    const metrics = model.performanceMetrics
+    return {
+      modelVersion: model.modelVersion,
+      createdAt: model.createdAt,
+      activatedAt: model.activatedAt,
+      isActive: model.isActive,
+      isChallenger: model.isChallenger,
+      trainedOnCount: model.trainedOnCount,
+      holdout: metrics
+        ? {
+            accuracy: metrics.accuracy,
+            f1Score: metrics.f1Score,
+            auc: metrics.auc,
+            brierScore: metrics.brierScore ?? null,
+          }
+        : null,
+      realized: realizedMetrics(byVersion[model.modelVersion] || [], positiveThreshold),
+    }
+  })
+}
+
+function realizedMetrics(
+  predictions: Array<{ label: number; score: number; probability: number }>,
+  positiveThreshold: number
+): RealizedMetrics | null {
+  if (predictions.length === 0) return null
+
+  let truePositives = 0
+  let falsePositives = 0
+  let trueNegatives = 0
+  for (const p of predictions) {
+    const predictedPositive = p.score >= positiveThreshold
+    if (predictedPositive && p.label === 1) truePositives++
+    else if (predictedPositive) falsePositives++
+    else if (p.label === 0) trueNegatives++
+  }
+
+  const labels = predictions.map((p) => p.label)
+  const conversions = labels.filter((l) => l === 1).length
+
+  return {
+    sampleSize: predictions.length,
+    conversions,
+    accuracy: (truePositives + trueNegatives) / predictions.length,
+    precision: truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0,
+    recall: conversions > 0 ? truePositives / conversions : 0,
+    auc: conversions > 0 && conversions < predictions.length
+      ? rocAuc(predictions.map((p) => p.score), labels)
+      : null,
+    brierScore: brierScore(predictions.map((p) => p.probability), labels),
+  }
+}
+
+function toPrediction(row: { score: number; conversion_probability: number | string | null }) {
+  return {
+    score: row.score,
+    probability: row.conversion_probability !== null
+      ? Number(row.conversion_probability)
+      : row.score / 100,
+  }
+}
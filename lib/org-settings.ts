@@ -0,0 +1,40 @@
+/**
+ * Organization Settings Loaders
+ * Server-side reads of organizations.settings keys whose parsing helpers are
+ * shared with client components (score tiers, title taxonomy)
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin'
+import { resolveScoreTiers } from '@/lib/tiers'
+import { resolveTitleTaxonomy, type TitleTaxonomy } from '@/lib/title-taxonomy'
+import type { ScoreTier } from '@/types'
+
+/**
+ * Load the score tiers for an organization
+ */
+export async function getScoreTiers(organizationId: string): Promise<ScoreTier[]> {
+  const supabase = createAdminClient()
+
+  const { data: org } = await supabase
+    .from('organizations')
+    .select('settings')
+    .eq('id', organizationId)
+    .single()
+
+  return resolveScoreTiers(org?.settings?.tiers)
+}
+
+/**
+ * Load the title taxonomy for an organization
+ */
+export async function getTitleTaxonomy(organizationId: string): Promise<TitleTaxonomy> {
+  const supabase = createAdminClient()
+
+  const { data: org } = await supabase
+    .from('organizations')
+    .select('settings')
+    .eq('id', organizationId)
+    .single()
+
+  return resolveTitleTaxonomy(org?.settings?.title_taxonomy)
+}
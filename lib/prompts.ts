@@ -0,0 +1,206 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getTierRanges, getBottomTier } from '@/lib/tiers'
+import type { Lead, ICPCriterion, PromptTemplate, ScoreTier } from '@/types'
+
+// Matches the knockout settings default
+const DEFAULT_REQUIRED_MIN_SCORE = 30
+
+/**
+ * Lead fields available to qualification prompt templates
+ */
+export type PromptLead = Pick<
+  Lead,
+  | 'first_name'
+  | 'last_name'
+  | 'email'
+  | 'job_title'
+  | 'company_name'
+  | 'company_website'
+  | 'company_size'
+  | 'industry'
+  | 'budget_range'
+  | 'timeline'
+  | 'challenge'
+>
+
+/**
+ * Variables that can be used in a template as {{name}}
+ */
+export const PROMPT_TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'lead.name', description: 'First and last name' },
+  { name: 'lead.first_name', description: 'First name' },
+  { name: 'lead.last_name', description: 'Last name' },
+  { name: 'lead.email', description: 'Email address' },
+  { name: 'lead.job_title', description: 'Job title' },
+  { name: 'lead.company_name', description: 'Company name' },
+  { name: 'lead.company_website', description: 'Company website' },
+  { name: 'lead.company_size', description: 'Company size' },
+  { name: 'lead.industry', description: 'Industry' },
+  { name: 'lead.budget_range', description: 'Budget range' },
+  { name: 'lead.timeline', description: 'Purchase timeline' },
+  { name: 'lead.challenge', description: 'Challenge described by the lead' },
+  { name: 'criteria', description: 'ICP criteria with weights, required flags and ideal values' },
+  { name: 'tier_list', description: 'Score tiers with their score ranges' },
+  { name: 'bottom_tier', description: 'Id of the lowest score tier' },
+  { name: 'required_min_score', description: 'Minimum score (0-100) a required criterion needs' },
+]
+
+/**
+ * Built-in qualification template, used until an organization saves its own
+ */
+export const DEFAULT_QUALIFICATION_TEMPLATE = `You are a B2B lead qualification expert. Evaluate this lead against the Ideal Customer Profile criteria provided.
+
+## Ideal Customer Profile Criteria:
+{{criteria}}
+
+## Lead Information:
+- Name: {{lead.name}}
+- Email: {{lead.email}}
+- Job Title: {{lead.job_title}}
+- Company: {{lead.company_name}}
+- Website: {{lead.company_website}}
+- Company Size: {{lead.company_size}}
+- Industry: {{lead.industry}}
+- Budget: {{lead.budget_range}}
+- Timeline: {{lead.timeline}}
+- Challenge: {{lead.challenge}}
+
+## Scoring Instructions:
+1. Score each criterion from 0-100 based on how well the lead matches
+2. Apply the weights to calculate an overall weighted score
+3. Assign a label: {{tier_list}}
+4. If any REQUIRED criterion scores below {{required_min_score}}, automatically label as "{{bottom_tier}}"
+5. Provide clear, specific reasoning for your scoring
+6. Suggest a concrete recommended action`
+
+/**
+ * Sample lead used to preview templates when the organization has no leads yet
+ */
+export const SAMPLE_PROMPT_LEAD: PromptLead = {
+  first_name: 'Jordan',
+  last_name: 'Lee',
+  email: 'jordan.lee@example.com',
+  job_title: 'VP of Operations',
+  company_name: 'Example Corp',
+  company_website: 'https://example.com',
+  company_size: '51-200',
+  industry: 'Software',
+  budget_range: '$10,000 - $50,000',
+  timeline: '1-3 months',
+  challenge: 'Our sales team spends too much time on leads that never convert.',
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([a-z_.]+)\s*\}\}/g
+
+/**
+ * Names used in a template that are not known variables
+ */
+export function findUnknownVariables(template: string): string[] {
+  const known = new Set(PROMPT_TEMPLATE_VARIABLES.map((v) => v.name))
+  const unknown = new Set<string>()
+  template.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    if (!known.has(name)) unknown.add(name)
+    return placeholder
+  })
+  return Array.from(unknown)
+}
+
+/**
+ * Substitute {{name}} placeholders; unknown names render as empty strings
+ */
+export function renderPromptTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (_, name: string) => variables[name] ?? '')
+}
+
+/**
+ * Variable values for a lead, the organization's criteria and its tiers.
+ * requiredMinScore is the knockout threshold for required criteria.
+ */
+export function buildQualificationVariables(
+  lead: PromptLead,
+  criteria: ICPCriterion[],
+  tiers: ScoreTier[],
+  requiredMinScore: number = DEFAULT_REQUIRED_MIN_SCORE
+): Record<string, string> {
+  const criteriaList = criteria
+    .map((c) => {
+      const values = Array.isArray(c.ideal_values) && c.ideal_values.length > 0
+        ? c.ideal_values.join(', ')
+        : 'Any'
+      return `- ${c.name} (Weight: ${c.weight}%)${c.is_required ? ' [REQUIRED]' : ''}
+  ${c.description ? `Description: ${c.description}\n  ` : ''}Ideal values: ${values}`
+    })
+    .join('\n')
+
+  const tierList = getTierRanges(tiers)
+    .map((t) => `"${t.id}" (${t.max_score === 100 ? `${t.min_score}+` : t.min_score === 0 ? `below ${t.max_score + 1}` : `${t.min_score}-${t.max_score}`})`)
+    .join(', ')
+
+  const field = (value: string | null) => value || 'Not provided'
+
+  return {
+    'lead.name': `${lead.first_name || ''} ${lead.last_name || ''}`,
+    'lead.first_name': lead.first_name || '',
+    'lead.last_name': lead.last_name || '',
+    'lead.email': lead.email,
+    'lead.job_title': field(lead.job_title),
+    'lead.company_name': field(lead.company_name),
+    'lead.company_website': field(lead.company_website),
+    'lead.company_size': field(lead.company_size),
+    'lead.industry': field(lead.industry),
+    'lead.budget_range': field(lead.budget_range),
+    'lead.timeline': field(lead.timeline),
+    'lead.challenge': field(lead.challenge),
+    criteria: criteriaList,
+    tier_list: tierList,
+    bottom_tier: getBottomTier(tiers).id,
+    required_min_score: String(requiredMinScore),
+  }
+}
+
+/**
+ * Render the qualification prompt. The JSON response format is always
+ * appended so custom templates cannot break result validation.
+ */
+export function buildQualificationPrompt(
+  lead: PromptLead,
+  criteria: ICPCriterion[],
+  tiers: ScoreTier[],
+  template: string = DEFAULT_QUALIFICATION_TEMPLATE,
+  requiredMinScore: number = DEFAULT_REQUIRED_MIN_SCORE
+): string {
+  const body = renderPromptTemplate(
+    template,
+    buildQualificationVariables(lead, criteria, tiers, requiredMinScore)
+  )
+
+  return `${body.trim()}
+
+Respond ONLY with valid JSON in this exact format:
+{
+  "score": <number 0-100>,
+  "label": "<${tiers.map((t) => t.id).join('|')}>",
+  "reasoning": "<2-3 sentence explanation of the overall assessment>",
+  "breakdown": {
+    "<criterion_name>": { "score": <number>, "note": "<brief explanation>" }
+  },
+  "recommended_action": "<specific next step suggestion>"
+}`
+}
+
+/**
+ * Get the organization's active qualification template, if it has saved one
+ */
+export async function getActivePromptTemplate(organizationId: string): Promise<PromptTemplate | null> {
+  const supabase = createAdminClient()
+
+  const { data } = await supabase
+    .from('prompt_templates')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('purpose', 'qualification')
+    .eq('is_active', true)
+    .maybeSingle()
+
+  return (data as PromptTemplate | null) ?? null
+}
@@ -1,4 +1,3 @@
-import Anthropic from '@anthropic-ai/sdk'
 import { createAdminClient } from '@/lib/supabase/admin'
 import { triggerLeadQualifiedWebhook } from '@/lib/webhooks'
 import { sendHotLeadNotification } from '@/lib/email'
@@ -6,19 +5,40 @@ import {
   extractFeatures,
   calculateWeightedScore,
   getScoreLabel,
+  blendScores,
   serializeFeatures,
   DEFAULT_FEATURE_WEIGHTS,
   type FeatureVector,
 } from '@/lib/features'
-import { enrichLead, getLeadEnrichments } from '@/lib/enrich'
-import { getActiveScoringModel } from '@/lib/learn'
-import type { Lead, ICPCriterion, QualificationResult } from '@/types'
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-})
-
-export async function qualifyLead(leadId: string): Promise<QualificationResult | null> {
+import { getLeadEnrichments, type LeadEnrichmentSet } from '@/lib/enrich'
+import { enrichLead } from '@/lib/enrichment'
+import {
+  extractCustomFeatures,
+  getCustomFeatureDefinitions,
+  withCustomFeatureWeights,
+} from '@/lib/feature-registry'
+import { calibrateProbability } from '@/lib/logistic'
+import { getLeadBehavior, markBehaviorQualified, type LeadBehavior } from '@/lib/behavioral'
+import {
+  getActiveScoringModel,
+  getChallengerModel,
+  getBlendRatio,
+  expectedRevenue,
+  type ScoringModel,
+} from '@/lib/learn'
+import { generateValidated, qualificationResultSchema } from '@/lib/llm'
+import { applyKnockoutRules, getKnockoutSettings, type KnockoutSettings } from '@/lib/knockout'
+import { getTopTier, getBottomTier } from '@/lib/tiers'
+import { getScoreTiers, getTitleTaxonomy } from '@/lib/org-settings'
+import type { TitleTaxonomy } from '@/lib/title-taxonomy'
+import { buildQualificationPrompt, getActivePromptTemplate } from '@/lib/prompts'
+import type { Lead, ICPCriterion, PromptTemplate, QualificationResult, ScoreSource, ScoreTier } from '@/types'
+
+/**
+ * Qualify a lead and persist the result.
+ * Throws on failure so the job queue can record the error and retry.
+ */
+export async function qualifyLead(leadId: string): Promise<QualificationResult> {
   const supabase = createAdminClient()
 
   // Get lead data
@@ -29,8 +49,7 @@ export async function qualifyLead(leadId: string): Promise<QualificationResult |
     .single()
 
   if (leadError || !lead) {
-    console.error('Failed to fetch lead:', leadError)
-    return null
+    throw new Error(`Failed to fetch lead: ${leadError?.message || 'Lead not found'}`)
   }
 
   // Update status to processing
@@ -39,21 +58,7 @@ export async function qualifyLead(leadId: string): Promise<QualificationResult |
     .update({ qualification_status: 'processing' })
     .eq('id', leadId)
 
-  // Get ICP criteria for the organization
-  const { data: criteria, error: criteriaError } = await supabase
-    .from('icp_criteria')
-    .select('*')
-    .eq('organization_id', lead.organization_id)
-    .order('sort_order')
-
-  if (criteriaError) {
-    console.error('Failed to fetch ICP criteria:', criteriaError)
-    await supabase
-      .from('leads')
-      .update({ qualification_status: 'failed' })
-      .eq('id', leadId)
-    return null
-  }
+  const context = await loadScoringContext(lead.organization_id)
 
   // Get or create enrichments for ML features
   let enrichments = await getLeadEnrichments(leadId)
@@ -66,64 +71,23 @@ export async function qualifyLead(leadId: string): Promise<QualificationResult |
     }
   }
 
-  // Extract feature vector
-  const features = extractFeatures(
-    lead as Lead,
-    criteria as ICPCriterion[],
-    {
-      intent: enrichments.intent ? {
-        buying_intent_score: enrichments.intent.buying_intent_score,
-        urgency_score: enrichments.intent.urgency_score,
-      } : undefined,
-      authority: enrichments.authority ? {
-        authority_level: enrichments.authority.authority_level,
-      } : undefined,
-      company: enrichments.company ? {
-        health_score: enrichments.company.health_score / 10, // Normalize 1-10 to 0-1
-      } : undefined,
-    }
-  )
-
-  // Get learned weights if available, otherwise use defaults
-  const scoringModel = await getActiveScoringModel(lead.organization_id)
-  const weights = scoringModel?.featureWeights || DEFAULT_FEATURE_WEIGHTS
-  const modelVersion = scoringModel?.modelVersion || null
-
-  // Build the prompt
-  const prompt = buildQualificationPrompt(lead as Lead, criteria as ICPCriterion[])
-
-  let result: QualificationResult
-
-  try {
-    const message = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1024,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    })
-
-    // Extract text content
-    const textContent = message.content.find((c) => c.type === 'text')
-    if (!textContent || textContent.type !== 'text') {
-      throw new Error('No text response from Claude')
-    }
-
-    // Parse JSON response
-    const jsonMatch = textContent.text.match(/\{[\s\S]*\}/)
-    if (!jsonMatch) {
-      throw new Error('No JSON found in response')
-    }
-
-    result = JSON.parse(jsonMatch[0])
-  } catch (aiError) {
-    console.warn('AI qualification failed, using ML-based scoring:', aiError)
-    // Use ML-based feature scoring instead of simple rule-based fallback
-    result = calculateMLScore(lead as Lead, criteria as ICPCriterion[], features, weights, enrichments)
-  }
+  // Pixel and ad-click signals for the behavioral features
+  const behavior = await getLeadBehavior(leadId)
+
+  const scored = await scoreLead(lead as Lead, enrichments, context, behavior)
+  const {
+    result,
+    features,
+    scoreSource,
+    fallbackReason,
+    llmScore,
+    modelScore,
+    blendRatio,
+    conversionProbability,
+    expectedRevenue,
+  } = scored
+  const { tiers, promptTemplate } = context
+  const modelVersion = context.scoringModel?.modelVersion || null
 
   // Update lead with qualification results
   const { error: updateError } = await supabase
@@ -134,18 +98,17 @@ export async function qualifyLead(leadId: string): Promise<QualificationResult |
       reasoning: result.reasoning,
       breakdown: result.breakdown,
       recommended_action: result.recommended_action,
+      score_source: scoreSource,
+      score_fallback_reason: fallbackReason,
+      conversion_probability: conversionProbability,
+      expected_revenue: expectedRevenue,
       qualified_at: new Date().toISOString(),
       qualification_status: 'completed',
     })
     .eq('id', leadId)
 
   if (updateError) {
-    console.error('Failed to update lead with results:', updateError)
-    await supabase
-      .from('leads')
-      .update({ qualification_status: 'failed' })
-      .eq('id', leadId)
-    return null
+    throw new Error(`Failed to update lead with results: ${updateError.message}`)
   }
 
   // Store scoring history for ML learning
@@ -154,15 +117,32 @@ export async function qualifyLead(leadId: string): Promise<QualificationResult |
     score: result.score,
     label: result.label,
     model_version: modelVersion,
+    score_source: scoreSource,
+    llm_score: llmScore,
+    model_score: modelScore,
+    blend_ratio: blendRatio,
+    prompt_template_version: promptTemplate?.version ?? null,
+    conversion_probability: conversionProbability,
+    expected_revenue: expectedRevenue,
     feature_vector: serializeFeatures(features),
   })
 
+  // Shadow-score with the challenger model, if one is running
+  await recordChallengerScore(lead as Lead, scored, context)
+
+  // Baseline for requalifying when engagement changes
+  await markBehaviorQualified(leadId, behavior.behavioral)
+
   // Log activity
   await supabase.from('activity_log').insert({
     organization_id: lead.organization_id,
     lead_id: leadId,
     action: 'lead.qualified',
-    details: { score: result.score, label: result.label },
+    details: {
+      score: result.score,
+      label: result.label,
+      ...(scored.knockouts.length > 0 && { knockouts: scored.knockouts }),
+    },
   })
 
   // Trigger lead.qualified webhook
@@ -177,8 +157,9 @@ export async function qualifyLead(leadId: string): Promise<QualificationResult |
     qualified_at: new Date().toISOString(),
   }).catch(console.error)
 
-  // Create notification if hot lead
-  if (result.label === 'hot') {
+  // Create notification if the lead lands in the top tier
+  const topTier = getTopTier(tiers)
+  if (result.label === topTier.id) {
     // Get all admins and managers
     const { data: members } = await supabase
       .from('organization_members')
@@ -191,7 +172,7 @@ export async function qualifyLead(leadId: string): Promise<QualificationResult |
         organization_id: lead.organization_id,
         user_id: m.user_id,
         type: 'hot_lead',
-        title: `New hot lead: ${lead.first_name} ${lead.last_name}`,
+        title: `New ${topTier.name.toLowerCase()} lead: ${lead.first_name} ${lead.last_name}`,
         message: `${lead.company_name || lead.email} - Score: ${result.score}`,
         data: { lead_id: leadId, score: result.score },
       }))
@@ -203,6 +184,7 @@ export async function qualifyLead(leadId: string): Promise<QualificationResult |
     sendHotLeadNotification(lead.organization_id, {
       lead: lead as Lead,
       score: result.score,
+      tierName: topTier.name,
       reasoning: result.reasoning,
       recommendedAction: result.recommended_action,
     }).catch(console.error)
@@ -211,6 +193,268 @@ export async function qualifyLead(leadId: string): Promise<QualificationResult |
   return result
 }
 
+/**
+ * Organization-level inputs to scoring, loaded once and shared across leads
+ */
+export interface ScoringContext {
+  organizationId: string
+  criteria: ICPCriterion[]
+  scoringModel: ScoringModel | null
+  challenger: ScoringModel | null
+  weights: FeatureVector
+  blendRatio: number
+  tiers: ScoreTier[]
+  promptTemplate: PromptTemplate | null
+  knockoutSettings: KnockoutSettings
+  titleTaxonomy: TitleTaxonomy
+  useLLM: boolean
+}
+
+/**
+ * Result of scoring a single lead, before anything is persisted
+ */
+export interface LeadScore {
+  result: QualificationResult
+  features: FeatureVector
+  scoreSource: ScoreSource
+  fallbackReason: string | null
+  llmScore: number | null
+  modelScore: number
+  blendRatio: number
+  conversionProbability: number | null
+  expectedRevenue: number | null // Probability times the expected deal value for the tier
+  knockouts: string[]
+}
+
+/**
+ * Load an organization's scoring inputs. Overrides replace the stored
+ * criteria or model weights, e.g. to simulate draft changes.
+ */
+export async function loadScoringContext(
+  organizationId: string,
+  overrides: { criteria?: ICPCriterion[]; weights?: FeatureVector; useLLM?: boolean } = {}
+): Promise<ScoringContext> {
+  const supabase = createAdminClient()
+
+  let criteria = overrides.criteria
+  if (!criteria) {
+    // Get ICP criteria for the organization
+    const { data, error: criteriaError } = await supabase
+      .from('icp_criteria')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('sort_order')
+
+    if (criteriaError) {
+      throw new Error(`Failed to fetch ICP criteria: ${criteriaError.message}`)
+    }
+    // Rows store the criterion type as `type`
+    criteria = (data || []).map((c) => ({ ...c, data_type: c.data_type ?? c.type })) as ICPCriterion[]
+  }
+  const customFeatures = getCustomFeatureDefinitions(criteria)
+
+  // Get learned weights if available, otherwise use defaults
+  const scoringModel = await getActiveScoringModel(organizationId)
+
+  const [challenger, blendRatio, tiers, promptTemplate, knockoutSettings, titleTaxonomy] = await Promise.all([
+    getChallengerModel(organizationId),
+    getBlendRatio(organizationId, scoringModel),
+    getScoreTiers(organizationId),
+    getActivePromptTemplate(organizationId),
+    getKnockoutSettings(organizationId),
+    getTitleTaxonomy(organizationId),
+  ])
+
+  return {
+    organizationId,
+    criteria,
+    scoringModel,
+    challenger,
+    weights: withCustomFeatureWeights(
+      overrides.weights || scoringModel?.featureWeights || DEFAULT_FEATURE_WEIGHTS,
+      customFeatures
+    ),
+    blendRatio,
+    tiers,
+    promptTemplate,
+    knockoutSettings,
+    titleTaxonomy,
+    useLLM: overrides.useLLM ?? true,
+  }
+}
+
+/**
+ * Score a lead without writing anything to the lead or its history
+ */
+export async function scoreLead(
+  lead: Lead,
+  enrichments: LeadEnrichmentSet,
+  context: ScoringContext,
+  behavior: LeadBehavior = {}
+): Promise<LeadScore> {
+  const { criteria, weights, tiers } = context
+
+  // Extract feature vector
+  const features = extractFeatures(
+    lead,
+    criteria,
+    {
+      intent: enrichments.intent ? {
+        buying_intent_score: enrichments.intent.buying_intent_score,
+        urgency_score: enrichments.intent.urgency_score,
+      } : undefined,
+      authority: enrichments.authority ? {
+        authority_level: enrichments.authority.authority_level,
+      } : undefined,
+      // Merged enrichments may lack a health score when no provider supplied one
+      company: enrichments.company && typeof enrichments.company.health_score === 'number' ? {
+        health_score: enrichments.company.health_score / 10, // Normalize 1-10 to 0-1
+      } : undefined,
+      contact: enrichments.contact ? {
+        contact_quality_score: enrichments.contact.contact_quality_score,
+      } : undefined,
+    },
+    behavior.behavioral,
+    behavior.tracking,
+    context.titleTaxonomy
+  )
+  Object.assign(features, extractCustomFeatures(lead, criteria, enrichments))
+
+  // Learned model score, blended with the LLM score below
+  const modelScore = calculateWeightedScore(features, weights)
+
+  let result: QualificationResult
+  let scoreSource: ScoreSource
+  let fallbackReason: string | null = null
+  let llmScore: number | null = null
+  let blendRatio = 0
+
+  try {
+    if (!context.useLLM) {
+      throw new Error('AI scoring disabled for this run')
+    }
+
+    // Build the prompt from the organization's template, if it has one
+    const prompt = buildQualificationPrompt(
+      lead,
+      criteria,
+      tiers,
+      context.promptTemplate?.template,
+      context.knockoutSettings.required_min_score
+    )
+
+    const { data, repaired } = await generateValidated(
+      { purpose: 'qualification', prompt, maxTokens: 1024 },
+      qualificationResultSchema,
+      { organizationId: context.organizationId, leadId: lead.id }
+    )
+
+    scoreSource = repaired ? 'llm_repaired' : 'llm'
+    llmScore = data.score
+    blendRatio = context.blendRatio
+
+    const score = blendScores(llmScore, modelScore, blendRatio)
+    result = { ...data, score, label: getScoreLabel(score, tiers) }
+  } catch (aiError) {
+    if (context.useLLM) {
+      console.warn('AI qualification failed, using ML-based scoring:', aiError)
+    }
+    // Use ML-based feature scoring instead of simple rule-based fallback
+    result = calculateMLScore(lead, criteria, features, weights, enrichments, tiers)
+    scoreSource = 'ml_fallback'
+    fallbackReason = aiError instanceof Error ? aiError.message : 'Unknown AI qualification error'
+  }
+
+  // Hard knockout rules apply to both scoring paths
+  const knockout = applyKnockoutRules(
+    result,
+    lead,
+    criteria,
+    context.knockoutSettings,
+    tiers,
+    context.titleTaxonomy
+  )
+
+  // Calibrated from the final score, so it reflects blending and knockouts
+  const calibration = context.scoringModel?.calibration
+  const conversionProbability = calibration
+    ? Math.round(calibrateProbability(knockout.result.score, calibration) * 10000) / 10000
+    : null
+  const dealValue = context.scoringModel?.performanceMetrics?.dealValue
+
+  return {
+    result: knockout.result,
+    features,
+    scoreSource,
+    fallbackReason,
+    llmScore,
+    modelScore,
+    blendRatio,
+    conversionProbability,
+    expectedRevenue: conversionProbability !== null && dealValue
+      ? expectedRevenue(conversionProbability, knockout.result.label, dealValue)
+      : null,
+    knockouts: knockout.reasons,
+  }
+}
+
+/**
+ * Score a lead with the challenger model into scoring_history as a shadow
+ * row. Features and the LLM score are shared with the champion run, so only
+ * the weights, blend ratio and calibration differ. Never touches the lead.
+ */
+async function recordChallengerScore(lead: Lead, scored: LeadScore, context: ScoringContext) {
+  const { challenger } = context
+  if (!challenger) return
+
+  try {
+    const weights = withCustomFeatureWeights(
+      challenger.featureWeights,
+      getCustomFeatureDefinitions(context.criteria)
+    )
+    const modelScore = calculateWeightedScore(scored.features, weights)
+    const blendRatio = scored.llmScore !== null ? (challenger.blendRatio ?? context.blendRatio) : 0
+    const score = scored.llmScore !== null
+      ? blendScores(scored.llmScore, modelScore, blendRatio)
+      : modelScore
+
+    const { result } = applyKnockoutRules(
+      { ...scored.result, score, label: getScoreLabel(score, context.tiers) },
+      lead,
+      context.criteria,
+      context.knockoutSettings,
+      context.tiers,
+      context.titleTaxonomy
+    )
+
+    const conversionProbability = challenger.calibration
+      ? Math.round(calibrateProbability(result.score, challenger.calibration) * 10000) / 10000
+      : null
+    const dealValue = challenger.performanceMetrics?.dealValue
+
+    const supabase = createAdminClient()
+    await supabase.from('scoring_history').insert({
+      lead_id: lead.id,
+      score: result.score,
+      label: result.label,
+      model_version: challenger.modelVersion,
+      score_source: scored.scoreSource,
+      llm_score: scored.llmScore,
+      model_score: modelScore,
+      blend_ratio: blendRatio,
+      prompt_template_version: context.promptTemplate?.version ?? null,
+      conversion_probability: conversionProbability,
+      expected_revenue: conversionProbability !== null && dealValue
+        ? expectedRevenue(conversionProbability, result.label, dealValue)
+        : null,
+      feature_vector: serializeFeatures(scored.features),
+      is_shadow: true,
+    })
+  } catch (error) {
+    console.warn('Challenger scoring failed:', error)
+  }
+}
+
 // ML-based scoring using feature vectors and learned weights
 function calculateMLScore(
   lead: Lead,
@@ -221,11 +465,17 @@ function calculateMLScore(
     company?: { summary?: string; health_score?: number }
     intent?: { summary?: string; buying_intent_score?: number }
     authority?: { authority_level?: number; buying_role?: string }
-  }
+  },
+  tiers: ScoreTier[]
 ): QualificationResult {
   // Calculate weighted score from features
   const score = calculateWeightedScore(features, weights)
-  const label = getScoreLabel(score)
+  const label = getScoreLabel(score, tiers)
+
+  // Reasoning and actions follow the tier's position: top, middle or bottom
+  const rank = label === getTopTier(tiers).id ? 'top'
+    : label === getBottomTier(tiers).id ? 'bottom'
+    : 'middle'
 
   // Build breakdown from feature components
   const breakdown: Record<string, { score: number; note: string }> = {}
@@ -271,8 +521,8 @@ function calculateMLScore(
     reasoningParts.push(enrichments.intent.summary)
   } else {
     reasoningParts.push(
-      label === 'hot' ? 'Strong buying signals detected.' :
-      label === 'warm' ? 'Moderate interest with some gaps.' :
+      rank === 'top' ? 'Strong buying signals detected.' :
+      rank === 'middle' ? 'Moderate interest with some gaps.' :
       'Limited engagement indicators.'
     )
   }
@@ -285,13 +535,13 @@ function calculateMLScore(
 
   // Determine recommended action based on score and features
   let recommendedAction: string
-  if (label === 'hot') {
+  if (rank === 'top') {
     if (features.authority_level >= 0.7) {
       recommendedAction = 'Schedule a discovery call with this decision maker immediately'
     } else {
       recommendedAction = 'Request introduction to decision maker, then schedule call'
     }
-  } else if (label === 'warm') {
+  } else if (rank === 'middle') {
     if (features.buying_intent_score >= 0.6) {
       recommendedAction = 'Send personalized demo invitation to accelerate timeline'
     } else {
@@ -337,51 +587,3 @@ function getLeadFieldValue(lead: Lead, criterionName: string): string | null {
 
   return null
 }
-
-function buildQualificationPrompt(lead: Lead, criteria: ICPCriterion[]): string {
-  const criteriaList = criteria
-    .map((c) => {
-      const values = Array.isArray(c.ideal_values) && c.ideal_values.length > 0
-        ? c.ideal_values.join(', ')
-        : 'Any'
-      return `- ${c.name} (Weight: ${c.weight}%)
-  ${c.description ? `Description: ${c.description}\n  ` : ''}Ideal values: ${values}`
-    })
-    .join('\n')
-
-  return `You are a B2B lead qualification expert. Evaluate this lead against the Ideal Customer Profile criteria provided.
-
-## Ideal Customer Profile Criteria:
-${criteriaList}
-
-## Lead Information:
-- Name: ${lead.first_name || ''} ${lead.last_name || ''}
-- Email: ${lead.email}
-- Job Title: ${lead.job_title || 'Not provided'}
-- Company: ${lead.company_name || 'Not provided'}
-- Website: ${lead.company_website || 'Not provided'}
-- Company Size: ${lead.company_size || 'Not provided'}
-- Industry: ${lead.industry || 'Not provided'}
-- Budget: ${lead.budget_range || 'Not provided'}
-- Timeline: ${lead.timeline || 'Not provided'}
-- Challenge: ${lead.challenge || 'Not provided'}
-
-## Scoring Instructions:
-1. Score each criterion from 0-100 based on how well the lead matches
-2. Apply the weights to calculate an overall weighted score
-3. Assign a label: "hot" (80+), "warm" (50-79), "cold" (below 50)
-4. If any REQUIRED criterion scores below 30, automatically label as "cold"
-5. Provide clear, specific reasoning for your scoring
-6. Suggest a concrete recommended action
-
-Respond ONLY with valid JSON in this exact format:
-{
-  "score": <number 0-100>,
-  "label": "<hot|warm|cold>",
-  "reasoning": "<2-3 sentence explanation of the overall assessment>",
-  "breakdown": {
-    "<criterion_name>": { "score": <number>, "note": "<brief explanation>" }
-  },
-  "recommended_action": "<specific next step suggestion>"
-}`
-}
@@ -0,0 +1,345 @@
+import crypto from 'crypto'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { qualifyLead } from '@/lib/qualify'
+import type { QualificationJob, QualificationJobAttempt } from '@/types'
+
+const DEFAULT_MAX_ATTEMPTS = 5
+const BASE_RETRY_DELAY_MS = 30 * 1000 // 30 seconds
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000 // 1 hour
+
+// A running job whose lock is older than this belongs to a crashed worker
+const STALE_LOCK_MS = 10 * 60 * 1000
+// A lead stuck in 'processing' this long without an active job is requeued
+const STALE_PROCESSING_MS = 15 * 60 * 1000
+
+// Chunk size for .in() filters and bulk inserts
+const CHUNK_SIZE = 100
+
+export interface EnqueueOptions {
+  source?: string // form, import, requalify, bulk_requalify, behavior_change, recovery
+  priority?: number
+  maxAttempts?: number
+  runAfter?: Date
+  batchId?: string // requalification batch the job belongs to
+}
+
+// Lead fields needed to queue a job; label and score are kept for batch summaries
+export interface EnqueueLead {
+  id: string
+  organization_id: string
+  label?: string | null
+  score?: number | null
+}
+
+export interface WorkerRunSummary {
+  workerId: string
+  claimed: number
+  completed: number
+  retried: number
+  failed: number
+  recovered: number
+}
+
+/**
+ * Queue a lead for qualification.
+ * Returns the existing job if the lead already has one queued or running.
+ */
+export async function enqueueQualification(
+  leadId: string,
+  organizationId: string,
+  options: EnqueueOptions = {}
+): Promise<QualificationJob | null> {
+  const supabase = createAdminClient()
+
+  const existing = await getActiveJob(leadId)
+  if (existing) {
+    return existing
+  }
+
+  const { data: job, error } = await supabase
+    .from('qualification_jobs')
+    .insert(buildJobRow({ id: leadId, organization_id: organizationId }, options))
+    .select()
+    .single()
+
+  if (error) {
+    // Unique violation: another request queued this lead concurrently
+    if (error.code === '23505') {
+      return getActiveJob(leadId)
+    }
+    console.error('Failed to enqueue qualification job:', error)
+    return null
+  }
+
+  await supabase
+    .from('leads')
+    .update({ qualification_status: 'pending' })
+    .eq('id', leadId)
+
+  return job as QualificationJob
+}
+
+/**
+ * Queue many leads for qualification (e.g. CSV imports).
+ * Leads that already have an active job are skipped. Returns the number queued.
+ */
+export async function enqueueQualifications(
+  leads: EnqueueLead[],
+  options: EnqueueOptions = {}
+): Promise<number> {
+  const supabase = createAdminClient()
+  let enqueued = 0
+
+  for (let i = 0; i < leads.length; i += CHUNK_SIZE) {
+    const chunk = leads.slice(i, i + CHUNK_SIZE)
+
+    const { data: activeJobs } = await supabase
+      .from('qualification_jobs')
+      .select('lead_id')
+      .in('lead_id', chunk.map((l) => l.id))
+      .in('status', ['queued', 'running'])
+
+    const activeLeadIds = new Set((activeJobs || []).map((j) => j.lead_id))
+    const rows = chunk
+      .filter((l) => !activeLeadIds.has(l.id))
+      .map((l) => buildJobRow(l, options))
+
+    if (rows.length === 0) continue
+
+    const { error } = await supabase.from('qualification_jobs').insert(rows)
+
+    if (error) {
+      console.error('Failed to enqueue qualification batch:', error)
+      continue
+    }
+
+    await supabase
+      .from('leads')
+      .update({ qualification_status: 'pending' })
+      .in('id', rows.map((r) => r.lead_id))
+
+    enqueued += rows.length
+  }
+
+  return enqueued
+}
+
+/**
+ * Worker loop: recover stale work, then claim and run due jobs until the
+ * queue is empty or the time budget is spent. Jobs run one at a time so a
+ * large import never hammers the model provider.
+ */
+export async function processQualificationJobs(options: {
+  workerId?: string
+  batchSize?: number
+  maxRuntimeMs?: number
+} = {}): Promise<WorkerRunSummary> {
+  const supabase = createAdminClient()
+  const workerId = options.workerId || `worker-${crypto.randomUUID().slice(0, 8)}`
+  const batchSize = options.batchSize ?? 5
+  const deadline = Date.now() + (options.maxRuntimeMs ?? 50 * 1000)
+
+  const summary: WorkerRunSummary = {
+    workerId,
+    claimed: 0,
+    completed: 0,
+    retried: 0,
+    failed: 0,
+    recovered: await recoverStaleQualifications(),
+  }
+
+  while (Date.now() < deadline) {
+    const { data: jobs, error } = await supabase.rpc('claim_qualification_jobs', {
+      worker_id: workerId,
+      batch_size: batchSize,
+    })
+
+    if (error) {
+      console.error('Failed to claim qualification jobs:', error)
+      break
+    }
+
+    if (!jobs || jobs.length === 0) {
+      break
+    }
+
+    summary.claimed += jobs.length
+
+    for (const job of jobs as QualificationJob[]) {
+      const outcome = await runJob(job, workerId)
+      summary[outcome]++
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Requeue jobs abandoned by crashed workers and leads left in 'processing'
+ * without an active job. Returns the number of items recovered.
+ */
+export async function recoverStaleQualifications(): Promise<number> {
+  const supabase = createAdminClient()
+  let recovered = 0
+
+  // Jobs still locked past the timeout were abandoned and count as a failed attempt
+  const staleLockCutoff = new Date(Date.now() - STALE_LOCK_MS).toISOString()
+  const { data: staleJobs } = await supabase
+    .from('qualification_jobs')
+    .select('*')
+    .eq('status', 'running')
+    .lt('locked_at', staleLockCutoff)
+    .limit(CHUNK_SIZE)
+
+  for (const job of (staleJobs || []) as QualificationJob[]) {
+    const lockedAt = job.locked_at || job.updated_at
+    await recordFailure(job, {
+      attempt: job.attempts,
+      worker_id: job.locked_by || 'unknown',
+      started_at: lockedAt,
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - new Date(lockedAt).getTime(),
+      error: 'Worker lock expired before the job finished',
+    })
+    recovered++
+  }
+
+  // Leads stuck in 'processing' from before the queue existed or from lost jobs
+  const staleProcessingCutoff = new Date(Date.now() - STALE_PROCESSING_MS).toISOString()
+  const { data: stuckLeads } = await supabase
+    .from('leads')
+    .select('id, organization_id')
+    .eq('qualification_status', 'processing')
+    .lt('updated_at', staleProcessingCutoff)
+    .limit(CHUNK_SIZE)
+
+  if (stuckLeads && stuckLeads.length > 0) {
+    recovered += await enqueueQualifications(stuckLeads, { source: 'recovery' })
+  }
+
+  return recovered
+}
+
+/**
+ * Get the queued or running job for a lead, if any
+ */
+export async function getActiveJob(leadId: string): Promise<QualificationJob | null> {
+  const supabase = createAdminClient()
+
+  const { data } = await supabase
+    .from('qualification_jobs')
+    .select('*')
+    .eq('lead_id', leadId)
+    .in('status', ['queued', 'running'])
+    .limit(1)
+    .maybeSingle()
+
+  return (data as QualificationJob | null) || null
+}
+
+/**
+ * Run a single claimed job and record the attempt
+ */
+async function runJob(
+  job: QualificationJob,
+  workerId: string
+): Promise<'completed' | 'retried' | 'failed'> {
+  const supabase = createAdminClient()
+  const startedAt = new Date()
+
+  try {
+    await qualifyLead(job.lead_id)
+
+    const attempt: QualificationJobAttempt = {
+      attempt: job.attempts,
+      worker_id: workerId,
+      started_at: startedAt.toISOString(),
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - startedAt.getTime(),
+      error: null,
+    }
+
+    await supabase
+      .from('qualification_jobs')
+      .update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        locked_at: null,
+        locked_by: null,
+        last_error: null,
+        attempt_history: [...(job.attempt_history || []), attempt],
+      })
+      .eq('id', job.id)
+
+    return 'completed'
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown qualification error'
+    console.warn(`Qualification job ${job.id} attempt ${job.attempts} failed:`, message)
+
+    return recordFailure(job, {
+      attempt: job.attempts,
+      worker_id: workerId,
+      started_at: startedAt.toISOString(),
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - startedAt.getTime(),
+      error: message,
+    })
+  }
+}
+
+/**
+ * Record a failed attempt, scheduling a retry with backoff or marking the
+ * job (and lead) failed once attempts are exhausted
+ */
+async function recordFailure(
+  job: QualificationJob,
+  attempt: QualificationJobAttempt
+): Promise<'retried' | 'failed'> {
+  const supabase = createAdminClient()
+  const exhausted = job.attempts >= job.max_attempts
+
+  await supabase
+    .from('qualification_jobs')
+    .update({
+      status: exhausted ? 'failed' : 'queued',
+      run_after: exhausted
+        ? job.run_after
+        : new Date(Date.now() + getRetryDelay(job.attempts)).toISOString(),
+      completed_at: exhausted ? new Date().toISOString() : null,
+      locked_at: null,
+      locked_by: null,
+      last_error: attempt.error,
+      attempt_history: [...(job.attempt_history || []), attempt],
+    })
+    .eq('id', job.id)
+
+  await supabase
+    .from('leads')
+    .update({ qualification_status: exhausted ? 'failed' : 'pending' })
+    .eq('id', job.lead_id)
+
+  return exhausted ? 'failed' : 'retried'
+}
+
+/**
+ * Exponential backoff with jitter: 30s, 1m, 2m, 4m ... capped at 1 hour
+ */
+function getRetryDelay(attempt: number): number {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempt - 1))
+  const jitter = delay * 0.2 * Math.random()
+  return Math.round(delay + jitter)
+}
+
+function buildJobRow(lead: EnqueueLead, options: EnqueueOptions) {
+  return {
+    lead_id: lead.id,
+    organization_id: lead.organization_id,
+    source: options.source || 'form',
+    priority: options.priority ?? 0,
+    max_attempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    run_after: (options.runAfter || new Date()).toISOString(),
+    batch_id: options.batchId ?? null,
+    previous_label: lead.label ?? null,
+    previous_score: lead.score ?? null,
+  }
+}
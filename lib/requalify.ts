@@ -0,0 +1,339 @@
+import { z } from 'zod'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { LEAD_STATUSES } from '@/lib/constants'
+import { enqueueQualifications, type EnqueueLead } from '@/lib/queue'
+import type {
+  RequalificationBatch,
+  RequalificationBatchFilters,
+  RequalificationBatchProgress,
+} from '@/types'
+
+// Upper bound on leads in one batch so a single request can't flood the queue
+export const MAX_BATCH_LEADS = 5000
+
+// Bulk work runs behind new inbound leads (0) and single requalifies (10)
+const BATCH_PRIORITY = -10
+
+// Chunk size for .in() filters
+const CHUNK_SIZE = 100
+// PostgREST caps each response at 1000 rows
+const PAGE_SIZE = 1000
+
+export const requalificationFiltersSchema = z
+  .object({
+    label: z.string().min(1).optional(),
+    status: z.enum(LEAD_STATUSES).optional(),
+    from_date: z.string().datetime({ offset: true }).optional(),
+    to_date: z.string().datetime({ offset: true }).optional(),
+    // Version of the model that last scored the lead; 'none' = default weights
+    model_version: z.union([z.number().int().positive(), z.literal('none')]).optional(),
+  })
+  .strict()
+
+/**
+ * Queue every lead matching the filters for requalification as one batch
+ */
+export async function createRequalificationBatch(
+  organizationId: string,
+  userId: string | null,
+  filters: RequalificationBatchFilters
+): Promise<{
+  success: boolean
+  batch?: RequalificationBatch
+  error?: string
+}> {
+  const supabase = createAdminClient()
+
+  const leads = await findLeadsForBatch(organizationId, filters)
+  if (leads.length === 0) {
+    return { success: false, error: 'No leads match these filters' }
+  }
+  if (leads.length > MAX_BATCH_LEADS) {
+    return {
+      success: false,
+      error: `More than ${MAX_BATCH_LEADS} leads match these filters. Narrow them and try again.`,
+    }
+  }
+
+  const { data: batch, error } = await supabase
+    .from('requalification_batches')
+    .insert({
+      organization_id: organizationId,
+      filters,
+      total_leads: leads.length,
+      created_by: userId,
+    })
+    .select()
+    .single()
+
+  if (error || !batch) {
+    throw new Error(`Failed to create batch: ${error?.message || 'Unknown error'}`)
+  }
+
+  // Leads that already have a job in flight are skipped by the queue
+  const queued = await enqueueQualifications(leads, {
+    source: 'bulk_requalify',
+    priority: BATCH_PRIORITY,
+    batchId: batch.id,
+  })
+
+  const { data: updated } = await supabase
+    .from('requalification_batches')
+    .update({
+      total_leads: queued,
+      ...(queued === 0 && { status: 'completed', completed_at: new Date().toISOString() }),
+    })
+    .eq('id', batch.id)
+    .select()
+    .single()
+
+  await supabase.from('activity_log').insert({
+    organization_id: organizationId,
+    user_id: userId,
+    action: 'leads.bulk_requalify_requested',
+    details: { batch_id: batch.id, filters, queued },
+  })
+
+  return { success: true, batch: (updated || batch) as RequalificationBatch }
+}
+
+/**
+ * Get a batch with live progress. Finishes the batch once no jobs remain.
+ */
+export async function getRequalificationBatch(
+  organizationId: string,
+  batchId: string
+): Promise<(RequalificationBatch & { progress: RequalificationBatchProgress }) | null> {
+  const supabase = createAdminClient()
+
+  const { data: batch } = await supabase
+    .from('requalification_batches')
+    .select('*')
+    .eq('id', batchId)
+    .eq('organization_id', organizationId)
+    .single()
+
+  if (!batch) {
+    return null
+  }
+
+  // Finished batches keep their summary; no need to recount
+  if (batch.status !== 'running' && batch.summary) {
+    return { ...(batch as RequalificationBatch), progress: batch.summary }
+  }
+
+  const progress = await getBatchProgress(batchId)
+
+  if (batch.status === 'running' && progress.queued === 0 && progress.running === 0) {
+    const { data: finished } = await supabase
+      .from('requalification_batches')
+      .update({ status: 'completed', summary: progress, completed_at: new Date().toISOString() })
+      .eq('id', batchId)
+      .eq('status', 'running')
+      .select()
+      .single()
+
+    if (finished) {
+      return { ...(finished as RequalificationBatch), progress }
+    }
+  }
+
+  return { ...(batch as RequalificationBatch), progress }
+}
+
+/**
+ * Most recent batches for an organization
+ */
+export async function listRequalificationBatches(
+  organizationId: string,
+  limit = 10
+): Promise<RequalificationBatch[]> {
+  const supabase = createAdminClient()
+
+  const { data } = await supabase
+    .from('requalification_batches')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  return (data || []) as RequalificationBatch[]
+}
+
+/**
+ * Cancel the batch's queued jobs. Jobs already running are left to finish.
+ */
+export async function cancelRequalificationBatch(
+  organizationId: string,
+  batchId: string
+): Promise<{
+  success: boolean
+  batch?: RequalificationBatch
+  error?: string
+}> {
+  const supabase = createAdminClient()
+
+  const { data: batch } = await supabase
+    .from('requalification_batches')
+    .select('id, status')
+    .eq('id', batchId)
+    .eq('organization_id', organizationId)
+    .single()
+
+  if (!batch) {
+    return { success: false, error: 'Batch not found' }
+  }
+  if (batch.status !== 'running') {
+    return { success: false, error: `Batch is already ${batch.status}` }
+  }
+
+  const { data: cancelledJobs } = await supabase
+    .from('qualification_jobs')
+    .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+    .eq('batch_id', batchId)
+    .eq('status', 'queued')
+    .select('lead_id')
+
+  // Cancelled leads keep their previous result. Only leads that were scored
+  // before go back to completed; never-qualified leads stay pending.
+  const leadIds = (cancelledJobs || []).map((j) => j.lead_id)
+  for (let i = 0; i < leadIds.length; i += CHUNK_SIZE) {
+    await supabase
+      .from('leads')
+      .update({ qualification_status: 'completed' })
+      .in('id', leadIds.slice(i, i + CHUNK_SIZE))
+      .not('qualified_at', 'is', null)
+  }
+
+  const progress = await getBatchProgress(batchId)
+
+  const { data: updated } = await supabase
+    .from('requalification_batches')
+    .update({ status: 'cancelled', summary: progress, completed_at: new Date().toISOString() })
+    .eq('id', batchId)
+    .select()
+    .single()
+
+  return { success: true, batch: updated as RequalificationBatch }
+}
+
+async function getBatchProgress(batchId: string): Promise<RequalificationBatchProgress> {
+  const supabase = createAdminClient()
+
+  const jobs = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page } = await supabase
+      .from('qualification_jobs')
+      .select('status, previous_label, lead:leads(label)')
+      .eq('batch_id', batchId)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    jobs.push(...(page || []))
+    if (!page || page.length < PAGE_SIZE) break
+  }
+
+  const progress: RequalificationBatchProgress = {
+    queued: 0,
+    running: 0,
+    completed: 0,
+    failed: 0,
+    cancelled: 0,
+    label_changed: 0,
+    label_changes: {},
+  }
+
+  for (const job of jobs) {
+    const status = job.status as keyof Omit<RequalificationBatchProgress, 'label_changed' | 'label_changes'>
+    progress[status]++
+
+    const lead = (Array.isArray(job.lead) ? job.lead[0] : job.lead) as { label: string | null } | null
+    if (job.status === 'completed' && lead && lead.label !== job.previous_label) {
+      const from = job.previous_label || 'unscored'
+      const to = lead.label || 'unscored'
+      progress.label_changed++
+      progress.label_changes[from] = progress.label_changes[from] || {}
+      progress.label_changes[from][to] = (progress.label_changes[from][to] || 0) + 1
+    }
+  }
+
+  return progress
+}
+
+async function findLeadsForBatch(
+  organizationId: string,
+  filters: RequalificationBatchFilters
+): Promise<EnqueueLead[]> {
+  const supabase = createAdminClient()
+
+  // Page through every match, stopping once the batch limit is exceeded. The
+  // model version filter runs per page so only leads it keeps count.
+  const leads: EnqueueLead[] = []
+  for (let from = 0; leads.length <= MAX_BATCH_LEADS; from += PAGE_SIZE) {
+    let query = supabase
+      .from('leads')
+      .select('id, organization_id, label, score')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (filters.label) query = query.eq('label', filters.label)
+    if (filters.status) query = query.eq('status', filters.status)
+    if (filters.from_date) query = query.gte('created_at', filters.from_date)
+    if (filters.to_date) query = query.lte('created_at', filters.to_date)
+
+    const { data: page, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to fetch leads: ${error.message}`)
+    }
+
+    const matches = filters.model_version === undefined
+      ? page || []
+      : await filterByModelVersion(page || [], filters.model_version)
+    leads.push(...matches)
+    if (!page || page.length < PAGE_SIZE) break
+  }
+
+  return leads
+}
+
+/**
+ * Keep leads whose most recent scoring run used the requested model version
+ */
+async function filterByModelVersion(
+  leads: EnqueueLead[],
+  modelVersion: number | 'none'
+): Promise<EnqueueLead[]> {
+  const supabase = createAdminClient()
+  const latestVersion: Record<string, number | null> = {}
+
+  for (let i = 0; i < leads.length; i += CHUNK_SIZE) {
+    const chunk = leads.slice(i, i + CHUNK_SIZE).map((l) => l.id)
+
+    // A chunk of leads can carry more than a page of scores
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: history, error } = await supabase
+        .from('scoring_history')
+        .select('lead_id, model_version')
+        .in('lead_id', chunk)
+        .eq('is_shadow', false)
+        .order('created_at', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to fetch scoring history: ${error.message}`)
+      }
+
+      for (const row of history || []) {
+        if (!(row.lead_id in latestVersion)) {
+          latestVersion[row.lead_id] = row.model_version
+        }
+      }
+      if (!history || history.length < PAGE_SIZE) break
+    }
+  }
+
+  const wanted = modelVersion === 'none' ? null : modelVersion
+  return leads.filter((l) => l.id in latestVersion && latestVersion[l.id] === wanted)
+}
@@ -0,0 +1,199 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import {
+  getActiveScoringModel,
+  shouldRetrainModel,
+  updateScoringModel,
+  type ModelMetrics,
+} from '@/lib/learn'
+
+// New model must beat the current one's holdout AUC by this much to go live
+export const MIN_AUC_IMPROVEMENT = 0.01
+
+// New outcomes needed after a rejected or failed run before trying again,
+// matching the threshold in should_retrain_model()
+const OUTCOMES_BETWEEN_ATTEMPTS = 50
+
+// PostgREST caps each response at 1000 rows
+const PAGE_SIZE = 1000
+
+export interface RetrainingRunSummary {
+  checked: number
+  retrained: number
+  rejected: number
+  failed: number
+  skipped: number
+}
+
+/**
+ * Check every organization and retrain those with enough new outcomes.
+ * A new model only goes live if it clears the improvement gate; admins get
+ * an in-app notification with the before/after metrics either way.
+ */
+export async function runScheduledRetraining(options: {
+  minAucImprovement?: number
+  deadline?: number // epoch ms; stop starting new organizations after this
+} = {}): Promise<RetrainingRunSummary> {
+  const supabase = createAdminClient()
+  const minAucImprovement = options.minAucImprovement ?? MIN_AUC_IMPROVEMENT
+  const summary: RetrainingRunSummary = { checked: 0, retrained: 0, rejected: 0, failed: 0, skipped: 0 }
+
+  const organizationIds: string[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page } = await supabase
+      .from('organizations')
+      .select('id')
+      .order('created_at')
+      .range(from, from + PAGE_SIZE - 1)
+
+    organizationIds.push(...(page || []).map((o) => o.id))
+    if (!page || page.length < PAGE_SIZE) break
+  }
+
+  for (const organizationId of organizationIds) {
+    if (options.deadline && Date.now() > options.deadline) break
+    summary.checked++
+
+    try {
+      if (!(await shouldRetrainModel(organizationId)) || !(await hasNewOutcomesSinceLastAttempt(organizationId))) {
+        summary.skipped++
+        continue
+      }
+
+      const previous = await getActiveScoringModel(organizationId)
+      // Scheduled runs keep the value weighting the active model was trained with
+      const result = await updateScoringModel(organizationId, {
+        minAucImprovement,
+        valueWeighted: !!previous?.performanceMetrics?.training?.valueWeighted,
+      })
+      const status = result.success ? 'activated' : result.after ? 'rejected' : 'failed'
+
+      await supabase.from('model_training_runs').insert({
+        organization_id: organizationId,
+        trigger: 'scheduled',
+        status,
+        model_version: result.model?.modelVersion ?? null,
+        previous_version: previous?.modelVersion ?? null,
+        before_metrics: result.before ?? null,
+        after_metrics: result.after ?? null,
+        error: result.error ?? null,
+      })
+
+      await supabase.from('activity_log').insert({
+        organization_id: organizationId,
+        action: result.success ? 'model.auto_retrained' : 'model.auto_retrain_rejected',
+        details: {
+          model_version: result.model?.modelVersion,
+          previous_version: previous?.modelVersion ?? null,
+          auc_before: result.before?.auc,
+          auc_after: result.after?.auc,
+          error: result.error,
+        },
+      })
+
+      // Failures before a model was even trained (e.g. too little data) aren't worth a notification
+      if (status !== 'failed') {
+        await notifyAdmins(organizationId, {
+          activated: result.success,
+          version: result.model?.modelVersion ?? null,
+          previousVersion: previous?.modelVersion ?? null,
+          before: result.before ?? null,
+          after: result.after as ModelMetrics,
+          reason: result.error ?? null,
+        })
+      }
+
+      summary[status === 'activated' ? 'retrained' : status]++
+    } catch (error) {
+      console.error(`Scheduled retraining failed for org ${organizationId}:`, error)
+      summary.failed++
+    }
+  }
+
+  return summary
+}
+
+/**
+ * After a rejected or failed run, wait for another batch of outcomes
+ * instead of retraining on the same data every day
+ */
+async function hasNewOutcomesSinceLastAttempt(organizationId: string): Promise<boolean> {
+  const supabase = createAdminClient()
+
+  const { data: lastRun } = await supabase
+    .from('model_training_runs')
+    .select('status, created_at')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (!lastRun || lastRun.status === 'activated') {
+    return true
+  }
+
+  const { count } = await supabase
+    .from('lead_outcomes')
+    .select('id, lead:leads!inner(organization_id)', { count: 'exact', head: true })
+    .eq('lead.organization_id', organizationId)
+    .gt('created_at', lastRun.created_at)
+
+  return (count || 0) >= OUTCOMES_BETWEEN_ATTEMPTS
+}
+
+async function notifyAdmins(
+  organizationId: string,
+  run: {
+    activated: boolean
+    version: number | null
+    previousVersion: number | null
+    before: ModelMetrics | null
+    after: ModelMetrics
+    reason: string | null
+  }
+) {
+  const supabase = createAdminClient()
+
+  const { data: admins } = await supabase
+    .from('organization_members')
+    .select('user_id')
+    .eq('organization_id', organizationId)
+    .eq('role', 'admin')
+
+  if (!admins || admins.length === 0) return
+
+  const formatAuc = (metrics: ModelMetrics | null) => (metrics ? metrics.auc.toFixed(3) : 'n/a')
+  const title = run.activated
+    ? `Scoring model v${run.version} is now live`
+    : 'Scheduled retraining kept the current model'
+  const message = run.activated
+    ? `AUC ${formatAuc(run.before)} → ${formatAuc(run.after)} on the holdout set`
+    : run.reason || `New model AUC ${formatAuc(run.after)} vs current ${formatAuc(run.before)}; improvement gate not met`
+
+  const metricsSummary = (metrics: ModelMetrics | null) =>
+    metrics
+      ? {
+          auc: metrics.auc,
+          accuracy: metrics.accuracy,
+          log_loss: metrics.logLoss ?? null,
+          brier_score: metrics.brierScore ?? null,
+        }
+      : null
+
+  await supabase.from('notifications').insert(
+    admins.map((a) => ({
+      organization_id: organizationId,
+      user_id: a.user_id,
+      type: 'model_retrained',
+      title,
+      message,
+      data: {
+        activated: run.activated,
+        model_version: run.version,
+        previous_version: run.previousVersion,
+        before: metricsSummary(run.before),
+        after: metricsSummary(run.after),
+        reason: run.reason,
+      },
+    }))
+  )
+}
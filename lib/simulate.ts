@@ -0,0 +1,199 @@
+import { z } from 'zod'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { CRITERION_TYPES } from '@/lib/constants'
+import { customFeatureSourceSchema } from '@/lib/feature-registry'
+import { deserializeFeatures, type FeatureVector } from '@/lib/features'
+import { getLeadEnrichmentsForLeads } from '@/lib/enrich'
+import { getLeadBehaviorForLeads } from '@/lib/behavioral'
+import { getScoringModelByVersion } from '@/lib/learn'
+import { loadScoringContext, scoreLead } from '@/lib/qualify'
+import type { Lead, ICPCriterion } from '@/types'
+
+// LLM runs cost one completion per lead, so they get a smaller sample
+const MAX_MODEL_SAMPLE = 200
+const MAX_LLM_SAMPLE = 20
+
+/**
+ * A criterion as edited on the ICP page (weight as a percentage)
+ */
+export const draftCriterionSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  data_type: z.enum(CRITERION_TYPES),
+  weight: z.number().min(0).max(100),
+  ideal_values: z.array(z.string()).default([]),
+  is_required: z.boolean().default(false),
+  feature_source: customFeatureSourceSchema.optional(),
+})
+
+export const simulationRequestSchema = z.object({
+  criteria: z.array(draftCriterionSchema).min(1, 'At least one criterion is required'),
+  // Either an existing model version or explicit weights; omitted = active model
+  model: z
+    .object({
+      model_version: z.number().int().positive().optional(),
+      feature_weights: z.record(z.string(), z.number().min(0)).optional(),
+    })
+    .optional(),
+  sample_size: z.number().int().min(1).max(MAX_MODEL_SAMPLE).default(50),
+  use_llm: z.boolean().default(false),
+})
+
+export type SimulationRequest = z.infer<typeof simulationRequestSchema>
+
+export interface LeadSimulation {
+  lead_id: string
+  name: string
+  company: string | null
+  current: { score: number; label: string }
+  simulated: { score: number; label: string }
+  score_change: number
+  label_changed: boolean
+}
+
+export interface SimulationResult {
+  mode: 'model' | 'llm'
+  sample_size: number
+  leads: LeadSimulation[]
+  // label_shifts[from][to] = number of leads moving between labels
+  label_shifts: Record<string, Record<string, number>>
+  label_counts: { current: Record<string, number>; simulated: Record<string, number> }
+  average_score: { current: number; simulated: number }
+  changed_labels: number
+}
+
+/**
+ * Re-score a sample of recent leads with draft criteria (and optionally a
+ * draft model) without writing anything. In model mode both sides are
+ * scored by the learned model so only the draft changes show up; in LLM
+ * mode the draft is scored in full and compared with each lead's stored score.
+ */
+export async function simulateQualification(
+  organizationId: string,
+  request: SimulationRequest
+): Promise<SimulationResult> {
+  const supabase = createAdminClient()
+  const useLLM = request.use_llm
+  const sampleSize = Math.min(request.sample_size, useLLM ? MAX_LLM_SAMPLE : MAX_MODEL_SAMPLE)
+
+  const { data: leads, error } = await supabase
+    .from('leads')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .not('score', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(sampleSize)
+
+  if (error) {
+    throw new Error(`Failed to fetch leads: ${error.message}`)
+  }
+
+  const draftWeights = await resolveDraftWeights(organizationId, request.model)
+  const leadIds = (leads || []).map((l) => l.id)
+  const [currentContext, draftContext, enrichmentsByLead, behaviorByLead] = await Promise.all([
+    loadScoringContext(organizationId, { useLLM: false }),
+    loadScoringContext(organizationId, {
+      criteria: request.criteria.map(toScoringCriterion),
+      weights: draftWeights,
+      useLLM,
+    }),
+    getLeadEnrichmentsForLeads(leadIds),
+    getLeadBehaviorForLeads(leadIds),
+  ])
+
+  const simulations: LeadSimulation[] = []
+  for (const lead of (leads || []) as Lead[]) {
+    const enrichments = enrichmentsByLead[lead.id] || {}
+    const behavior = behaviorByLead[lead.id] || {}
+
+    const current = useLLM
+      ? { score: lead.score ?? 0, label: lead.label ?? '' }
+      : await scoreLead(lead, enrichments, currentContext, behavior).then(({ result }) => ({
+          score: result.score,
+          label: result.label,
+        }))
+    const { result } = await scoreLead(lead, enrichments, draftContext, behavior)
+
+    simulations.push({
+      lead_id: lead.id,
+      name: `${lead.first_name || ''} ${lead.last_name || ''}`.trim() || lead.email,
+      company: lead.company_name,
+      current,
+      simulated: { score: result.score, label: result.label },
+      score_change: result.score - current.score,
+      label_changed: result.label !== current.label,
+    })
+  }
+
+  return summarizeSimulation(useLLM ? 'llm' : 'model', simulations)
+}
+
+// Map a draft criterion onto the stored row shape used by qualifyLead
+function toScoringCriterion(draft: z.infer<typeof draftCriterionSchema>): ICPCriterion {
+  return {
+    id: draft.id || `draft-${draft.name}`,
+    created_at: '',
+    updated_at: '',
+    organization_id: '',
+    name: draft.name,
+    description: draft.description ?? null,
+    data_type: draft.data_type,
+    type: draft.data_type,
+    // Stored weights are on a 1-10 scale
+    weight: Math.max(1, Math.min(10, Math.round(draft.weight / 10))),
+    ideal_values: draft.ideal_values,
+    is_required: draft.is_required,
+    feature_source: draft.feature_source ?? null,
+  } as ICPCriterion
+}
+
+async function resolveDraftWeights(
+  organizationId: string,
+  model: SimulationRequest['model']
+): Promise<FeatureVector | undefined> {
+  if (model?.feature_weights) {
+    return deserializeFeatures(model.feature_weights)
+  }
+  if (model?.model_version) {
+    const version = await getScoringModelByVersion(organizationId, model.model_version)
+    if (!version) {
+      throw new Error(`Model version ${model.model_version} not found`)
+    }
+    return version.featureWeights
+  }
+  return undefined
+}
+
+function summarizeSimulation(mode: 'model' | 'llm', leads: LeadSimulation[]): SimulationResult {
+  const labelShifts: Record<string, Record<string, number>> = {}
+  const currentCounts: Record<string, number> = {}
+  const simulatedCounts: Record<string, number> = {}
+  let currentTotal = 0
+  let simulatedTotal = 0
+
+  for (const lead of leads) {
+    const from = lead.current.label
+    const to = lead.simulated.label
+    labelShifts[from] = labelShifts[from] || {}
+    labelShifts[from][to] = (labelShifts[from][to] || 0) + 1
+    currentCounts[from] = (currentCounts[from] || 0) + 1
+    simulatedCounts[to] = (simulatedCounts[to] || 0) + 1
+    currentTotal += lead.current.score
+    simulatedTotal += lead.simulated.score
+  }
+
+  const average = (total: number) =>
+    leads.length > 0 ? Math.round((total / leads.length) * 10) / 10 : 0
+
+  return {
+    mode,
+    sample_size: leads.length,
+    // Biggest movers first
+    leads: [...leads].sort((a, b) => Math.abs(b.score_change) - Math.abs(a.score_change)),
+    label_shifts: labelShifts,
+    label_counts: { current: currentCounts, simulated: simulatedCounts },
+    average_score: { current: average(currentTotal), simulated: average(simulatedTotal) },
+    changed_labels: leads.filter((l) => l.label_changed).length,
+  }
+}
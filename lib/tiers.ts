@@ -0,0 +1,74 @@
+/**
+ * Score Tiers
+ * Per-organization label tiers (id, name, cutoff, colour) used by every
+ * scorer, chart, filter and export in place of fixed hot/warm/cold bands.
+ * Pure helpers only, so client components can import them; the loader lives
+ * in lib/org-settings.
+ */
+
+import { z } from 'zod'
+import { DEFAULT_SCORE_TIERS } from '@/lib/constants'
+import type { ScoreTier } from '@/types'
+
+const scoreTierSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]+$/, 'Tier ids may only contain a-z, 0-9, _ and -').max(32),
+  name: z.string().min(1).max(40),
+  min_score: z.number().int().min(0).max(100),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Colour must be a hex value like #16a34a'),
+})
+
+/**
+ * Tier settings, stored at organizations.settings.tiers
+ */
+export const scoreTiersSchema = z
+  .array(scoreTierSchema)
+  .min(2)
+  .max(8)
+  .refine((tiers) => new Set(tiers.map((t) => t.id)).size === tiers.length, 'Tier ids must be unique')
+  .refine((tiers) => new Set(tiers.map((t) => t.min_score)).size === tiers.length, 'Tier cutoffs must be unique')
+  .refine((tiers) => tiers.some((t) => t.min_score === 0), 'One tier must start at 0')
+  .transform(sortTiers)
+
+/**
+ * Parse stored tier settings, falling back to the defaults
+ */
+export function resolveScoreTiers(raw: unknown): ScoreTier[] {
+  const parsed = scoreTiersSchema.safeParse(raw)
+  return parsed.success ? parsed.data : DEFAULT_SCORE_TIERS
+}
+
+/**
+ * Tier a score falls into. Tiers are ordered highest cutoff first.
+ */
+export function getScoreTier(score: number, tiers: ScoreTier[] = DEFAULT_SCORE_TIERS): ScoreTier {
+  return tiers.find((t) => score >= t.min_score) || getBottomTier(tiers)
+}
+
+/**
+ * Look up a tier by the id stored as a lead label
+ */
+export function getTierById(id: string | null, tiers: ScoreTier[] = DEFAULT_SCORE_TIERS): ScoreTier | null {
+  return tiers.find((t) => t.id === id) || null
+}
+
+export function getTopTier(tiers: ScoreTier[] = DEFAULT_SCORE_TIERS): ScoreTier {
+  return tiers[0]
+}
+
+export function getBottomTier(tiers: ScoreTier[] = DEFAULT_SCORE_TIERS): ScoreTier {
+  return tiers[tiers.length - 1]
+}
+
+/**
+ * Inclusive score range covered by each tier, highest first
+ */
+export function getTierRanges(tiers: ScoreTier[] = DEFAULT_SCORE_TIERS): Array<ScoreTier & { max_score: number }> {
+  return tiers.map((tier, i) => ({
+    ...tier,
+    max_score: i === 0 ? 100 : tiers[i - 1].min_score - 1,
+  }))
+}
+
+function sortTiers(tiers: ScoreTier[]): ScoreTier[] {
+  return [...tiers].sort((a, b) => b.min_score - a.min_score)
+}
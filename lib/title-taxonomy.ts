@@ -0,0 +1,264 @@
+/**
+ * Title Taxonomy
+ * Per-organization seniority levels and departments used to classify job
+ * titles for authority assessment and title scoring. Pure helpers only, so
+ * the settings editor can classify titles in the browser; the loader lives in
+ * lib/org-settings.
+ */
+
+import { z } from 'zod'
+import { BUYING_ROLES, DEFAULT_TITLE_TAXONOMY } from '@/lib/constants'
+
+// Long enough for any real title. Patterns that pass isSafePattern match in
+// time polynomial in the title length, so this keeps that work small.
+const MAX_TITLE_LENGTH = 200
+// Repeating quantifiers (*, +, {n,m}) allowed in one pattern
+const MAX_PATTERN_REPEATS = 2
+
+const compiledPatterns = new Map<string, RegExp | null>()
+
+const idSchema = z.string().trim().regex(/^[a-z0-9_-]{1,40}$/, 'Ids use lowercase letters, numbers, - and _')
+// Blank lines from the one-per-line editors are dropped rather than rejected
+const aliasesSchema = z
+  .array(z.string().trim().max(80))
+  .max(200)
+  .default([])
+  .transform((aliases) => aliases.filter(Boolean))
+const patternsSchema = z
+  .array(z.string().max(200))
+  .max(20)
+  .default([])
+  .transform((patterns) => patterns.filter((p) => p.trim() !== ''))
+  .refine((patterns) => patterns.every((p) => isValidPattern(p)), 'Invalid regular expression')
+  .refine(
+    (patterns) => patterns.every((p) => compilePattern(p) !== null),
+    `Patterns can't use backreferences, repeat a group that contains a repeat or an alternative, or repeat more than ${MAX_PATTERN_REPEATS} times`
+  )
+
+const seniorityLevelSchema = z.object({
+  id: idSchema,
+  name: z.string().trim().min(1).max(60),
+  aliases: aliasesSchema,
+  patterns: patternsSchema,
+  authority_level: z.number().min(0).max(1),
+  decision_maker_likelihood: z.number().min(0).max(1),
+  buying_role: z.enum(BUYING_ROLES),
+  // job_title_match feature value for titles at this level
+  title_score: z.number().min(0).max(1),
+})
+
+const departmentSchema = z.object({
+  id: idSchema,
+  name: z.string().trim().min(1).max(60),
+  aliases: aliasesSchema,
+  patterns: patternsSchema,
+})
+
+/**
+ * Taxonomy settings, stored at organizations.settings.title_taxonomy
+ */
+export const titleTaxonomySchema = z
+  .object({
+    seniority_levels: z.array(seniorityLevelSchema).min(1).max(20).default(DEFAULT_TITLE_TAXONOMY.seniority_levels),
+    departments: z.array(departmentSchema).max(40).default(DEFAULT_TITLE_TAXONOMY.departments),
+    // Level assumed for titles that match nothing
+    fallback_level: idSchema.default(DEFAULT_TITLE_TAXONOMY.fallback_level),
+  })
+  .refine(
+    (t) => new Set(t.seniority_levels.map((l) => l.id)).size === t.seniority_levels.length,
+    'Seniority level ids must be unique'
+  )
+  .refine(
+    (t) => new Set(t.departments.map((d) => d.id)).size === t.departments.length,
+    'Department ids must be unique'
+  )
+  .refine(
+    (t) => t.seniority_levels.some((l) => l.id === t.fallback_level),
+    'The fallback level must be one of the seniority levels'
+  )
+
+export type TitleTaxonomy = z.infer<typeof titleTaxonomySchema>
+export type SeniorityLevel = TitleTaxonomy['seniority_levels'][number]
+export type Department = TitleTaxonomy['departments'][number]
+
+const defaultTitleTaxonomy: TitleTaxonomy = titleTaxonomySchema.parse({})
+
+/**
+ * How a title was classified. level and department are null when nothing
+ * matched; matchedBy holds the alias or pattern that decided each.
+ */
+export interface TitleClassification {
+  level: SeniorityLevel | null
+  department: Department | null
+  matchedBy: {
+    level: string | null
+    department: string | null
+  }
+}
+
+/**
+ * Parse stored taxonomy settings, falling back to the defaults
+ */
+export function resolveTitleTaxonomy(raw: unknown): TitleTaxonomy {
+  const parsed = titleTaxonomySchema.safeParse(raw ?? {})
+  return parsed.success ? parsed.data : defaultTitleTaxonomy
+}
+
+/**
+ * Classify a job title. Levels and departments are checked in taxonomy
+ * order and the first match wins.
+ */
+export function classifyTitle(
+  title: string | null,
+  taxonomy: TitleTaxonomy = defaultTitleTaxonomy
+): TitleClassification {
+  const normalized = normalizeTitle((title || '').slice(0, MAX_TITLE_LENGTH))
+  const level = normalized ? findMatch(normalized, taxonomy.seniority_levels) : null
+  const department = normalized ? findMatch(normalized, taxonomy.departments) : null
+
+  return {
+    level: level?.entry ?? null,
+    department: department?.entry ?? null,
+    matchedBy: {
+      level: level?.rule ?? null,
+      department: department?.rule ?? null,
+    },
+  }
+}
+
+/**
+ * The level a title's authority is assessed at: its match, else the fallback
+ */
+export function getTitleLevel(
+  classification: TitleClassification,
+  taxonomy: TitleTaxonomy = defaultTitleTaxonomy
+): SeniorityLevel {
+  return (
+    classification.level ||
+    taxonomy.seniority_levels.find((l) => l.id === taxonomy.fallback_level) ||
+    taxonomy.seniority_levels[taxonomy.seniority_levels.length - 1]
+  )
+}
+
+/**
+ * Lowercase, strip accents and collapse punctuation to single spaces so
+ * "Geschäftsführer", "Vice-President" and "VP, Sales" compare cleanly
+ */
+export function normalizeTitle(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    // Whitespace, ASCII punctuation and dashes; other scripts pass through
+    .replace(/[\s!-/:-@[-`{-~\u2010-\u2015]+/g, ' ')
+    .trim()
+}
+
+function findMatch<T extends { aliases: string[]; patterns: string[] }>(
+  normalized: string,
+  entries: T[]
+): { entry: T; rule: string } | null {
+  const padded = ` ${normalized} `
+
+  for (const entry of entries) {
+    // Whole words only, so "director" doesn't match "cto" and "leadership" isn't "lead"
+    const alias = entry.aliases.find((a) => {
+      const normalizedAlias = normalizeTitle(a)
+      return normalizedAlias !== '' && padded.includes(` ${normalizedAlias} `)
+    })
+    if (alias) return { entry, rule: alias }
+
+    const pattern = entry.patterns.find((p) => compilePattern(p)?.test(normalized))
+    if (pattern) return { entry, rule: `/${pattern}/` }
+  }
+
+  return null
+}
+
+// Null for invalid patterns and ones isSafePattern rejects, so a pattern saved
+// before the check existed never runs
+function compilePattern(pattern: string): RegExp | null {
+  if (!compiledPatterns.has(pattern)) {
+    // Editing patterns in the settings console compiles every keystroke
+    if (compiledPatterns.size > 500) compiledPatterns.clear()
+    compiledPatterns.set(pattern, isValidPattern(pattern) && isSafePattern(pattern) ? new RegExp(pattern, 'i') : null)
+  }
+  return compiledPatterns.get(pattern) ?? null
+}
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i')
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Whether a valid pattern avoids catastrophic backtracking: no backreferences,
+ * no repeated group containing a repeat or an alternative (as in (a+)+ or
+ * (a|ab)*), and at most MAX_PATTERN_REPEATS repeats overall
+ */
+function isSafePattern(pattern: string): boolean {
+  // Open groups, innermost last; lastGroup is the group a quantifier here would repeat
+  const groups: Array<{ repeats: boolean; alternates: boolean }> = [{ repeats: false, alternates: false }]
+  let lastGroup: { repeats: boolean; alternates: boolean } | null = null
+  let repeatCount = 0
+  let i = 0
+
+  while (i < pattern.length) {
+    const char = pattern[i]
+    const current = groups[groups.length - 1]
+
+    if (char === '\\') {
+      const next = pattern[i + 1] || ''
+      if (/[1-9]/.test(next) || (next === 'k' && pattern[i + 2] === '<')) return false
+      lastGroup = null
+      i += 2
+    } else if (char === '[') {
+      // Skip the character class
+      let j = i + 1
+      while (j < pattern.length && pattern[j] !== ']') j += pattern[j] === '\\' ? 2 : 1
+      lastGroup = null
+      i = j + 1
+    } else if (char === '(') {
+      groups.push({ repeats: false, alternates: false })
+      lastGroup = null
+      const prefix = pattern.slice(i + 1).match(/^\?(?::|=|!|<=|<!|<[A-Za-z_$][\w$]*>)?/)
+      i += 1 + (prefix ? prefix[0].length : 0)
+    } else if (char === ')') {
+      const closed = groups.pop() || { repeats: false, alternates: false }
+      // A group containing a repeat makes every enclosing group contain one
+      const parent = groups[groups.length - 1]
+      parent.repeats ||= closed.repeats
+      parent.alternates ||= closed.alternates
+      lastGroup = closed
+      i++
+    } else if (char === '|') {
+      current.alternates = true
+      lastGroup = null
+      i++
+    } else {
+      const quantifier = pattern.slice(i).match(/^(?:[*+?]|\{(\d+)(,(\d*))?\})\??/)
+      if (!quantifier) {
+        lastGroup = null
+        i++
+        continue
+      }
+
+      const max = quantifier[0][0] === '?' ? 1 : quantifier[0][0] !== '{' ? Infinity
+        : quantifier[2] === undefined ? Number(quantifier[1])
+        : quantifier[3] === '' ? Infinity : Number(quantifier[3])
+      if (max > 1) {
+        if (lastGroup && (lastGroup.repeats || lastGroup.alternates)) return false
+        if (++repeatCount > MAX_PATTERN_REPEATS) return false
+        current.repeats = true
+      }
+      lastGroup = null
+      i += quantifier[0].length
+    }
+  }
+
+  return true
+}
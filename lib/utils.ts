@@ -1,6 +1,8 @@
 import { type ClassValue, clsx } from 'clsx'
 import { twMerge } from 'tailwind-merge'
 import { formatDistanceToNow, format } from 'date-fns'
+import { getScoreTier, getTierById } from '@/lib/tiers'
+import type { ScoreTier } from '@/types'
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -16,31 +18,33 @@ export function formatAbsoluteDate(date: string | Date): string {
   return format(d, 'MMM d, yyyy \'at\' h:mm a')
 }
 
-export function getScoreColor(score: number): string {
-  if (score >= 80) return 'text-success'
-  if (score >= 50) return 'text-warning'
-  return 'text-destructive'
+export function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(value)
 }
 
-export function getLabelColor(label: 'hot' | 'warm' | 'cold'): string {
-  switch (label) {
-    case 'hot':
-      return 'bg-success/10 text-success border-success/20'
-    case 'warm':
-      return 'bg-warning/10 text-warning border-warning/20'
-    case 'cold':
-      return 'bg-destructive/10 text-destructive border-destructive/20'
-  }
+export function getScoreColor(score: number, tiers?: ScoreTier[]): string {
+  return getScoreTier(score, tiers).color
+}
+
+export function getLabelColor(label: string | null, tiers?: ScoreTier[]): string {
+  return getTierById(label, tiers)?.color || '#64748b'
+}
+
+export function getLabelName(label: string | null, tiers?: ScoreTier[]): string {
+  return getTierById(label, tiers)?.name || label || ''
 }
 
-export function getLabelBgColor(label: 'hot' | 'warm' | 'cold'): string {
-  switch (label) {
-    case 'hot':
-      return 'bg-success'
-    case 'warm':
-      return 'bg-warning'
-    case 'cold':
-      return 'bg-destructive'
+// Inline badge style for a tier colour (tinted background and border)
+export function getLabelBadgeStyle(label: string | null, tiers?: ScoreTier[]) {
+  const color = getLabelColor(label, tiers)
+  return {
+    backgroundColor: `${color}1a`,
+    borderColor: `${color}33`,
+    color,
   }
 }
 
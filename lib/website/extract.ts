@@ -0,0 +1,241 @@
+/**
+ * Website content extraction
+ * Pulls title, meta description, visible text, technologies and same-site
+ * links out of raw HTML with a single forward scan over its tags; pages only
+ * need to be read, not rendered, and hostile markup can't make the work grow
+ * faster than the page.
+ */
+
+import { WEBSITE_TECHNOLOGIES } from '@/lib/constants'
+import type { DetectedTechnology, WebsitePage } from './types'
+
+const EXCERPT_LENGTH = 1500
+
+// Only the start of a page is read for text and links
+const MAX_HTML_LENGTH = 256 * 1024
+// Longer tags are skipped rather than parsed for attributes
+const MAX_TAG_LENGTH = 2000
+// Link text read when matching key pages
+const MAX_LABEL_LENGTH = 200
+
+// Elements whose content isn't visible text
+const HIDDEN_ELEMENTS = ['script', 'style', 'noscript', 'svg', 'template']
+
+// Same-site pages worth reading, by path or link text, in the order they're fetched
+const KEY_PAGE_PATTERNS: Array<{ kind: KeyPageKind; pattern: RegExp }> = [
+  { kind: 'about', pattern: /about|company|who-we-are|ueber-uns|uber-uns|a-propos|quienes-somos|chi-siamo/ },
+  { kind: 'pricing', pattern: /pricing|plans|preise|tarifs|precios|prezzi/ },
+  { kind: 'careers', pattern: /careers|jobs|karriere|emplois|empleo|lavora-con-noi/ },
+  { kind: 'contact', pattern: /contact|kontakt|contacto|contatti|get-in-touch|impressum/ },
+]
+
+export type KeyPageKind = 'about' | 'pricing' | 'careers' | 'contact'
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+}
+
+/**
+ * Title, description and visible text of a page
+ */
+export function extractPage(html: string, url: string): WebsitePage {
+  const source = html.slice(0, MAX_HTML_LENGTH)
+  const closeOf = closingTagFinder(source)
+
+  let title: string | null = null
+  let description: string | null = null
+  let ogDescription: string | null = null
+  const text: string[] = []
+  let textFrom = 0
+  let inHead = false
+
+  scanTags(source, (tag) => {
+    if (!inHead) text.push(source.slice(textFrom, tag.start), ' ')
+    textFrom = tag.end
+
+    if (tag.name === 'head') {
+      inHead = !tag.closing
+    } else if (tag.name === 'body') {
+      inHead = false
+    } else if (tag.closing) {
+      return
+    } else if (tag.name === 'title' && title === null) {
+      title = source.slice(tag.end, closeOf('title', tag.end))
+    } else if (tag.name === 'meta') {
+      const attributes = parseAttributes(tag.attributes)
+      const key = (attributes.name || attributes.property || '').toLowerCase()
+      if (key === 'description' && attributes.content) description ??= cleanText(attributes.content)
+      if (key === 'og:description' && attributes.content) ogDescription ??= cleanText(attributes.content)
+    } else if (HIDDEN_ELEMENTS.includes(tag.name)) {
+      // Skip the content; an unclosed element runs to the end of the page
+      textFrom = closeOf(tag.name, tag.end)
+      return textFrom
+    }
+  })
+  if (!inHead) text.push(source.slice(textFrom))
+
+  return {
+    url,
+    title: title ? cleanText(title) || null : null,
+    description: description || ogDescription || null,
+    excerpt: cleanText(text.join('')).slice(0, EXCERPT_LENGTH),
+  }
+}
+
+/**
+ * Technologies whose markers appear in the page source
+ */
+export function detectTechnologies(html: string, url: string): DetectedTechnology[] {
+  const source = html.toLowerCase()
+  return WEBSITE_TECHNOLOGIES
+    .filter((tech) => tech.markers.some((marker) => source.includes(marker)))
+    .map((tech) => ({ name: tech.name, url }))
+}
+
+/**
+ * Same-site links to key pages, at most one per kind except contact pages
+ */
+export function findKeyPages(html: string, url: string): Array<{ kind: KeyPageKind; url: string }> {
+  const source = html.slice(0, MAX_HTML_LENGTH)
+  const closeOf = closingTagFinder(source)
+  const base = new URL(url)
+  const found: Array<{ kind: KeyPageKind; url: string }> = []
+  const seen = new Set<string>()
+
+  scanTags(source, (tag) => {
+    if (HIDDEN_ELEMENTS.includes(tag.name) && !tag.closing) return closeOf(tag.name, tag.end)
+    if (tag.name !== 'a' || tag.closing) return
+
+    const href = parseAttributes(tag.attributes).href
+    if (!href || /^(mailto|tel|javascript):/i.test(href)) return
+
+    let link: URL
+    try {
+      link = new URL(href, base)
+    } catch {
+      return
+    }
+    if (stripWww(link.hostname) !== stripWww(base.hostname)) return
+
+    link.hash = ''
+    const target = link.toString()
+    if (seen.has(target) || target === base.toString()) return
+
+    const text = source.slice(tag.end, Math.min(closeOf('a', tag.end), tag.end + MAX_LABEL_LENGTH))
+    const label = `${link.pathname} ${cleanText(text.replace(/<[^>]*>?/g, ' '))}`.toLowerCase()
+    const entry = KEY_PAGE_PATTERNS.find(({ pattern }) => pattern.test(label))
+    if (!entry) return
+    if (entry.kind !== 'contact' && found.some((p) => p.kind === entry.kind)) return
+
+    seen.add(target)
+    found.push({ kind: entry.kind, url: target })
+  })
+
+  return KEY_PAGE_PATTERNS.flatMap(({ kind }) => found.filter((p) => p.kind === kind))
+}
+
+interface HtmlTag {
+  name: string // Lowercase; empty for comments and doctypes
+  closing: boolean
+  attributes: string // Raw attribute text; empty for tags over MAX_TAG_LENGTH
+  start: number
+  end: number // Just past the ">"
+}
+
+/**
+ * Visit each tag in order. visit may return an index to resume from, to skip
+ * an element's content. Scanning stops at the first "<" without a ">" after
+ * it, so every character is looked at a bounded number of times.
+ */
+function scanTags(html: string, visit: (tag: HtmlTag) => number | void): void {
+  let position = 0
+
+  while (position < html.length) {
+    const start = html.indexOf('<', position)
+    if (start === -1) return
+
+    if (html.startsWith('<!--', start)) {
+      const close = html.indexOf('-->', start + 4)
+      if (close === -1) return
+      position = close + 3
+      visit({ name: '', closing: false, attributes: '', start, end: position })
+      continue
+    }
+
+    const end = html.indexOf('>', start + 1)
+    if (end === -1) return
+    position = end + 1
+
+    const head = html.slice(start + 1, Math.min(end, start + 1 + MAX_TAG_LENGTH))
+    if (head[0] === '!') {
+      visit({ name: '', closing: false, attributes: '', start, end: position })
+      continue
+    }
+    const match = head.match(/^(\/?)([a-z][a-z0-9-]*)/i)
+    if (!match) continue
+
+    const resume = visit({
+      name: match[2].toLowerCase(),
+      closing: match[1] === '/',
+      attributes: end - start <= MAX_TAG_LENGTH ? head.slice(match[0].length) : '',
+      start,
+      end: end + 1,
+    })
+    if (typeof resume === 'number' && resume > position) position = resume
+  }
+}
+
+/**
+ * Finds where an element's closing tag starts (the page length when there is
+ * none). Each search result is reused until the scan passes it, so repeated
+ * unclosed tags don't each search to the end of the page.
+ */
+function closingTagFinder(html: string): (name: string, from: number) => number {
+  const lower = html.toLowerCase()
+  const found: Record<string, number> = {}
+
+  return (name, from) => {
+    const cached = found[name]
+    if (cached === undefined || (cached !== -1 && cached < from)) {
+      // "</a" must not match "</abbr>"
+      let index = lower.indexOf(`</${name}`, from)
+      while (index !== -1 && /[a-z0-9-]/.test(lower.charAt(index + name.length + 2))) {
+        index = lower.indexOf(`</${name}`, index + 1)
+      }
+      found[name] = index
+    }
+    return found[name] === -1 ? html.length : found[name]
+  }
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  // An unclosed quote runs to the end of the tag instead of backtracking
+  for (const match of Array.from(tag.matchAll(/([a-z][a-z0-9:_-]*)\s*=\s*("([^"]*)"?|'([^']*)'?|([^\s"'>]+))/gi))) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[3] ?? match[4] ?? match[5] ?? '')
+  }
+  return attributes
+}
+
+function cleanText(value: string): string {
+  return decodeEntities(value).replace(/\s+/g, ' ').trim()
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity
+  })
+}
+
+function stripWww(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, '')
+}
@@ -0,0 +1,28 @@
+/**
+ * Fixture website fetcher
+ * Serves canned HTML by URL so company research can run offline (tests,
+ * local development).
+ */
+
+import type { FetchedPage, WebsiteFetcher } from './types'
+
+export class FixtureWebsiteFetcher implements WebsiteFetcher {
+  readonly name = 'fixture' as const
+  private pages: Map<string, string>
+
+  /**
+   * @param pages HTML keyed by URL; a trailing slash on the path is ignored
+   */
+  constructor(pages: Record<string, string>) {
+    this.pages = new Map(Object.entries(pages).map(([url, html]) => [fixtureKey(url), html]))
+  }
+
+  async fetch(url: string): Promise<FetchedPage | null> {
+    const html = this.pages.get(fixtureKey(url))
+    return html === undefined ? null : { url, status: 200, html }
+  }
+}
+
+function fixtureKey(url: string): string {
+  return url.replace(/\/+$/, '')
+}
@@ -0,0 +1,60 @@
+/**
+ * HTTP website fetcher
+ * Fetches public web pages with a timeout and size cap. Redirects are
+ * followed by hand so every hop goes through the public-address check, since
+ * the URL comes from a public form.
+ */
+
+import { requestPublicUrl } from './public-request'
+import type { FetchedPage, WebsiteFetcher } from './types'
+
+const DEFAULT_TIMEOUT_MS = 5000
+const DEFAULT_MAX_BYTES = 512 * 1024
+const MAX_REDIRECTS = 3
+const USER_AGENT = 'Mozilla/5.0 (compatible; LeadQualBot/1.0; company research)'
+
+export class HttpWebsiteFetcher implements WebsiteFetcher {
+  readonly name = 'http' as const
+  private timeoutMs: number
+  private maxBytes: number
+
+  constructor(options: { timeoutMs?: number; maxBytes?: number } = {}) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES
+  }
+
+  async fetch(url: string): Promise<FetchedPage | null> {
+    let current = url
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      let response
+      try {
+        response = await requestPublicUrl(current, {
+          headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml' },
+          timeoutMs: this.timeoutMs,
+          maxBytes: this.maxBytes,
+        })
+      } catch {
+        // Unreachable sites and timeouts are routine; research continues without the page
+        return null
+      }
+      if (!response) return null
+
+      if (response.status >= 300 && response.status < 400) {
+        const location = response.headers.location
+        if (!location) return null
+        current = new URL(location, current).toString()
+        continue
+      }
+
+      const contentType = response.headers['content-type'] || ''
+      if (response.status < 200 || response.status >= 300 || !/text\/html|application\/xhtml/i.test(contentType)) {
+        return null
+      }
+
+      return { url: current, status: response.status, html: response.body }
+    }
+
+    return null
+  }
+}
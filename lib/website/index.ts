@@ -0,0 +1,88 @@
+/**
+ * Website Content
+ * Fetches a company's homepage and key pages through a WebsiteFetcher and
+ * extracts what company research can cite
+ */
+
+import { HttpWebsiteFetcher } from './http'
+import { extractPage, detectTechnologies, findKeyPages } from './extract'
+import type { WebsiteContent, WebsiteFetcher, WebsitePage, DetectedTechnology } from './types'
+
+export type {
+  FetchedPage,
+  WebsiteFetcher,
+  WebsitePage,
+  DetectedTechnology,
+  WebsiteContent,
+} from './types'
+export { HttpWebsiteFetcher } from './http'
+export { FixtureWebsiteFetcher } from './fixture'
+export { requestPublicUrl, isPublicAddress, type PublicResponse } from './public-request'
+
+// Homepage plus up to three key pages
+const DEFAULT_MAX_PAGES = 4
+
+/**
+ * Fetch and extract a company website. Returns null when the homepage
+ * can't be fetched; key pages that fail are skipped.
+ */
+export async function fetchWebsiteContent(
+  website: string,
+  fetcher: WebsiteFetcher = new HttpWebsiteFetcher(),
+  options: { maxPages?: number } = {}
+): Promise<WebsiteContent | null> {
+  const url = toHomepageUrl(website)
+  if (!url) return null
+
+  try {
+    const homepage = await fetcher.fetch(url)
+    if (!homepage?.html) return null
+
+    const keyPages = findKeyPages(homepage.html, homepage.url)
+    const toFetch = keyPages.slice(0, Math.max(0, (options.maxPages ?? DEFAULT_MAX_PAGES) - 1))
+
+    const fetched = await Promise.all(
+      toFetch.map(async (page) => {
+        try {
+          return await fetcher.fetch(page.url)
+        } catch (error) {
+          console.error(`Failed to fetch ${page.url}:`, error)
+          return null
+        }
+      })
+    )
+
+    const pages: WebsitePage[] = [extractPage(homepage.html, homepage.url)]
+    const technologies: DetectedTechnology[] = detectTechnologies(homepage.html, homepage.url)
+    for (const page of fetched) {
+      if (!page?.html) continue
+      pages.push(extractPage(page.html, page.url))
+      for (const tech of detectTechnologies(page.html, page.url)) {
+        if (!technologies.some((t) => t.name === tech.name)) technologies.push(tech)
+      }
+    }
+
+    return {
+      url: homepage.url,
+      pages,
+      technologies,
+      contactPages: keyPages.filter((p) => p.kind === 'contact').map((p) => p.url),
+    }
+  } catch (error) {
+    console.error(`Website fetch (${fetcher.name}) failed for ${website}:`, error)
+    return null
+  }
+}
+
+function toHomepageUrl(website: string): string | null {
+  const trimmed = website.trim()
+  if (!trimmed) return null
+
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`)
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+    return `${url.protocol}//${url.host}/`
+  } catch {
+    return null
+  }
+}
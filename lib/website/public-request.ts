@@ -0,0 +1,229 @@
+/**
+ * Public-network requests
+ * HTTP(S) requests to URLs that come from lead submissions or organization
+ * settings, so they must only reach the public internet. Every address the
+ * host resolves to is checked, and the connection is pinned to the checked
+ * address so a second DNS answer can't point it somewhere else.
+ */
+
+import http from 'http'
+import https from 'https'
+import { isIP } from 'net'
+import { promises as dns, type LookupOptions, type LookupAddress } from 'dns'
+import { createBrotliDecompress, createGunzip, createInflate } from 'zlib'
+import type { Readable } from 'stream'
+
+export interface PublicRequestOptions {
+  method?: 'GET' | 'POST'
+  headers?: Record<string, string>
+  body?: string
+  timeoutMs: number
+  maxBytes: number // The rest of a longer body is dropped
+}
+
+export interface PublicResponse {
+  status: number
+  headers: Record<string, string>
+  body: string
+}
+
+/**
+ * Send one request without following redirects. Returns null when the URL
+ * isn't http(s) or its host isn't public; throws on network errors and
+ * timeouts.
+ */
+export async function requestPublicUrl(
+  url: string,
+  options: PublicRequestOptions
+): Promise<PublicResponse | null> {
+  const parsed = new URL(url)
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null
+
+  const address = await resolvePublicAddress(parsed.hostname)
+  if (!address) return null
+
+  // Hand the checked address to the socket instead of resolving again
+  const lookup = (_hostname: string, lookupOptions: LookupOptions, callback: PinnedLookupCallback) => {
+    if (lookupOptions.all) callback(null, [address])
+    else callback(null, address.address, address.family)
+  }
+
+  return new Promise<PublicResponse>((resolve, reject) => {
+    const request = (parsed.protocol === 'https:' ? https : http).request(
+      parsed,
+      {
+        method: options.method || 'GET',
+        headers: {
+          'Accept-Encoding': 'gzip, deflate, br',
+          ...options.headers,
+          ...(options.body !== undefined && { 'Content-Length': String(Buffer.byteLength(options.body)) }),
+        },
+        lookup,
+        agent: false,
+      },
+      (response) => {
+        readBody(response, options.maxBytes)
+          .then((body) =>
+            resolve({
+              status: response.statusCode || 0,
+              headers: flattenHeaders(response.headers),
+              body,
+            })
+          )
+          .catch(reject)
+      }
+    )
+
+    const timeoutId = setTimeout(() => {
+      request.destroy(new Error(`Request to ${parsed.host} timed out after ${options.timeoutMs}ms`))
+    }, options.timeoutMs)
+    request.on('close', () => clearTimeout(timeoutId))
+    request.on('error', reject)
+    request.end(options.body)
+  })
+}
+
+/**
+ * The address to connect to for a host, or null unless the host and every
+ * address it resolves to are public
+ */
+export async function resolvePublicAddress(hostname: string): Promise<LookupAddress | null> {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '')
+  if (!host || host === 'localhost' || /\.(localhost|local|internal)$/.test(host)) return null
+
+  const family = isIP(host)
+  if (family) return isPublicAddress(host) ? { address: host, family } : null
+
+  try {
+    const addresses = await dns.lookup(host, { all: true, verbatim: true })
+    if (addresses.length === 0 || !addresses.every((a) => isPublicAddress(a.address))) return null
+    return addresses[0]
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether an IPv4 or IPv6 address is publicly routable. IPv6 forms that embed
+ * an IPv4 address (mapped, compatible, NAT64, 6to4) are judged by that
+ * address; anything that isn't an IP address is not public.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address)
+  if (family === 4) return isPublicIPv4(parseIPv4(address))
+  if (family !== 6) return false
+
+  const groups = parseIPv6(address)
+  if (!groups) return false
+  const embedded = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff]
+
+  // ::/96 (unspecified, loopback, IPv4-compatible) and ::ffff:0:0/96 (IPv4-mapped)
+  if (groups.slice(0, 5).every((g) => g === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    if (groups[5] === 0 && groups[6] === 0) return false
+    return isPublicIPv4(embedded(groups[6], groups[7]))
+  }
+  // NAT64 well-known prefix 64:ff9b::/96; the local-use 64:ff9b:1::/48 is private
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) {
+    if (groups[2] !== 0) return false
+    return groups.slice(3, 6).every((g) => g === 0) && isPublicIPv4(embedded(groups[6], groups[7]))
+  }
+  // 6to4 2002::/16 carries the IPv4 address in the next 32 bits
+  if (groups[0] === 0x2002) return isPublicIPv4(embedded(groups[1], groups[2]))
+
+  return !(
+    (groups[0] & 0xfe00) === 0xfc00 || // fc00::/7 unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // fe80::/10 link-local
+    (groups[0] & 0xffc0) === 0xfec0 || // fec0::/10 site-local
+    (groups[0] & 0xff00) === 0xff00 || // ff00::/8 multicast
+    (groups[0] === 0x2001 && groups[1] === 0) || // 2001::/32 Teredo
+    (groups[0] === 0x2001 && groups[1] === 0x0db8) || // 2001:db8::/32 documentation
+    (groups[0] === 0x0100 && groups.slice(1, 4).every((g) => g === 0)) // 100::/64 discard
+  )
+}
+
+type PinnedLookupCallback = (
+  err: NodeJS.ErrnoException | null,
+  address: string | LookupAddress[],
+  family?: number
+) => void
+
+function isPublicIPv4([a, b, c]: number[]): boolean {
+  return !(
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && (c === 0 || c === 2)) ||
+    (a === 192 && b === 88 && c === 99) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    (a === 198 && b === 51 && c === 100) ||
+    (a === 203 && b === 0 && c === 113)
+  )
+}
+
+function parseIPv4(address: string): number[] {
+  return address.split('.').map(Number)
+}
+
+// Eight 16-bit groups, or null if the address doesn't parse
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/%.*$/, '')
+
+  // A trailing dotted IPv4 part fills the last two groups
+  const dotted = text.match(/^(.*:)(\d{1,3}(\.\d{1,3}){3})$/)
+  if (dotted) {
+    const [a, b, c, d] = parseIPv4(dotted[2])
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`
+  }
+
+  const halves = text.split('::')
+  if (halves.length > 2) return null
+  const head = halves[0] ? halves[0].split(':') : []
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : []
+  const missing = 8 - head.length - tail.length
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail].map((g) =>
+    /^[0-9a-f]{1,4}$/.test(g) ? parseInt(g, 16) : NaN
+  )
+  return groups.some((g) => Number.isNaN(g)) ? null : groups
+}
+
+// Decompress and read at most maxBytes of a response body
+async function readBody(response: http.IncomingMessage, maxBytes: number): Promise<string> {
+  const encoding = String(response.headers['content-encoding'] || '').toLowerCase()
+  const stream: Readable =
+    encoding === 'gzip' || encoding === 'x-gzip'
+      ? response.pipe(createGunzip())
+      : encoding === 'deflate'
+        ? response.pipe(createInflate())
+        : encoding === 'br'
+          ? response.pipe(createBrotliDecompress())
+          : response
+
+  const chunks: Buffer[] = []
+  let size = 0
+  try {
+    for await (const chunk of stream) {
+      const buffer = chunk as Buffer
+      chunks.push(buffer.subarray(0, maxBytes - size))
+      size += Math.min(buffer.length, maxBytes - size)
+      if (size >= maxBytes) break
+    }
+  } finally {
+    response.destroy()
+  }
+  return new TextDecoder().decode(Buffer.concat(chunks))
+}
+
+function flattenHeaders(headers: http.IncomingHttpHeaders): Record<string, string> {
+  const flat: Record<string, string> = {}
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) flat[name] = Array.isArray(value) ? value.join(', ') : value
+  }
+  return flat
+}
@@ -0,0 +1,47 @@
+/**
+ * Website fetch types
+ */
+
+/**
+ * Raw HTML of one fetched page, after redirects
+ */
+export interface FetchedPage {
+  url: string
+  status: number
+  html: string
+}
+
+/**
+ * Loads web pages for company research. Implementations return null for
+ * pages that can't or shouldn't be fetched, and throw only on unexpected
+ * failures.
+ */
+export interface WebsiteFetcher {
+  readonly name: string
+  fetch(url: string): Promise<FetchedPage | null>
+}
+
+/**
+ * What was extracted from one page
+ */
+export interface WebsitePage {
+  url: string
+  title: string | null
+  description: string | null
+  excerpt: string // Visible text, truncated
+}
+
+export interface DetectedTechnology {
+  name: string
+  url: string // Page whose source showed it
+}
+
+/**
+ * A company website's homepage and key pages, ready to ground research in
+ */
+export interface WebsiteContent {
+  url: string
+  pages: WebsitePage[] // Homepage first
+  technologies: DetectedTechnology[]
+  contactPages: string[]
+}
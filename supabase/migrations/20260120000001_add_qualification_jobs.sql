@@ -0,0 +1,74 @@
+-- Durable Qualification Job Queue
+-- Migration: 20260120000001_add_qualification_jobs.sql
+
+-- One row per requested qualification run. Workers claim queued jobs,
+-- retry failures with backoff and keep a per-attempt audit trail.
+CREATE TABLE qualification_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+  source TEXT NOT NULL DEFAULT 'form',   -- form, import, requalify, recovery
+  priority INTEGER NOT NULL DEFAULT 0,   -- higher runs first
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  locked_by TEXT,
+  last_error TEXT,
+  attempt_history JSONB NOT NULL DEFAULT '[]'::jsonb,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes for performance
+CREATE INDEX idx_qualification_jobs_claim ON qualification_jobs(priority DESC, run_after) WHERE status = 'queued';
+CREATE INDEX idx_qualification_jobs_lead ON qualification_jobs(lead_id);
+CREATE INDEX idx_qualification_jobs_org ON qualification_jobs(organization_id);
+CREATE INDEX idx_qualification_jobs_running ON qualification_jobs(locked_at) WHERE status = 'running';
+
+-- At most one outstanding job per lead
+CREATE UNIQUE INDEX idx_qualification_jobs_active_lead ON qualification_jobs(lead_id)
+  WHERE status IN ('queued', 'running');
+
+CREATE TRIGGER update_qualification_jobs_updated_at
+  BEFORE UPDATE ON qualification_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- RLS Policies
+ALTER TABLE qualification_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org's qualification jobs" ON qualification_jobs
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members om
+      WHERE om.organization_id = qualification_jobs.organization_id
+      AND om.user_id = auth.uid()
+    )
+  );
+
+-- Atomically claim due jobs for a worker. SKIP LOCKED lets several workers
+-- poll the table concurrently without handing out the same job twice.
+CREATE OR REPLACE FUNCTION claim_qualification_jobs(worker_id TEXT, batch_size INTEGER DEFAULT 10)
+RETURNS SETOF qualification_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE qualification_jobs j
+  SET
+    status = 'running',
+    locked_at = NOW(),
+    locked_by = worker_id,
+    attempts = j.attempts + 1
+  WHERE j.id IN (
+    SELECT id FROM qualification_jobs
+    WHERE status = 'queued'
+    AND run_after <= NOW()
+    ORDER BY priority DESC, run_after ASC
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,36 @@
+-- LLM Usage Accounting
+-- Migration: 20260121000001_add_llm_usage.sql
+
+-- One row per model completion (qualification, enrichment, ICP generation)
+CREATE TABLE llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  lead_id UUID REFERENCES leads(id) ON DELETE SET NULL,
+  purpose TEXT NOT NULL,               -- qualification, company_research, intent_analysis, icp_generation
+  provider TEXT NOT NULL,              -- anthropic, stub
+  model TEXT NOT NULL,
+  input_tokens INTEGER DEFAULT 0,
+  output_tokens INTEGER DEFAULT 0,
+  latency_ms INTEGER DEFAULT 0,
+  success BOOLEAN DEFAULT true,
+  error_message TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes for performance
+CREATE INDEX idx_llm_usage_org_created ON llm_usage(organization_id, created_at DESC);
+CREATE INDEX idx_llm_usage_lead ON llm_usage(lead_id);
+
+-- RLS Policies
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view their org's LLM usage" ON llm_usage
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members om
+      WHERE om.organization_id = llm_usage.organization_id
+      AND om.user_id = auth.uid()
+      AND om.role = 'admin'
+    )
+  );
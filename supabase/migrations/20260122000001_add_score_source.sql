@@ -0,0 +1,13 @@
+-- Score Source Tracking
+-- Migration: 20260122000001_add_score_source.sql
+
+-- Records whether a lead's score came from validated model output, output
+-- that needed a repair round-trip, or the ML fallback (and why it was used)
+ALTER TABLE leads
+  ADD COLUMN score_source TEXT CHECK (score_source IN ('llm', 'llm_repaired', 'ml_fallback')),
+  ADD COLUMN score_fallback_reason TEXT;
+
+ALTER TABLE scoring_history
+  ADD COLUMN score_source TEXT CHECK (score_source IN ('llm', 'llm_repaired', 'ml_fallback'));
+
+CREATE INDEX idx_leads_score_source ON leads(organization_id, score_source);
@@ -0,0 +1,13 @@
+-- Hybrid Score Blending
+-- Migration: 20260122000002_add_score_blending.sql
+
+-- Components of each blended score. blend_ratio is the weight given to the
+-- LLM score; the learned model score gets the remainder.
+ALTER TABLE scoring_history
+  ADD COLUMN llm_score INTEGER CHECK (llm_score >= 0 AND llm_score <= 100),
+  ADD COLUMN model_score INTEGER CHECK (model_score >= 0 AND model_score <= 100),
+  ADD COLUMN blend_ratio DECIMAL(3,2) CHECK (blend_ratio >= 0 AND blend_ratio <= 1);
+
+-- Ratio tuned against lead outcomes when the model was trained
+ALTER TABLE scoring_models
+  ADD COLUMN blend_ratio DECIMAL(3,2) CHECK (blend_ratio >= 0 AND blend_ratio <= 1);
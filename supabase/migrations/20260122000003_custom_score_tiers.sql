@@ -0,0 +1,7 @@
+-- Custom Score Tiers
+-- Migration: 20260122000003_custom_score_tiers.sql
+
+-- Labels are now tier ids from organizations.settings.tiers (hot/warm/cold
+-- by default), so the fixed label constraints are dropped
+ALTER TABLE leads DROP CONSTRAINT IF EXISTS leads_label_check;
+ALTER TABLE scoring_history DROP CONSTRAINT IF EXISTS scoring_history_label_check;
@@ -0,0 +1,45 @@
+-- Per-Organization Qualification Prompt Templates
+-- Migration: 20260122000004_add_prompt_templates.sql
+
+-- Every save creates a new version; exactly one version per organization and
+-- purpose is active. Organizations without a template use the built-in one.
+CREATE TABLE prompt_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  purpose TEXT NOT NULL DEFAULT 'qualification' CHECK (purpose IN ('qualification')),
+  version INTEGER NOT NULL,
+  template TEXT NOT NULL,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (organization_id, purpose, version)
+);
+
+CREATE INDEX idx_prompt_templates_org ON prompt_templates(organization_id, purpose);
+CREATE UNIQUE INDEX idx_prompt_templates_active ON prompt_templates(organization_id, purpose)
+  WHERE is_active;
+
+-- Template version used for each scoring run (NULL = built-in template)
+ALTER TABLE scoring_history ADD COLUMN prompt_template_version INTEGER;
+
+-- RLS Policies
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org's prompt templates" ON prompt_templates
+  FOR SELECT
+  USING (
+    organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Admins can insert prompt templates" ON prompt_templates
+  FOR INSERT
+  WITH CHECK (
+    organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Admins can update prompt templates" ON prompt_templates
+  FOR UPDATE
+  USING (
+    organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid() AND role = 'admin')
+  );
@@ -0,0 +1,39 @@
+-- Bulk Requalification Batches
+-- Migration: 20260122000005_add_requalification_batches.sql
+
+-- A batch groups the qualification jobs queued for a filtered set of leads
+-- so progress, cancellation and label changes can be tracked together.
+CREATE TABLE requalification_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'cancelled')),
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  total_leads INTEGER NOT NULL DEFAULT 0,
+  summary JSONB,                         -- final counts, written when the batch finishes
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_requalification_batches_org ON requalification_batches(organization_id, created_at DESC);
+
+CREATE TRIGGER update_requalification_batches_updated_at
+  BEFORE UPDATE ON requalification_batches
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Jobs remember their batch and the lead's label before requalification
+ALTER TABLE qualification_jobs ADD COLUMN batch_id UUID REFERENCES requalification_batches(id) ON DELETE SET NULL;
+ALTER TABLE qualification_jobs ADD COLUMN previous_label TEXT;
+ALTER TABLE qualification_jobs ADD COLUMN previous_score INTEGER;
+
+CREATE INDEX idx_qualification_jobs_batch ON qualification_jobs(batch_id) WHERE batch_id IS NOT NULL;
+
+-- RLS Policies
+ALTER TABLE requalification_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org's requalification batches" ON requalification_batches
+  FOR SELECT
+  USING (
+    organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid())
+  );
@@ -0,0 +1,18 @@
+-- Behavioral Signals in Qualification
+-- Migration: 20260122000006_behavioral_qualification.sql
+
+-- The tracking endpoint upserts one aggregate row per lead, which needs a
+-- unique key. Keep the most recently calculated row for any duplicates.
+DELETE FROM behavioral_scores a
+USING behavioral_scores b
+WHERE a.lead_id = b.lead_id
+  AND (a.calculated_at, a.id) < (b.calculated_at, b.id);
+
+DROP INDEX IF EXISTS idx_behavioral_scores_lead_id;
+ALTER TABLE behavioral_scores
+  ADD CONSTRAINT behavioral_scores_lead_id_key UNIQUE (lead_id);
+
+-- Behavioral score the lead was last qualified with, so new tracking events
+-- can tell when engagement has moved enough to requalify
+ALTER TABLE behavioral_scores
+  ADD COLUMN qualified_behavioral_score INTEGER;
@@ -0,0 +1,13 @@
+-- Calibrated Conversion Probability
+-- Migration: 20260122000007_add_conversion_probability.sql
+
+-- Platt scaling fit at training time: {slope, intercept, sampleSize}
+ALTER TABLE scoring_models
+  ADD COLUMN calibration JSONB;
+
+-- Probability (0-1) that the lead converts, from the active model's calibration
+ALTER TABLE leads
+  ADD COLUMN conversion_probability NUMERIC(5,4);
+
+ALTER TABLE scoring_history
+  ADD COLUMN conversion_probability NUMERIC(5,4);
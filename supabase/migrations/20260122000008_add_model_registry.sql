@@ -0,0 +1,25 @@
+-- Scoring Model Registry
+-- Migration: 20260122000008_add_model_registry.sql
+
+-- The original constraint allowed only one inactive model per organization,
+-- which breaks keeping old versions around. Only the active model is unique.
+ALTER TABLE scoring_models DROP CONSTRAINT IF EXISTS unique_active_model;
+CREATE UNIQUE INDEX idx_scoring_models_one_active
+  ON scoring_models(organization_id) WHERE is_active;
+
+-- A challenger is scored in shadow next to the active (champion) model
+ALTER TABLE scoring_models
+  ADD COLUMN is_challenger BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN activated_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX idx_scoring_models_one_challenger
+  ON scoring_models(organization_id) WHERE is_challenger;
+
+UPDATE scoring_models SET activated_at = created_at WHERE is_active;
+
+-- Shadow rows hold challenger scores; they never reach the lead
+ALTER TABLE scoring_history
+  ADD COLUMN is_shadow BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_scoring_history_shadow
+  ON scoring_history(model_version, created_at) WHERE is_shadow;
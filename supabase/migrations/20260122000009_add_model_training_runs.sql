@@ -0,0 +1,28 @@
+-- Model Training Runs
+-- Migration: 20260122000009_add_model_training_runs.sql
+
+-- One row per scheduled retraining attempt, so rejected attempts aren't
+-- retried until more outcomes arrive and admins can see before/after metrics
+CREATE TABLE model_training_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  trigger TEXT NOT NULL DEFAULT 'scheduled' CHECK (trigger IN ('scheduled', 'manual', 'outcome')),
+  status TEXT NOT NULL CHECK (status IN ('activated', 'rejected', 'failed')),
+  model_version INTEGER,                 -- version created, when activated
+  previous_version INTEGER,              -- active version at the time of the run
+  before_metrics JSONB,                  -- previous model on the run's holdout
+  after_metrics JSONB,                   -- new model on the same holdout
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_model_training_runs_org ON model_training_runs(organization_id, created_at DESC);
+
+-- RLS Policies
+ALTER TABLE model_training_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org's model training runs" ON model_training_runs
+  FOR SELECT
+  USING (
+    organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid())
+  );
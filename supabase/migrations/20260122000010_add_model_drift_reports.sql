@@ -0,0 +1,35 @@
+-- Model Drift Reports
+-- Migration: 20260122000010_add_model_drift_reports.sql
+
+-- Weekly comparison of recently scored leads against the active model's
+-- training data: label mix, mean score and per-feature PSI/KL
+CREATE TABLE model_drift_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  model_version INTEGER NOT NULL,
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  sample_size INTEGER NOT NULL,
+  baseline_size INTEGER NOT NULL,
+  mean_score NUMERIC(5,2),
+  baseline_mean_score NUMERIC(5,2),
+  label_mix JSONB DEFAULT '{}',          -- label -> share of leads this period
+  baseline_label_mix JSONB DEFAULT '{}',
+  label_psi NUMERIC(8,4),
+  score_psi NUMERIC(8,4),
+  feature_drift JSONB DEFAULT '{}',      -- feature -> {psi, kl, baseline_mean, current_mean}
+  max_feature_psi NUMERIC(8,4),
+  drifted BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_model_drift_reports_org ON model_drift_reports(organization_id, period_end DESC);
+
+-- RLS Policies
+ALTER TABLE model_drift_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org's model drift reports" ON model_drift_reports
+  FOR SELECT
+  USING (
+    organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid())
+  );
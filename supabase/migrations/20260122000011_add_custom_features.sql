@@ -0,0 +1,12 @@
+-- Custom Criterion Features
+-- Migration: 20260122000011_add_custom_features.sql
+
+-- Where a custom ICP criterion reads its value from when it is scored as a
+-- learned feature: {"type": "lead_field" | "custom_field" | "enrichment", "key": "..."}.
+-- NULL searches lead fields, custom answers and enrichment data.
+ALTER TABLE icp_criteria
+  ADD COLUMN feature_source JSONB;
+
+-- Answers to a form's custom questions, keyed by question name
+ALTER TABLE leads
+  ADD COLUMN custom_fields JSONB DEFAULT '{}';
@@ -0,0 +1,10 @@
+-- Expected Revenue
+-- Migration: 20260122000012_add_expected_revenue.sql
+
+-- Calibrated conversion probability times the expected deal value for the
+-- lead's tier, from the deal values of converted training leads
+ALTER TABLE leads
+  ADD COLUMN expected_revenue NUMERIC(12,2);
+
+ALTER TABLE scoring_history
+  ADD COLUMN expected_revenue NUMERIC(12,2);
@@ -0,0 +1,42 @@
+-- Company Profiles
+-- Migration: 20260122000013_add_company_profiles.sql
+
+-- Company research shared by every lead from the same domain, so one
+-- analysis serves the whole account until it expires
+CREATE TABLE company_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  domain TEXT NOT NULL,                  -- normalized website or business email domain
+  company_name TEXT,
+  research JSONB NOT NULL DEFAULT '{}',  -- CompanyResearch
+  confidence DECIMAL(3,2) CHECK (confidence >= 0 AND confidence <= 1),
+  source TEXT DEFAULT 'claude',
+  refreshed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_company_profile_domain UNIQUE (organization_id, domain)
+);
+
+CREATE TRIGGER update_company_profiles_updated_at
+  BEFORE UPDATE ON company_profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Leads and their company_research enrichments link to the shared profile
+ALTER TABLE leads
+  ADD COLUMN company_profile_id UUID REFERENCES company_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE lead_enrichments
+  ADD COLUMN company_profile_id UUID REFERENCES company_profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_leads_company_profile ON leads(company_profile_id) WHERE company_profile_id IS NOT NULL;
+
+-- RLS Policies
+ALTER TABLE company_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org's company profiles" ON company_profiles
+  FOR SELECT
+  USING (
+    organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid())
+  );
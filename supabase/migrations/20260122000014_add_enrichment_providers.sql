@@ -0,0 +1,8 @@
+-- Enrichment Providers
+-- Migration: 20260122000014_add_enrichment_providers.sql
+
+-- Enrichments are merged from several providers (configured at
+-- organizations.settings.enrichment); record which provider ids each
+-- field came from. source is the single provider, or 'merged'.
+ALTER TABLE lead_enrichments
+  ADD COLUMN field_sources JSONB DEFAULT '{}';
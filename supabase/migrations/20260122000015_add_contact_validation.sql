@@ -0,0 +1,18 @@
+-- Contact Validation
+-- Migration: 20260122000015_add_contact_validation.sql
+
+-- Email and phone checks are stored as their own enrichment type and feed
+-- the contact_quality feature
+ALTER TABLE lead_enrichments
+  DROP CONSTRAINT valid_enrichment_type;
+
+ALTER TABLE lead_enrichments
+  ADD CONSTRAINT valid_enrichment_type CHECK (
+    enrichment_type IN (
+      'company_research',
+      'intent_analysis',
+      'authority_assessment',
+      'urgency_signals',
+      'contact_validation'
+    )
+  );
@@ -0,0 +1,50 @@
+-- Enrichment Provider Secrets
+-- Migration: 20260122000016_add_enrichment_provider_secrets.sql
+
+-- Request headers (API keys, bearer tokens) for HTTP enrichment providers.
+-- organizations.settings is readable by every member, so secrets live here
+-- behind admin-only access, like platform_credentials.
+CREATE TABLE enrichment_provider_secrets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  provider_id TEXT NOT NULL,             -- id in organizations.settings.enrichment.providers
+  headers JSONB NOT NULL DEFAULT '{}',   -- header name -> value
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_enrichment_provider_secret UNIQUE (organization_id, provider_id)
+);
+
+CREATE TRIGGER update_enrichment_provider_secrets_updated_at
+  BEFORE UPDATE ON enrichment_provider_secrets
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Move headers already saved with provider settings, then strip them there
+INSERT INTO enrichment_provider_secrets (organization_id, provider_id, headers)
+SELECT o.id, p->>'id', p->'headers'
+FROM organizations o
+CROSS JOIN LATERAL jsonb_array_elements(o.settings->'enrichment'->'providers') AS p
+WHERE jsonb_typeof(o.settings->'enrichment'->'providers') = 'array'
+  AND jsonb_typeof(p->'headers') = 'object'
+  AND p->'headers' <> '{}'::jsonb
+ON CONFLICT (organization_id, provider_id) DO NOTHING;
+
+UPDATE organizations
+SET settings = jsonb_set(
+  settings,
+  '{enrichment,providers}',
+  (SELECT jsonb_agg(p - 'headers') FROM jsonb_array_elements(settings->'enrichment'->'providers') AS p)
+)
+WHERE jsonb_typeof(settings->'enrichment'->'providers') = 'array'
+  AND jsonb_array_length(settings->'enrichment'->'providers') > 0;
+
+-- RLS Policies
+ALTER TABLE enrichment_provider_secrets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage enrichment provider secrets" ON enrichment_provider_secrets
+  FOR ALL
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
@@ -0,0 +1,69 @@
+-- Enrichment Lookup Tables
+-- Migration: 20260122000017_add_enrichment_lookup_tables.sql
+
+-- CSV tables for csv_lookup enrichment providers. Providers reference a
+-- table by lookup_table_id, so organizations.settings (read on every
+-- settings load and enrichment) stays small.
+CREATE TABLE enrichment_lookup_tables (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  csv TEXT NOT NULL,
+  columns TEXT[],                        -- Lowercased header row; NULL for tables moved from settings
+  row_count INTEGER,                     -- NULL for tables moved from settings
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_enrichment_lookup_tables_org ON enrichment_lookup_tables(organization_id);
+
+CREATE TRIGGER update_enrichment_lookup_tables_updated_at
+  BEFORE UPDATE ON enrichment_lookup_tables
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Move CSV tables saved with provider settings and leave a reference behind
+DO $$
+DECLARE
+  org RECORD;
+  provider JSONB;
+  providers JSONB;
+  table_id UUID;
+BEGIN
+  FOR org IN
+    SELECT id, settings FROM organizations
+    WHERE jsonb_typeof(settings->'enrichment'->'providers') = 'array'
+  LOOP
+    providers := '[]'::jsonb;
+    FOR provider IN SELECT * FROM jsonb_array_elements(org.settings->'enrichment'->'providers') LOOP
+      IF provider->>'type' = 'csv_lookup' AND COALESCE(TRIM(provider->>'csv'), '') <> '' THEN
+        INSERT INTO enrichment_lookup_tables (organization_id, csv)
+        VALUES (org.id, provider->>'csv')
+        RETURNING id INTO table_id;
+        provider := (provider - 'csv') || jsonb_build_object('lookup_table_id', table_id);
+      ELSE
+        provider := provider - 'csv';
+      END IF;
+      providers := providers || jsonb_build_array(provider);
+    END LOOP;
+
+    UPDATE organizations
+    SET settings = jsonb_set(settings, '{enrichment,providers}', providers)
+    WHERE id = org.id;
+  END LOOP;
+END $$;
+
+-- RLS Policies
+ALTER TABLE enrichment_lookup_tables ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org's enrichment lookup tables" ON enrichment_lookup_tables
+  FOR SELECT
+  USING (
+    organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Admins can manage enrichment lookup tables" ON enrichment_lookup_tables
+  FOR ALL
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
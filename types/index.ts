@@ -1,15 +1,23 @@
 import {
   LEAD_STATUSES,
-  QUALIFICATION_LABELS,
+  SCORE_SOURCES,
+  QUALIFICATION_JOB_STATUSES,
+  REQUALIFICATION_BATCH_STATUSES,
   USER_ROLES,
   CRITERION_TYPES,
+  FEATURE_SOURCE_TYPES,
   WEBHOOK_EVENTS,
 } from '@/lib/constants'
 
 export type LeadStatus = (typeof LEAD_STATUSES)[number]
-export type QualificationLabel = (typeof QUALIFICATION_LABELS)[number]
+// Id of one of the organization's score tiers (hot/warm/cold by default)
+export type QualificationLabel = string
+export type ScoreSource = (typeof SCORE_SOURCES)[number]
+export type QualificationJobStatus = (typeof QUALIFICATION_JOB_STATUSES)[number]
+export type RequalificationBatchStatus = (typeof REQUALIFICATION_BATCH_STATUSES)[number]
 export type UserRole = (typeof USER_ROLES)[number]
 export type CriterionType = (typeof CRITERION_TYPES)[number]
+export type FeatureSourceType = (typeof FEATURE_SOURCE_TYPES)[number]
 export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number]
 
 export interface Organization {
@@ -76,6 +84,10 @@ export interface Lead {
   reasoning: string | null
   breakdown: Record<string, { score: number; note: string }> | null
   recommended_action: string | null
+  score_source: ScoreSource | null
+  score_fallback_reason: string | null
+  conversion_probability: number | null
+  expected_revenue: number | null // Conversion probability times the expected deal value
   qualified_at: string | null
   qualification_status: 'pending' | 'processing' | 'completed' | 'failed'
   status: LeadStatus
@@ -85,6 +97,15 @@ export interface Lead {
   source_ip: string | null
   user_agent: string | null
   referrer: string | null
+  custom_fields: Record<string, string> | null // Answers to the form's custom questions
+  company_profile_id: string | null // Shared company research for the lead's domain
+}
+
+export interface ScoreTier {
+  id: string // stored as the lead label
+  name: string
+  min_score: number // inclusive lower bound, 0-100
+  color: string // hex
 }
 
 export interface ICPCriterion {
@@ -97,6 +118,16 @@ export interface ICPCriterion {
   data_type: string
   weight: number
   ideal_values: string[]
+  is_required?: boolean
+  feature_source?: CustomFeatureSource | null // Custom criteria only
+}
+
+/**
+ * Where a custom criterion's learned feature reads its value from
+ */
+export interface CustomFeatureSource {
+  type: FeatureSourceType
+  key: string // Lead column, custom form answer name, or enrichment path like company.technology_indicators
 }
 
 export interface ActivityLog {
@@ -151,6 +182,18 @@ export interface Notification {
   read: boolean
 }
 
+export interface PromptTemplate {
+  id: string
+  created_at: string
+  organization_id: string
+  purpose: 'qualification'
+  version: number
+  template: string
+  notes: string | null
+  is_active: boolean
+  created_by: string | null
+}
+
 export interface QualificationResult {
   score: number
   label: QualificationLabel
@@ -159,6 +202,69 @@ export interface QualificationResult {
   recommended_action: string
 }
 
+export interface QualificationJobAttempt {
+  attempt: number
+  worker_id: string
+  started_at: string
+  finished_at: string
+  duration_ms: number
+  error: string | null
+}
+
+export interface QualificationJob {
+  id: string
+  created_at: string
+  updated_at: string
+  organization_id: string
+  lead_id: string
+  status: QualificationJobStatus
+  source: string
+  priority: number
+  attempts: number
+  max_attempts: number
+  run_after: string
+  locked_at: string | null
+  locked_by: string | null
+  last_error: string | null
+  attempt_history: QualificationJobAttempt[]
+  completed_at: string | null
+  batch_id: string | null
+  previous_label: string | null
+  previous_score: number | null
+}
+
+export interface RequalificationBatchFilters {
+  label?: string
+  status?: LeadStatus
+  from_date?: string
+  to_date?: string
+  model_version?: number | 'none'
+}
+
+export interface RequalificationBatchProgress {
+  queued: number
+  running: number
+  completed: number
+  failed: number
+  cancelled: number
+  label_changed: number
+  // label_changes[from][to] for completed leads whose label moved
+  label_changes: Record<string, Record<string, number>>
+}
+
+export interface RequalificationBatch {
+  id: string
+  created_at: string
+  updated_at: string
+  organization_id: string
+  status: RequalificationBatchStatus
+  filters: RequalificationBatchFilters
+  total_leads: number
+  summary: RequalificationBatchProgress | null
+  created_by: string | null
+  completed_at: string | null
+}
+
 export interface AnalyticsOverview {
   total_leads: number
   total_leads_change: number